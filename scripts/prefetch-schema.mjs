@@ -21,8 +21,12 @@ const ENV_PATH = resolve(PROJECT_ROOT, '.env');
 
 const CONCURRENCY_LIMIT = 10;
 
+// Kinds offered as graph roots, and kinds whose details are cached
+const DISCOVERABLE_KINDS = ['OBJECT', 'INTERFACE', 'UNION'];
+const CACHED_KINDS = [...DISCOVERABLE_KINDS, 'ENUM', 'INPUT_OBJECT'];
+
 // ---------------------------------------------------------------------------
-// GraphQL queries (mirrored from src/lib/graphql/introspection.ts)
+// GraphQL queries (mirrored from src/lib/graphql/introspection.ts and typeRef.ts)
 // ---------------------------------------------------------------------------
 
 const DISCOVER_TYPES_QUERY = `
@@ -37,6 +41,23 @@ const DISCOVER_TYPES_QUERY = `
   }
 `;
 
+/**
+ * Nested `ofType` levels requested for type references. GraphQL queries
+ * cannot recurse, so the selection is generated to a fixed depth; eight
+ * levels cover four list dimensions with non-null at every level.
+ */
+const TYPE_REF_DEPTH = 8;
+
+function buildTypeRefSelection(depth = TYPE_REF_DEPTH) {
+  let selection = 'kind name';
+  for (let i = 0; i < depth; i++) {
+    selection = `kind name ofType { ${selection} }`;
+  }
+  return selection;
+}
+
+const TYPE_REF_SELECTION = buildTypeRefSelection();
+
 const TYPE_INTROSPECTION_QUERY = `
   query IntrospectType($typename: String!) {
     __type(name: $typename) {
@@ -46,25 +67,25 @@ const TYPE_INTROSPECTION_QUERY = `
       fields {
         name
         description
-        type {
-          kind
+        args {
           name
-          ofType {
-            kind
-            name
-            ofType {
-              kind
-              name
-              ofType {
-                kind
-                name
-              }
-            }
-          }
+          description
+          type { ${TYPE_REF_SELECTION} }
+          defaultValue
         }
+        type { ${TYPE_REF_SELECTION} }
+      }
+      inputFields {
+        name
+        description
+        type { ${TYPE_REF_SELECTION} }
+        defaultValue
       }
-      interfaces {
+      interfaces { ${TYPE_REF_SELECTION} }
+      possibleTypes { ${TYPE_REF_SELECTION} }
+      enumValues {
         name
+        description
       }
     }
   }
@@ -173,25 +194,28 @@ async function main() {
   const { url, token } = loadEnv();
   console.log(`Prefetch: using endpoint ${url}`);
 
-  // Step 1: Discover all OBJECT types
+  // Step 1: Discover all object, interface, union, enum and input types
   console.log('Prefetch: discovering types...');
   const schemaData = await graphqlQuery(url, token, DISCOVER_TYPES_QUERY);
-  const objectTypes = schemaData.__schema.types
-    .filter(t => t.kind === 'OBJECT' && !t.name.startsWith('__'))
+  const namedTypes = schemaData.__schema.types
+    .filter(t => CACHED_KINDS.includes(t.kind) && !t.name.startsWith('__'));
+  const discoveredTypes = namedTypes
+    .filter(t => DISCOVERABLE_KINDS.includes(t.kind))
     .map(t => t.name);
+  const typesToFetch = namedTypes.map(t => t.name);
 
-  console.log(`Prefetch: found ${objectTypes.length} object types`);
+  console.log(`Prefetch: found ${discoveredTypes.length} root-capable types (${typesToFetch.length} total)`);
 
   // Step 2: Introspect each type
   console.log('Prefetch: fetching type details...');
-  const types = await fetchTypesInBatches(url, token, objectTypes);
+  const types = await fetchTypesInBatches(url, token, typesToFetch);
 
   const fetched = Object.keys(types).length;
-  console.log(`Prefetch: successfully fetched ${fetched}/${objectTypes.length} types`);
+  console.log(`Prefetch: successfully fetched ${fetched}/${typesToFetch.length} types`);
 
   // Step 3: Write output
   const output = {
-    discoveredTypes: objectTypes,
+    discoveredTypes,
     types,
   };
 
@@ -0,0 +1,163 @@
+/**
+ * Stub Nautobot GraphQL server for exercising the client's retry, timeout
+ * and cancellation handling without a live instance.
+ *
+ * Answers the app's introspection queries from src/data/schema-cache.json
+ * and injects failures on demand. Point a connection profile at
+ * http://localhost:<port> with auth "None" to use it from the app.
+ *
+ * Usage:
+ *   node scripts/stub-graphql-server.mjs
+ *
+ * Failure injection (environment variables):
+ *   STUB_PORT=4000            Port to listen on
+ *   STUB_LATENCY_MS=0         Delay added to every response
+ *   STUB_FAIL_FIRST=0         Fail the first N requests
+ *   STUB_FAIL_RATE=0          Probability (0-1) of failing any request
+ *   STUB_FAIL_STATUS=503      HTTP status used for injected failures
+ *   STUB_RATE_LIMIT_EVERY=0   Answer every Nth request with 429 + Retry-After
+ *   STUB_HANG_RATE=0          Probability (0-1) of never answering (client timeout)
+ */
+
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+import { resolve, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const CACHE_PATH = resolve(__dirname, '../src/data/schema-cache.json');
+
+const config = {
+  port: Number(process.env.STUB_PORT ?? 4000),
+  latencyMs: Number(process.env.STUB_LATENCY_MS ?? 0),
+  failFirst: Number(process.env.STUB_FAIL_FIRST ?? 0),
+  failRate: Number(process.env.STUB_FAIL_RATE ?? 0),
+  failStatus: Number(process.env.STUB_FAIL_STATUS ?? 503),
+  rateLimitEvery: Number(process.env.STUB_RATE_LIMIT_EVERY ?? 0),
+  hangRate: Number(process.env.STUB_HANG_RATE ?? 0),
+};
+
+const STANDARD_SCALARS = ['String', 'Int', 'Float', 'Boolean', 'ID'];
+
+// ---------------------------------------------------------------------------
+// Schema data
+// ---------------------------------------------------------------------------
+
+const cache = JSON.parse(readFileSync(CACHE_PATH, 'utf-8'));
+const cachedTypes = Object.values(cache.types);
+
+/**
+ * Builds a `__schema` result from the cached types. Scalars referenced by
+ * fields are synthesized since the cache only stores object-like types.
+ */
+function buildSchema() {
+  const scalarNames = new Set(STANDARD_SCALARS);
+  const collect = (ref) => {
+    for (let t = ref; t; t = t.ofType) {
+      if (t.kind === 'SCALAR' && t.name) scalarNames.add(t.name);
+    }
+  };
+  for (const type of cachedTypes) {
+    for (const field of type.fields ?? []) {
+      collect(field.type);
+      for (const arg of field.args ?? []) collect(arg.type);
+    }
+  }
+
+  const scalars = [...scalarNames].map((name) => ({ kind: 'SCALAR', name, description: null }));
+  return {
+    queryType: { name: 'Query' },
+    mutationType: null,
+    subscriptionType: null,
+    types: [...cachedTypes, ...scalars],
+  };
+}
+
+const schema = buildSchema();
+
+// ---------------------------------------------------------------------------
+// Request handling
+// ---------------------------------------------------------------------------
+
+function resolveQuery(body) {
+  const query = body.query ?? '';
+
+  if (query.includes('__type(')) {
+    const type = cache.types[body.variables?.typename] ?? null;
+    return { data: { __type: type } };
+  }
+
+  if (query.includes('__schema')) {
+    return { data: { __schema: schema } };
+  }
+
+  return { errors: [{ message: 'Stub server only answers introspection queries' }] };
+}
+
+function send(res, status, payload, headers = {}) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    ...headers,
+  });
+  res.end(JSON.stringify(payload));
+}
+
+let requestCount = 0;
+
+const server = createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    });
+    res.end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    send(res, 405, { errors: [{ message: 'Method not allowed' }] });
+    return;
+  }
+
+  let raw = '';
+  req.on('data', (chunk) => { raw += chunk; });
+  req.on('end', () => {
+    const n = ++requestCount;
+
+    setTimeout(() => {
+      if (Math.random() < config.hangRate) {
+        console.log(`#${n} hang`);
+        return;
+      }
+
+      if (config.rateLimitEvery > 0 && n % config.rateLimitEvery === 0) {
+        console.log(`#${n} 429`);
+        send(res, 429, { errors: [{ message: 'Too many requests' }] }, { 'Retry-After': '1' });
+        return;
+      }
+
+      if (n <= config.failFirst || Math.random() < config.failRate) {
+        console.log(`#${n} ${config.failStatus}`);
+        send(res, config.failStatus, { errors: [{ message: 'Injected failure' }] });
+        return;
+      }
+
+      let body;
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        send(res, 400, { errors: [{ message: 'Invalid JSON body' }] });
+        return;
+      }
+
+      console.log(`#${n} 200`);
+      send(res, 200, resolveQuery(body));
+    }, config.latencyMs);
+  });
+});
+
+server.listen(config.port, () => {
+  console.log(`Stub GraphQL server on http://localhost:${config.port}/api/graphql/`, config);
+});
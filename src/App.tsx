@@ -1,10 +1,29 @@
-import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { Box, Alert, CircularProgress } from '@mui/material';
 import { GraphCanvas } from './components/GraphCanvas/GraphCanvas';
-import { buildGraphFromIntrospection, TransformOptions } from './lib/graph/graphqlTransformer';
-import { GraphNode, GraphEdge } from './lib/graph/types';
+import { GraphMode } from './lib/graph/types';
+import { LayoutAlgorithm, LayoutOptions } from './lib/layout/types';
+import { DEFAULT_LAYOUT_OPTIONS } from './lib/layout/engines';
 import { useTypeFetcher } from './hooks/useTypeFetcher';
 import { useTypeDiscovery } from './hooks/useTypeDiscovery';
+import { useGraphBuild } from './hooks/useGraphBuild';
+import { usePinnedPositions } from './hooks/usePinnedPositions';
+import { useSavedViews } from './hooks/useSavedViews';
+import { useEndpointProfiles } from './hooks/useEndpointProfiles';
+import { ProfilePanel } from './components/ProfilePanel/ProfilePanel';
+import { SchemaCachePanel } from './components/SchemaCachePanel/SchemaCachePanel';
+import { SchemaFileDrop } from './components/SchemaFileDrop/SchemaFileDrop';
+import { ExportPanel } from './components/ExportPanel/ExportPanel';
+import { SavedViewsPanel } from './components/SavedViewsPanel/SavedViewsPanel';
+import { PathFinderPanel } from './components/PathFinderPanel/PathFinderPanel';
+import { SchemaDiffPanel } from './components/SchemaDiffPanel/SchemaDiffPanel';
+import { GraphBuildRequest } from './lib/pipeline/types';
+import { SavedView, ViewState } from './lib/views/savedViews';
+import { ImportedGraph, importGraphFromJGF } from './lib/export/graphDataExport';
+import { RelationshipPath, getPathHighlight } from './lib/graph/pathFinder';
+import { SchemaDiff, createTypeMapFetcher, getDiffHighlight } from './lib/graph/schemaDiff';
+import { buildUrlSearch, getLinkedTypenames, parseUrlState } from './lib/views/urlState';
+import { ENV_PROFILE_ID } from './lib/graphql/profiles';
 import { IntrospectionType } from './lib/graphql/introspection';
 import { filterPrimaryModels } from './lib/graph/primaryModelFilter';
 import { extractTypenames } from './lib/graph/typeUtils';
@@ -12,14 +31,25 @@ import { parseForeignKeysFromModule } from './utils/fkParser';
 import { buildNameMapper } from './utils/nameMapper';
 import { buildFKLookupMap } from './utils/fkLookup';
 import sqlExportData from './data/sql_export.json';
-import { DEFAULT_ROOT_TYPE, DEFAULT_DEPTH, INITIAL_FILTER_TYPES } from './constants/defaults';
+import { DEFAULT_ROOT_TYPE, DEFAULT_DEPTH, INITIAL_FILTER_TYPES, MAX_DEPTH } from './constants/defaults';
 
 function App() {
+  // Endpoint profiles - discovery and fetching reload when the active profile changes
+  const {
+    profiles,
+    activeProfile,
+    selectProfile,
+    saveProfile,
+    deleteProfile,
+  } = useEndpointProfiles();
+  const profileId = activeProfile?.id ?? ENV_PROFILE_ID;
+
   // Type fetcher for dynamic loading
-  const { fetchMultipleTypes } = useTypeFetcher();
+  const { fetchMultipleTypes, cacheStatus, refreshSchema } = useTypeFetcher(profileId);
+  const schemaRevision = cacheStatus.revision;
 
   // Type discovery - get ALL available types from GraphQL schema with display names
-  const { typeInfos: discoveredTypeInfos, loading: typesDiscoveryLoading, error: typesDiscoveryError } = useTypeDiscovery();
+  const { typeInfos: discoveredTypeInfos, loading: typesDiscoveryLoading, error: typesDiscoveryError } = useTypeDiscovery(profileId, schemaRevision);
 
   // Filter discovered types to only primary models - this becomes our single source of truth
   const primaryModelTypeInfos = useMemo(() => {
@@ -33,20 +63,39 @@ function App() {
     );
   }, [discoveredTypeInfos]);
 
-  const [depth, setDepth] = useState(DEFAULT_DEPTH);
-  const [selectedRootTypes, setSelectedRootTypes] = useState<string[]>([DEFAULT_ROOT_TYPE]);
-  const [filterTypes, setFilterTypes] = useState<string[]>([]);
-  const [showFKOnly, setShowFKOnly] = useState(false);
+  // Deep link - settings in the URL take precedence over the defaults
+  const [initialLink] = useState(() => parseUrlState(window.location.search));
+
+  const [depth, setDepth] = useState(initialLink.depth ?? DEFAULT_DEPTH);
+  const [selectedRootTypes, setSelectedRootTypes] = useState<string[]>(initialLink.rootTypes ?? [DEFAULT_ROOT_TYPE]);
+  const [filterTypes, setFilterTypes] = useState<string[]>(initialLink.filterTypes ?? []);
+  const [showFKOnly, setShowFKOnly] = useState(initialLink.fkOnly ?? false);
+  const [focusedNodeId, setFocusedNodeId] = useState<string | null>(initialLink.focus ?? null);
+  // Typenames from the last link followed, checked against the schema
+  const [linkedTypenames, setLinkedTypenames] = useState(() => getLinkedTypenames(initialLink));
+  const [showTypeKinds, setShowTypeKinds] = useState(false);
+  const [showFieldNodes, setShowFieldNodes] = useState(false);
+  const [includeScalars, setIncludeScalars] = useState(false);
+  const [graphMode, setGraphMode] = useState<GraphMode>('layered');
+  const [layoutAlgorithm, setLayoutAlgorithm] = useState<LayoutAlgorithm>('layered');
+  const [layoutOptions, setLayoutOptions] = useState<LayoutOptions>(DEFAULT_LAYOUT_OPTIONS);
+  const { pins, pinNodes, unpinNodes, unpinAll } = usePinnedPositions();
+  const savedViews = useSavedViews();
   const [initialFetchDone, setInitialFetchDone] = useState(false);
   const [typeData, setTypeData] = useState<Map<string, IntrospectionType>>(new Map());
-  const [graphData, setGraphData] = useState<{
-    nodes: GraphNode[];
-    edges: GraphEdge[];
-  }>({ nodes: [], edges: [] });
 
-  // Set initial filter types once types are discovered
+  // Profile switch or schema refresh: drop type data so the selected roots reload
+  useEffect(() => {
+    setTypeData(new Map());
+    setInitialFetchDone(false);
+  }, [profileId, schemaRevision]);
+
+  // Set initial filter types once types are discovered - only once, so a
+  // restored view or link with no filters (all types) is not overridden
+  const initialFiltersApplied = useRef(initialLink.filterTypes !== undefined);
   useEffect(() => {
-    if (primaryModelTypeInfos.length > 0 && filterTypes.length === 0) {
+    if (primaryModelTypeInfos.length > 0 && filterTypes.length === 0 && !initialFiltersApplied.current) {
+      initialFiltersApplied.current = true;
       const primaryTypenames = extractTypenames(primaryModelTypeInfos);
       const validInitialFilters = INITIAL_FILTER_TYPES.filter(typename =>
         primaryTypenames.includes(typename)
@@ -76,15 +125,58 @@ function App() {
     }
   }, [primaryModelTypeInfos.length, selectedRootTypes, handleRootTypeSelection, initialFetchDone, typeData.size]);
 
-  // Type filter function - include types that are in the filterTypes list
-  const typeFilter = useCallback((typename: string): boolean => {
-    // If no filter types selected, include all primary models
-    if (filterTypes.length === 0) {
-      return true;
+  // Mirror the view in the URL; each change is a history entry so back/forward work
+  const urlSynced = useRef(false);
+  useEffect(() => {
+    // Wait for the default filters, so loading the app adds no entry
+    if (!initialFiltersApplied.current) {
+      return;
+    }
+
+    const search = buildUrlSearch({
+      rootTypes: selectedRootTypes,
+      depth,
+      filterTypes,
+      fkOnly: showFKOnly,
+      focus: focusedNodeId ?? undefined,
+    });
+    if (search === window.location.search) {
+      return;
     }
-    // Otherwise, only include types in the filter list
-    return filterTypes.includes(typename);
-  }, [filterTypes]);
+
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    if (urlSynced.current) {
+      window.history.pushState(null, '', url);
+    } else {
+      window.history.replaceState(null, '', url);
+      urlSynced.current = true;
+    }
+  }, [selectedRootTypes, depth, filterTypes, showFKOnly, focusedNodeId]);
+
+  // Back/forward: restore the view from the URL
+  useEffect(() => {
+    const handlePopState = () => {
+      const link = parseUrlState(window.location.search);
+      setDepth(link.depth ?? DEFAULT_DEPTH);
+      setFilterTypes(link.filterTypes ?? []);
+      setShowFKOnly(link.fkOnly ?? false);
+      setFocusedNodeId(link.focus ?? null);
+      setLinkedTypenames(getLinkedTypenames(link));
+      handleRootTypeSelection(link.rootTypes ?? [DEFAULT_ROOT_TYPE]);
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [handleRootTypeSelection]);
+
+  // Typenames in a link the schema doesn't have - warn rather than show an empty graph
+  const unknownLinkedTypes = useMemo(() => {
+    if (discoveredTypeInfos.length === 0) {
+      return [];
+    }
+    const knownTypenames = new Set(extractTypenames(discoveredTypeInfos));
+    return linkedTypenames.filter(typename => !knownTypenames.has(typename));
+  }, [discoveredTypeInfos, linkedTypenames]);
 
   // Handlers for filter type management
   const handleAddFilterType = useCallback((typename: string) => {
@@ -125,50 +217,152 @@ function App() {
     }
   }, [discoveredTypeInfos]);
 
-  // Stable transform options - memoized to prevent unnecessary re-renders
-  const transformOptions = useMemo<TransformOptions>(() => ({
-    maxDepth: depth,
-    includeScalars: false,
-    showFieldNodes: false,
-    typeFilter,
-    fkLookup, // Include FK lookup for edge enhancement
-  }), [depth, typeFilter, fkLookup]);
-
-  // Build graph when root type selections or type data changes
-  useEffect(() => {
-    if (selectedRootTypes.length === 0) {
-      setGraphData({ nodes: [], edges: [] });
-      return;
+  // Schema diff - while shown, the graph is built from the merged schema of
+  // both snapshots so removed types and fields are drawn too
+  const [schemaDiff, setSchemaDiff] = useState<SchemaDiff | null>(null);
+  const diffHighlight = useMemo(() => (schemaDiff ? getDiffHighlight(schemaDiff) : null), [schemaDiff]);
+  const graphFetcher = useMemo(
+    () => (schemaDiff ? createTypeMapFetcher(schemaDiff.mergedTypes) : fetchMultipleTypes),
+    [schemaDiff, fetchMultipleTypes]
+  );
+  const graphTypeData = useMemo(() => {
+    if (!schemaDiff) {
+      return typeData;
     }
+    const rootTypeData = new Map<string, IntrospectionType>();
+    for (const typename of selectedRootTypes) {
+      const type = schemaDiff.mergedTypes.get(typename);
+      if (type) rootTypeData.set(typename, type);
+    }
+    return rootTypeData;
+  }, [schemaDiff, typeData, selectedRootTypes]);
 
-    // Wait for type data to be loaded
-    if (typeData.size === 0) {
-      return;
+  // Build request - memoized so the graph only rebuilds when an input changes
+  // (a new request cancels the build in progress, e.g. on a depth change)
+  const buildRequest = useMemo<GraphBuildRequest | null>(() => {
+    // Wait for root types and their type data
+    if (selectedRootTypes.length === 0 || graphTypeData.size === 0) {
+      return null;
     }
 
-    let cancelled = false;
+    return {
+      rootTypes: selectedRootTypes,
+      typeData: graphTypeData,
+      options: {
+        maxDepth: depth,
+        includeScalars,
+        showFieldNodes,
+        fkLookup, // Include FK lookup for edge enhancement
+        includeTypeKinds: showTypeKinds,
+        graphMode,
+      },
+      filterTypes,
+      fkOnly: showFKOnly,
+      layoutAlgorithm,
+      layoutOptions,
+      pinnedPositions: pins,
+    };
+  }, [
+    selectedRootTypes, graphTypeData, depth, includeScalars, showFieldNodes, fkLookup,
+    showTypeKinds, graphMode, filterTypes, showFKOnly, layoutAlgorithm, layoutOptions, pins,
+  ]);
 
-    // Build graph from introspection data with auto-fetch
-    const buildGraph = async () => {
-      const { nodes, edges } = await buildGraphFromIntrospection(
-        selectedRootTypes,
-        typeData,
-        transformOptions,
-        fetchMultipleTypes
-      );
+  // Build graph in the graph worker, auto-fetching types it reaches
+  const {
+    graph: graphData,
+    progress: buildProgress,
+    error: buildError,
+    cancel: cancelBuild,
+  } = useGraphBuild(buildRequest, graphFetcher);
 
-      if (!cancelled) {
-        setGraphData({ nodes, edges });
-      }
-    };
+  // Graph opened from an exported file - shown instead of the built graph
+  // until the schema, roots, depth or a filter changes (not on pinning, so
+  // nodes of the imported graph can be dragged)
+  const [importedGraph, setImportedGraph] = useState<ImportedGraph | null>(null);
+  useEffect(() => {
+    setImportedGraph(null);
+  }, [
+    graphTypeData, fkLookup, selectedRootTypes, depth, filterTypes, showFKOnly,
+    includeScalars, showFieldNodes, showTypeKinds, graphMode,
+  ]);
+
+  const handleImportGraph = useCallback((content: string) => {
+    setImportedGraph(importGraphFromJGF(content));
+  }, []);
+
+  const displayedNodes = importedGraph?.nodes ?? graphData.nodes;
+  const displayedEdges = importedGraph?.edges ?? graphData.edges;
 
-    buildGraph();
+  // Path finder results, matched against whatever graph is shown
+  const [highlightedPaths, setHighlightedPaths] = useState<RelationshipPath[] | null>(null);
+  const pathHighlight = useMemo(
+    () => (highlightedPaths ? getPathHighlight(highlightedPaths, displayedNodes, displayedEdges) : null),
+    [highlightedPaths, displayedNodes, displayedEdges]
+  );
+
+  // Render the graph from the paths' source, deep enough and with the
+  // filters letting every type and field of the paths through
+  const handleShowPaths = useCallback((paths: RelationshipPath[]) => {
+    if (paths.length === 0 || paths[0].length === 0) return;
+
+    const pathTypenames = new Set(paths.flatMap((path) => path.map((step) => step.target)));
+    setDepth(prev => Math.max(prev, Math.min(paths[0].length, MAX_DEPTH)));
+    setFilterTypes(prev => (prev.length === 0 ? prev : [...new Set([...prev, ...pathTypenames])]));
+    if (paths.some((path) => path.some((step) => !step.isFK))) {
+      setShowFKOnly(false);
+    }
+    handleRootTypeSelection([paths[0][0].source]);
+  }, [handleRootTypeSelection]);
+
+  // Render the graph from a type of the schema diff, letting it through the filters
+  const handleShowDiffType = useCallback((typename: string) => {
+    setFilterTypes(prev => (prev.length === 0 || prev.includes(typename) ? prev : [...prev, typename]));
+    handleRootTypeSelection([typename]);
+  }, [handleRootTypeSelection]);
 
-    // Cleanup: cancel if component unmounts or dependencies change
-    return () => {
-      cancelled = true;
+  // Current workspace, captured when saving a view; only the pins of
+  // nodes in this graph belong to it
+  const currentViewState = useMemo<ViewState>(() => {
+    const viewPins: ViewState['pinnedPositions'] = {};
+    for (const node of graphData.nodes) {
+      if (pins[node.id]) {
+        viewPins[node.id] = pins[node.id];
+      }
+    }
+
+    return {
+      rootTypes: selectedRootTypes,
+      depth,
+      filterTypes,
+      fkOnly: showFKOnly,
+      graphMode,
+      showTypeKinds,
+      showFieldNodes,
+      includeScalars,
+      layoutAlgorithm,
+      layoutOptions,
+      pinnedPositions: viewPins,
     };
-  }, [selectedRootTypes, typeData, transformOptions, fetchMultipleTypes, filterTypes.length]);
+  }, [
+    graphData.nodes, pins, selectedRootTypes, depth, filterTypes, showFKOnly, graphMode,
+    showTypeKinds, showFieldNodes, includeScalars, layoutAlgorithm, layoutOptions,
+  ]);
+
+  // Restore a saved view; settings missing from older files keep their current value
+  const handleApplyView = useCallback((view: SavedView) => {
+    const { state } = view;
+    setDepth(state.depth);
+    setFilterTypes(state.filterTypes ?? []);
+    setShowFKOnly(state.fkOnly ?? false);
+    if (state.graphMode) setGraphMode(state.graphMode);
+    if (state.showTypeKinds !== undefined) setShowTypeKinds(state.showTypeKinds);
+    if (state.showFieldNodes !== undefined) setShowFieldNodes(state.showFieldNodes);
+    if (state.includeScalars !== undefined) setIncludeScalars(state.includeScalars);
+    if (state.layoutAlgorithm) setLayoutAlgorithm(state.layoutAlgorithm);
+    if (state.layoutOptions) setLayoutOptions({ ...DEFAULT_LAYOUT_OPTIONS, ...state.layoutOptions });
+    if (state.pinnedPositions) pinNodes(state.pinnedPositions);
+    handleRootTypeSelection(state.rootTypes);
+  }, [handleRootTypeSelection, pinNodes]);
 
   return (
     <>
@@ -215,11 +409,73 @@ function App() {
         </Box>
       )}
 
+      {/* Graph build error - overlay on top */}
+      {buildError && (
+        <Box
+          sx={{
+            position: 'fixed',
+            top: 16,
+            right: 16,
+            zIndex: 2000,
+            bgcolor: 'background.paper',
+            borderRadius: 1,
+            boxShadow: 3,
+          }}
+        >
+          <Alert severity="error">
+            Failed to build graph: {buildError}
+          </Alert>
+        </Box>
+      )}
+
+      {/* Unknown types in a followed link - overlay on top */}
+      {unknownLinkedTypes.length > 0 && (
+        <Box
+          sx={{
+            position: 'fixed',
+            top: 16,
+            right: 16,
+            zIndex: 2000,
+            bgcolor: 'background.paper',
+            borderRadius: 1,
+            boxShadow: 3,
+            maxWidth: 480,
+          }}
+        >
+          <Alert severity="warning" onClose={() => setLinkedTypenames([])}>
+            This link refers to types the current schema doesn't have: {unknownLinkedTypes.join(', ')}
+          </Alert>
+        </Box>
+      )}
+
+      {/* Imported graph - overlay on top */}
+      {importedGraph && (
+        <Box
+          sx={{
+            position: 'fixed',
+            top: 16,
+            right: 16,
+            zIndex: 2000,
+            bgcolor: 'background.paper',
+            borderRadius: 1,
+            boxShadow: 3,
+            maxWidth: 480,
+          }}
+        >
+          <Alert severity="info" onClose={() => setImportedGraph(null)}>
+            Showing an imported graph of {importedGraph.rootTypes.join(', ') || 'unknown roots'} (depth {importedGraph.depth})
+            {importedGraph.exportedAt && `, exported ${new Date(importedGraph.exportedAt).toLocaleString()}`}.
+            Close it or change a setting to return to the schema.
+          </Alert>
+        </Box>
+      )}
+
       {/* Graph fills entire viewport */}
       <GraphCanvas
-        nodes={graphData.nodes}
-        edges={graphData.edges}
-        maxDepth={depth}
+        nodes={displayedNodes}
+        edges={displayedEdges}
+        buildProgress={importedGraph ? null : buildProgress}
+        onCancelBuild={cancelBuild}
         depth={depth}
         onDepthChange={setDepth}
         rootTypeInfos={primaryModelTypeInfos}
@@ -231,6 +487,81 @@ function App() {
         onRemoveFilterType={handleRemoveFilterType}
         showFKOnly={showFKOnly}
         onToggleFKOnly={setShowFKOnly}
+        showTypeKinds={showTypeKinds}
+        onToggleTypeKinds={setShowTypeKinds}
+        showFieldNodes={showFieldNodes}
+        onToggleFieldNodes={setShowFieldNodes}
+        includeScalars={includeScalars}
+        onToggleIncludeScalars={setIncludeScalars}
+        graphMode={graphMode}
+        onGraphModeChange={setGraphMode}
+        layoutAlgorithm={layoutAlgorithm}
+        onLayoutAlgorithmChange={setLayoutAlgorithm}
+        layoutOptions={layoutOptions}
+        onLayoutOptionsChange={setLayoutOptions}
+        pinnedPositions={pins}
+        onPinNodes={pinNodes}
+        onUnpinNodes={unpinNodes}
+        onUnpinAll={unpinAll}
+        focusedNodeId={focusedNodeId}
+        onFocusNode={setFocusedNodeId}
+        pathHighlight={pathHighlight}
+        diffHighlight={importedGraph ? null : diffHighlight}
+        connectionPanel={
+          <>
+            <ProfilePanel
+              profiles={profiles}
+              activeProfile={activeProfile}
+              onSelectProfile={selectProfile}
+              onSaveProfile={saveProfile}
+              onDeleteProfile={deleteProfile}
+            />
+            <SchemaCachePanel
+              status={cacheStatus}
+              onRefresh={refreshSchema}
+              canRefresh={activeProfile !== null && !activeProfile.offline}
+            />
+            <SchemaFileDrop />
+          </>
+        }
+        viewsPanel={
+          <SavedViewsPanel
+            views={savedViews.views}
+            currentState={currentViewState}
+            onApplyView={handleApplyView}
+            onSaveView={savedViews.saveView}
+            onDeleteView={savedViews.deleteView}
+            onImportViews={savedViews.importViews}
+          />
+        }
+        pathPanel={
+          <PathFinderPanel
+            typeInfos={primaryModelTypeInfos}
+            fetchTypes={fetchMultipleTypes}
+            fkLookup={fkLookup}
+            onHighlightPaths={setHighlightedPaths}
+            onShowPaths={handleShowPaths}
+          />
+        }
+        diffPanel={
+          <SchemaDiffPanel
+            profiles={profiles}
+            activeProfile={activeProfile}
+            diff={schemaDiff}
+            onDiffChange={setSchemaDiff}
+            onShowType={handleShowDiffType}
+          />
+        }
+        exportPanel={
+          <ExportPanel
+            nodes={displayedNodes}
+            edges={displayedEdges}
+            typeData={graphData.typeData}
+            rootTypes={importedGraph?.rootTypes ?? selectedRootTypes}
+            depth={importedGraph?.depth ?? depth}
+            onImportGraph={handleImportGraph}
+          />
+        }
       />
 
     </>
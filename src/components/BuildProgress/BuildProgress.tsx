@@ -0,0 +1,55 @@
+import { Box, Button, LinearProgress, Paper, Typography } from '@mui/material';
+import { GraphBuildProgress } from '../../lib/graph/graphqlTransformer';
+
+interface BuildProgressProps {
+  progress: GraphBuildProgress;
+  onCancel: () => void;
+}
+
+/**
+ * Describes a progress event for the status line
+ */
+function describeProgress(progress: GraphBuildProgress): string {
+  switch (progress.stage) {
+    case 'started':
+      return 'Building graph...';
+    case 'fetching':
+      return `Depth ${progress.depth + 1}: fetching ${progress.typesRequested} types (${progress.typesFetched} fetched so far)`;
+    case 'nodes':
+      return `Depth ${progress.depth + 1}: ${progress.nodesCreated} nodes created`;
+    case 'layout':
+      return `Laying out ${progress.nodes} nodes and ${progress.edges} edges...`;
+    case 'done':
+      return `Done in ${progress.durationMs}ms`;
+  }
+}
+
+/**
+ * BuildProgress - Status of the running graph build, with a cancel action
+ */
+export function BuildProgress({ progress, onCancel }: BuildProgressProps): JSX.Element {
+  return (
+    <Paper
+      elevation={3}
+      sx={{
+        position: 'fixed',
+        bottom: 16,
+        left: '50%',
+        transform: 'translateX(-50%)',
+        zIndex: 1500,
+        minWidth: 320,
+        overflow: 'hidden',
+      }}
+    >
+      <LinearProgress />
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, px: 2, py: 1 }}>
+        <Typography variant="caption" color="text.secondary" sx={{ flex: 1 }}>
+          {describeProgress(progress)}
+        </Typography>
+        <Button size="small" onClick={onCancel} sx={{ textTransform: 'none' }}>
+          Cancel
+        </Button>
+      </Box>
+    </Paper>
+  );
+}
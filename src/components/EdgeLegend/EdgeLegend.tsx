@@ -5,6 +5,8 @@
  * - Forward FK (many-to-one): Blue, solid
  * - Reverse (one-to-many): Green, dashed
  * - Non-FK (GraphQL only): Gray, dotted
+ * - Implements (interface): Purple, dashed
+ * - Member of (union): Amber, dashed
  */
 
 import React from 'react';
@@ -73,6 +75,44 @@ export const EdgeLegend: React.FC = () => {
             GraphQL field (non-FK)
           </Typography>
         </Box>
+
+        {/* Implements */}
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+          <svg width="50" height="20">
+            <line
+              x1="0"
+              y1="10"
+              x2="40"
+              y2="10"
+              stroke="#8b5cf6"
+              strokeWidth="1.5"
+              strokeDasharray="8,4"
+            />
+            <path d="M40,6 L50,10 L40,14 z" fill="#8b5cf6" />
+          </svg>
+          <Typography variant="caption" sx={{ flex: 1 }}>
+            Implements (interface)
+          </Typography>
+        </Box>
+
+        {/* Member of */}
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+          <svg width="50" height="20">
+            <line
+              x1="0"
+              y1="10"
+              x2="40"
+              y2="10"
+              stroke="#d97706"
+              strokeWidth="1.5"
+              strokeDasharray="8,4"
+            />
+            <path d="M40,6 L50,10 L40,14 z" fill="#d97706" />
+          </svg>
+          <Typography variant="caption" sx={{ flex: 1 }}>
+            Member of (union)
+          </Typography>
+        </Box>
       </Box>
     </Box>
   );
@@ -0,0 +1,99 @@
+import { ReactNode, useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Typography,
+} from '@mui/material';
+import {
+  ContentCopy as ContentCopyIcon,
+  Download as DownloadIcon,
+} from '@mui/icons-material';
+import { downloadFile } from '../../lib/export/download';
+
+interface ExportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  title: string;
+  /** Generated text shown in the preview */
+  content: string;
+  /** File name offered by the download button */
+  fileName: string;
+  mimeType?: string;
+  /** Optional summary line above the preview */
+  summary?: ReactNode;
+}
+
+/**
+ * ExportDialog - Preview of a text export with copy and download actions
+ */
+export function ExportDialog({
+  open,
+  onClose,
+  title,
+  content,
+  fileName,
+  mimeType = 'text/plain',
+  summary,
+}: ExportDialogProps): JSX.Element {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(content);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('[Export] Copy to clipboard failed:', error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>{title}</DialogTitle>
+      <DialogContent>
+        {summary && (
+          <Typography variant="body2" sx={{ color: 'text.secondary', mb: 1 }}>
+            {summary}
+          </Typography>
+        )}
+        <Box
+          component="pre"
+          sx={{
+            m: 0,
+            p: 1.5,
+            maxHeight: '60vh',
+            overflow: 'auto',
+            bgcolor: 'grey.50',
+            border: '1px solid',
+            borderColor: 'divider',
+            borderRadius: 1,
+            fontFamily: 'monospace',
+            fontSize: '12px',
+            lineHeight: 1.5,
+            whiteSpace: 'pre',
+          }}
+        >
+          {content}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button startIcon={<ContentCopyIcon />} onClick={handleCopy}>
+          {copied ? 'Copied' : 'Copy'}
+        </Button>
+        <Button
+          startIcon={<DownloadIcon />}
+          onClick={() => downloadFile(fileName, content, mimeType)}
+        >
+          Download
+        </Button>
+        <Button variant="contained" onClick={onClose} disableElevation>
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,320 @@
+import { useRef, useState } from 'react';
+import { Alert, Box, Button, ListItemText, Menu, MenuItem } from '@mui/material';
+import {
+  AccountTree as AccountTreeIcon,
+  Code as CodeIcon,
+  DataObject as DataObjectIcon,
+  FileUpload as FileUploadIcon,
+  Hub as HubIcon,
+  Image as ImageIcon,
+  PictureAsPdf as PictureAsPdfIcon,
+  PlayArrow as PlayArrowIcon,
+} from '@mui/icons-material';
+import { ExportDialog } from '../ExportDialog/ExportDialog';
+import { ImageExportDialog, ImageFormat } from '../ImageExportDialog/ImageExportDialog';
+import { QueryGeneratorDialog } from '../QueryGeneratorDialog/QueryGeneratorDialog';
+import { QueryPlaygroundDialog } from '../QueryPlayground/QueryPlaygroundDialog';
+import { useGraphSnapshot } from '../../hooks/useGraphSnapshot';
+import { QuerySelection, useQuerySelection } from '../../hooks/useQuerySelection';
+import { GraphSnapshot } from '../../lib/export/imageExport';
+import { exportGraphAsSDL } from '../../lib/export/sdlExport';
+import {
+  GRAPH_DATA_FORMATS,
+  GRAPH_FILE_ACCEPT,
+  GraphDataFormat,
+  exportGraphData,
+} from '../../lib/export/graphDataExport';
+import { DIAGRAM_FORMATS, DiagramFormat, exportGraphAsDiagram } from '../../lib/export/diagramExport';
+import { IntrospectionType } from '../../lib/graphql/introspection';
+import { GraphEdge, GraphNode } from '../../lib/graph/types';
+
+interface ExportPanelProps {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  /** Introspection data for every type in the graph */
+  typeData: Map<string, IntrospectionType>;
+  rootTypes: string[];
+  depth: number;
+  /** Shows a graph exported as JSON Graph Format; throws if the file is invalid */
+  onImportGraph: (content: string) => void;
+}
+
+interface PlaygroundState {
+  query?: string;
+  variables?: Record<string, unknown>;
+}
+
+interface ExportPreview {
+  title: string;
+  content: string;
+  fileName: string;
+  mimeType: string;
+  summary?: string;
+}
+
+/**
+ * ExportPanel - Export actions for the currently visible graph
+ * Rendered inside the graph's ReactFlowProvider (image exports read the canvas)
+ */
+export function ExportPanel({
+  nodes,
+  edges,
+  typeData,
+  rootTypes,
+  depth,
+  onImportGraph,
+}: ExportPanelProps): JSX.Element {
+  const [preview, setPreview] = useState<ExportPreview | null>(null);
+  const [imageSnapshot, setImageSnapshot] = useState<GraphSnapshot | null>(null);
+  const [imageFormat, setImageFormat] = useState<ImageFormat>('svg');
+  const [diagramMenuAnchor, setDiagramMenuAnchor] = useState<HTMLElement | null>(null);
+  const [dataMenuAnchor, setDataMenuAnchor] = useState<HTMLElement | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [querySelection, setQuerySelection] = useState<QuerySelection | null>(null);
+  const [playground, setPlayground] = useState<PlaygroundState | null>(null);
+  const getSnapshot = useGraphSnapshot();
+  const getQuerySelection = useQuerySelection();
+
+  const baseName = rootTypes.length > 0 ? rootTypes.join('-') : 'graph';
+
+  const handleExportSDL = () => {
+    const result = exportGraphAsSDL(nodes, typeData, { rootTypes, depth });
+    setPreview({
+      title: 'GraphQL SDL',
+      content: result.sdl,
+      fileName: `${baseName}.graphql`,
+      mimeType: 'application/graphql',
+      summary: `${result.typeCount} types` +
+        (result.externalTypes.length > 0
+          ? ` · ${result.externalTypes.length} referenced types outside the subgraph are stubbed`
+          : '') +
+        (result.parseError ? ` · does not parse back: ${result.parseError}` : ''),
+    });
+  };
+
+  const handleExportDiagram = (format: DiagramFormat) => {
+    setDiagramMenuAnchor(null);
+    const info = DIAGRAM_FORMATS[format];
+    const result = exportGraphAsDiagram(nodes, edges, format);
+    setPreview({
+      title: info.label,
+      content: result.content,
+      fileName: `${baseName}.${info.fileExtension}`,
+      mimeType: info.mimeType,
+      summary: `${result.entityCount} entities · ${result.relationshipCount} relationships`,
+    });
+  };
+
+  const handleExportGraphData = (format: GraphDataFormat) => {
+    setDataMenuAnchor(null);
+    const info = GRAPH_DATA_FORMATS[format];
+    setPreview({
+      title: info.label,
+      content: exportGraphData(nodes, edges, format, { rootTypes, depth }),
+      fileName: `${baseName}.${info.fileExtension}`,
+      mimeType: info.mimeType,
+      summary: `${nodes.length} nodes · ${edges.length} edges`,
+    });
+  };
+
+  const handleImportGraph = async (file: File | undefined) => {
+    if (!file) return;
+
+    setError(null);
+    try {
+      onImportGraph(await file.text());
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to import graph');
+    }
+  };
+
+  const handleGenerateQuery = () => {
+    const selection = getQuerySelection();
+    if (!selection) {
+      setError('Select a node (its subtree is queried), Ctrl/Cmd-click several nodes, or find a path first');
+      return;
+    }
+    setError(null);
+    setQuerySelection(selection);
+  };
+
+  const handleOpenInPlayground = (query: string, variables: Record<string, null>) => {
+    setQuerySelection(null);
+    setPlayground({ query, variables });
+  };
+
+  const handleExportImage = (format: ImageFormat) => {
+    setImageFormat(format);
+    setImageSnapshot(getSnapshot());
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+      <Button
+        size="small"
+        variant="outlined"
+        startIcon={<CodeIcon fontSize="small" />}
+        onClick={handleExportSDL}
+        disabled={nodes.length === 0}
+        sx={{ textTransform: 'none' }}
+      >
+        GraphQL SDL
+      </Button>
+      <Button
+        size="small"
+        variant="outlined"
+        startIcon={<DataObjectIcon fontSize="small" />}
+        onClick={handleGenerateQuery}
+        disabled={nodes.length === 0}
+        sx={{ textTransform: 'none' }}
+      >
+        GraphQL query
+      </Button>
+      <Button
+        size="small"
+        variant="outlined"
+        startIcon={<PlayArrowIcon fontSize="small" />}
+        onClick={() => setPlayground({})}
+        sx={{ textTransform: 'none' }}
+      >
+        Query playground
+      </Button>
+      <Button
+        size="small"
+        variant="outlined"
+        startIcon={<AccountTreeIcon fontSize="small" />}
+        onClick={(e) => setDiagramMenuAnchor(e.currentTarget)}
+        disabled={nodes.length === 0}
+        sx={{ textTransform: 'none' }}
+      >
+        Diagram
+      </Button>
+      <Menu
+        anchorEl={diagramMenuAnchor}
+        open={diagramMenuAnchor !== null}
+        onClose={() => setDiagramMenuAnchor(null)}
+      >
+        {(Object.keys(DIAGRAM_FORMATS) as DiagramFormat[]).map((format) => (
+          <MenuItem key={format} dense onClick={() => handleExportDiagram(format)}>
+            <ListItemText
+              primary={DIAGRAM_FORMATS[format].label}
+              secondary={`.${DIAGRAM_FORMATS[format].fileExtension}`}
+            />
+          </MenuItem>
+        ))}
+      </Menu>
+      <Button
+        size="small"
+        variant="outlined"
+        startIcon={<ImageIcon fontSize="small" />}
+        onClick={() => handleExportImage('svg')}
+        disabled={nodes.length === 0}
+        sx={{ textTransform: 'none' }}
+      >
+        SVG
+      </Button>
+      <Button
+        size="small"
+        variant="outlined"
+        startIcon={<ImageIcon fontSize="small" />}
+        onClick={() => handleExportImage('png')}
+        disabled={nodes.length === 0}
+        sx={{ textTransform: 'none' }}
+      >
+        PNG
+      </Button>
+      <Button
+        size="small"
+        variant="outlined"
+        startIcon={<PictureAsPdfIcon fontSize="small" />}
+        onClick={() => handleExportImage('pdf')}
+        disabled={nodes.length === 0}
+        sx={{ textTransform: 'none' }}
+      >
+        PDF
+      </Button>
+      <Button
+        size="small"
+        variant="outlined"
+        startIcon={<HubIcon fontSize="small" />}
+        onClick={(e) => setDataMenuAnchor(e.currentTarget)}
+        disabled={nodes.length === 0}
+        sx={{ textTransform: 'none' }}
+      >
+        Graph data
+      </Button>
+      <Menu
+        anchorEl={dataMenuAnchor}
+        open={dataMenuAnchor !== null}
+        onClose={() => setDataMenuAnchor(null)}
+      >
+        {(Object.keys(GRAPH_DATA_FORMATS) as GraphDataFormat[]).map((format) => (
+          <MenuItem key={format} dense onClick={() => handleExportGraphData(format)}>
+            <ListItemText
+              primary={GRAPH_DATA_FORMATS[format].label}
+              secondary={`.${GRAPH_DATA_FORMATS[format].fileExtension}`}
+            />
+          </MenuItem>
+        ))}
+      </Menu>
+      <Button
+        size="small"
+        startIcon={<FileUploadIcon fontSize="small" />}
+        onClick={() => inputRef.current?.click()}
+        sx={{ textTransform: 'none' }}
+      >
+        Import graph
+      </Button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={GRAPH_FILE_ACCEPT}
+        hidden
+        onChange={(e) => {
+          handleImportGraph(e.target.files?.[0]);
+          e.target.value = '';
+        }}
+      />
+
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)} sx={{ width: '100%', py: 0 }}>
+          {error}
+        </Alert>
+      )}
+
+      <ExportDialog
+        open={preview !== null}
+        onClose={() => setPreview(null)}
+        title={preview?.title ?? ''}
+        content={preview?.content ?? ''}
+        fileName={preview?.fileName ?? ''}
+        mimeType={preview?.mimeType}
+        summary={preview?.summary}
+      />
+
+      <QueryGeneratorDialog
+        open={querySelection !== null}
+        onClose={() => setQuerySelection(null)}
+        selection={querySelection}
+        onOpenInPlayground={handleOpenInPlayground}
+      />
+
+      <QueryPlaygroundDialog
+        open={playground !== null}
+        onClose={() => setPlayground(null)}
+        initialQuery={playground?.query}
+        initialVariables={playground?.variables}
+      />
+
+      <ImageExportDialog
+        open={imageSnapshot !== null}
+        onClose={() => setImageSnapshot(null)}
+        snapshot={imageSnapshot}
+        format={imageFormat}
+        onFormatChange={setImageFormat}
+        fileBaseName={baseName}
+      />
+    </Box>
+  );
+}
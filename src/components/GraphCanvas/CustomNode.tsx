@@ -1,42 +1,261 @@
-import { memo } from 'react';
-import { Handle, Position, NodeProps } from 'reactflow';
+import { CSSProperties, memo, useState } from 'react';
+import { Handle, Position, NodeProps, useUpdateNodeInternals } from 'reactflow';
+import { GraphNodeField, GraphNodeKind } from '../../lib/graph/types';
+import { DIFF_COLORS, FIELD_BADGE_COLORS, KIND_STYLES, PATH_HIGHLIGHT } from '../../lib/graph/graphStyles';
+import { PathState } from '../../lib/graph/pathFinder';
+import { DiffState } from '../../lib/graph/schemaDiff';
+import { getFieldHandleId } from '../../lib/graph/nodeFields';
 
 interface CustomNodeData {
   label: string;
   depth: number;
   isRoot: boolean;
+  kind?: GraphNodeKind;
+  typename: string;
+  fields?: GraphNodeField[];
+  path?: string[];
+  /** Placed by hand; the layout keeps it where it is */
+  pinned?: boolean;
+  onUnpin?: (id: string) => void;
+  /** On (or off) the paths highlighted by the path finder */
+  pathState?: PathState;
+  /** Type added, removed or changed in the schema diff shown */
+  diffState?: DiffState;
+  /** Diff state of each differing field, by field name */
+  fieldDiffStates?: Record<string, DiffState>;
 }
 
-export const CustomNode = memo<NodeProps<CustomNodeData>>(({ data }) => {
+const DIFF_MARKS: Record<DiffState, string> = {
+  added: '+',
+  removed: '−',
+  changed: '~',
+};
+
+const fieldRowStyle: CSSProperties = {
+  position: 'relative',
+  display: 'flex',
+  justifyContent: 'space-between',
+  alignItems: 'center',
+  gap: '8px',
+  padding: '2px 8px',
+  fontSize: '11px',
+  fontWeight: 'normal',
+  textAlign: 'left',
+};
+
+/**
+ * One field row with its type badge
+ * Port rows carry a source handle so edges start at the field; it sits on
+ * the node's outgoing side in horizontal layouts, on the right otherwise
+ */
+function FieldRow({
+  field,
+  portPosition,
+  diffState,
+}: {
+  field: GraphNodeField;
+  portPosition: Position;
+  diffState?: DiffState;
+}) {
+  return (
+    <div style={fieldRowStyle}>
+      <span
+        style={{
+          fontFamily: 'monospace',
+          color: diffState ? DIFF_COLORS[diffState] : undefined,
+          textDecoration: diffState === 'removed' ? 'line-through' : undefined,
+        }}
+      >
+        {diffState && `${DIFF_MARKS[diffState]} `}{field.name}
+      </span>
+      <span
+        style={{
+          fontFamily: 'monospace',
+          fontSize: '10px',
+          padding: '0 4px',
+          borderRadius: '4px',
+          color: '#FFFFFF',
+          background: FIELD_BADGE_COLORS[field.fieldType],
+          whiteSpace: 'nowrap',
+        }}
+      >
+        {field.typeSignature}
+      </span>
+      {field.isPort && (
+        <Handle
+          type="source"
+          id={getFieldHandleId(field.name)}
+          position={portPosition}
+          style={{
+            background: FIELD_BADGE_COLORS[field.fieldType],
+            ...(portPosition === Position.Left ? { left: -14 } : { right: -14 }),
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+export const CustomNode = memo<NodeProps<CustomNodeData>>(({
+  id,
+  data,
+  selected,
+  targetPosition = Position.Top,
+  sourcePosition = Position.Bottom,
+}) => {
+  const kindStyle = data.kind ? KIND_STYLES[data.kind] : undefined;
+  const borderColor = data.diffState
+    ? DIFF_COLORS[data.diffState]
+    : kindStyle?.color ?? (data.isRoot ? '#2E5C8A' : '#CCCCCC');
+  const updateNodeInternals = useUpdateNodeInternals();
+  const [fieldsExpanded, setFieldsExpanded] = useState(false);
+
+  const ports = data.fields?.filter((field) => field.isPort) ?? [];
+  const listFields = data.fields?.filter((field) => !field.isPort) ?? [];
+  const hasFields = ports.length > 0 || listFields.length > 0;
+  const portPosition = sourcePosition === Position.Left ? Position.Left : Position.Right;
+
+  const toggleFields = () => {
+    setFieldsExpanded(!fieldsExpanded);
+    // Node size changed - let ReactFlow re-measure handle positions
+    requestAnimationFrame(() => updateNodeInternals(id));
+  };
+
   return (
     <div
       style={{
         padding: '10px 20px',
-        borderRadius: '8px',
+        borderRadius: kindStyle?.borderRadius ?? '8px',
         background: data.isRoot ? '#4A90E2' : '#FFFFFF',
         color: data.isRoot ? '#FFFFFF' : '#333333',
-        border: `2px solid ${data.isRoot ? '#2E5C8A' : '#CCCCCC'}`,
+        border: `${kindStyle?.borderStyle === 'double' ? 4 : 2}px ${data.diffState === 'removed' ? 'dashed' : kindStyle?.borderStyle ?? 'solid'} ${borderColor}`,
         minWidth: '180px',
         textAlign: 'center',
         fontSize: '14px',
         fontWeight: data.isRoot ? 'bold' : 'normal',
+        position: 'relative',
+        // Focused node (shared in deep links), then path finder results
+        boxShadow: selected
+          ? '0 0 0 3px rgba(37, 99, 235, 0.35)'
+          : data.pathState === 'highlighted' ? `0 0 0 3px ${PATH_HIGHLIGHT.color}` : undefined,
+        opacity: data.pathState === 'dimmed' ? PATH_HIGHLIGHT.dimmedOpacity : 1,
       }}
     >
-      {/* Top handle for incoming edges */}
-      {!data.isRoot && (
-        <Handle
-          type="target"
-          position={Position.Top}
-          style={{ background: '#555' }}
-        />
+      {/* Pin marker - click to hand the node back to the layout */}
+      {data.pinned && (
+        <div
+          className="nodrag"
+          onClick={() => data.onUnpin?.(id)}
+          title="Pinned - click to unpin"
+          style={{
+            position: 'absolute',
+            top: 2,
+            right: 4,
+            fontSize: '11px',
+            cursor: 'pointer',
+          }}
+        >
+          📌
+        </div>
+      )}
+
+      {/* Schema diff tag */}
+      {data.diffState && (
+        <div
+          style={{
+            position: 'absolute',
+            top: -10,
+            left: 8,
+            padding: '0 6px',
+            borderRadius: '8px',
+            fontSize: '10px',
+            fontWeight: 600,
+            color: '#FFFFFF',
+            background: DIFF_COLORS[data.diffState],
+          }}
+        >
+          {DIFF_MARKS[data.diffState]} {data.diffState}
+        </div>
+      )}
+
+      {/* Handle for incoming edges - hidden on plain roots, which only receive
+          edges closing a cycle (interface/union roots receive member edges) */}
+      <Handle
+        type="target"
+        position={targetPosition}
+        style={{ background: '#555', opacity: data.isRoot && !kindStyle ? 0 : 1 }}
+      />
+
+      {/* Kind tag for interfaces, unions, enums and inputs */}
+      {kindStyle && (
+        <div
+          style={{
+            fontSize: '10px',
+            fontStyle: 'italic',
+            color: data.isRoot ? '#FFFFFF' : kindStyle.color,
+          }}
+        >
+          «{kindStyle.tag}»
+        </div>
       )}
 
       {data.label}
 
-      {/* Bottom handle for outgoing edges */}
+      {/* Path-tree nodes are labelled by field - show the type underneath */}
+      {data.path && data.path.length > 0 && (
+        <div
+          style={{
+            fontSize: '11px',
+            fontFamily: 'monospace',
+            color: data.isRoot ? '#FFFFFF' : '#64748b',
+          }}
+          title={data.path.join('.')}
+        >
+          {data.typename}
+        </div>
+      )}
+
+      {/* Field-level mode: relationship ports, then the collapsible field list */}
+      {hasFields && (
+        <div
+          style={{
+            margin: '8px -12px -2px',
+            background: '#FFFFFF',
+            color: '#333333',
+            borderRadius: '4px',
+            border: '1px solid #E2E8F0',
+          }}
+        >
+          {ports.map((field) => (
+            <FieldRow key={field.name} field={field} portPosition={portPosition} diffState={data.fieldDiffStates?.[field.name]} />
+          ))}
+
+          {listFields.length > 0 && (
+            <>
+              <div
+                className="nodrag"
+                onClick={toggleFields}
+                style={{
+                  ...fieldRowStyle,
+                  cursor: 'pointer',
+                  color: '#64748b',
+                  borderTop: ports.length > 0 ? '1px solid #E2E8F0' : 'none',
+                }}
+              >
+                <span>{fieldsExpanded ? '▾' : '▸'} {listFields.length} fields</span>
+              </div>
+              {fieldsExpanded && listFields.map((field) => (
+                <FieldRow key={field.name} field={field} portPosition={portPosition} diffState={data.fieldDiffStates?.[field.name]} />
+              ))}
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Handle for outgoing edges, opposite the incoming one */}
       <Handle
         type="source"
-        position={Position.Bottom}
+        position={sourcePosition}
         style={{ background: '#555' }}
       />
     </div>
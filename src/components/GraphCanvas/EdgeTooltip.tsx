@@ -5,6 +5,7 @@
  * - Direction (forward/reverse)
  * - Cardinality (many-to-one, one-to-many, many-to-many)
  * - Source and target PostgreSQL tables
+ * - GraphQL field type with full list nesting (e.g., "[InterfaceType!]!")
  */
 
 import React from 'react';
@@ -31,6 +32,7 @@ export const EdgeTooltip: React.FC<EdgeTooltipProps> = ({ data }) => {
         <Typography variant="caption" color="text.secondary">
           GraphQL Field (non-FK)
         </Typography>
+        <GraphQLTypeRow data={data} />
       </Box>
     );
   }
@@ -108,6 +110,9 @@ export const EdgeTooltip: React.FC<EdgeTooltipProps> = ({ data }) => {
         </Box>
       )}
 
+      {/* GraphQL field type */}
+      <GraphQLTypeRow data={data} />
+
       {/* Junction Table Indicator */}
       {data.isJunctionTable && (
         <Box sx={{ mt: 1 }}>
@@ -122,3 +127,33 @@ export const EdgeTooltip: React.FC<EdgeTooltipProps> = ({ data }) => {
     </Box>
   );
 };
+
+/**
+ * GraphQLTypeRow - Shows the field's GraphQL type and to-one/to-many arity
+ */
+const GraphQLTypeRow: React.FC<EdgeTooltipProps> = ({ data }) => {
+  if (!data.fieldTypeSignature) {
+    return null;
+  }
+
+  const arity = data.listDepth && data.listDepth > 0
+    ? `to-many${data.listDepth > 1 ? ` (${data.listDepth}-level list)` : ''}`
+    : 'to-one';
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', mt: 0.5 }}>
+      <Typography variant="caption" color="text.secondary" sx={{ minWidth: 80 }}>
+        GraphQL Type:
+      </Typography>
+      <Typography
+        variant="caption"
+        sx={{ fontFamily: 'monospace', fontSize: '0.7rem', mr: 1 }}
+      >
+        {data.fieldTypeSignature}
+      </Typography>
+      <Typography variant="caption" color="text.secondary">
+        {arity}
+      </Typography>
+    </Box>
+  );
+};
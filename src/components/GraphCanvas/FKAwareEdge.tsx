@@ -5,29 +5,51 @@
  * - Forward FK (many-to-one): Blue, solid, 2px
  * - Reverse (one-to-many): Green, dashed, 2px
  * - Non-FK (GraphQL only): Gray, dotted, 1px
+ * - Implements (interface): Purple, long-dashed, 1.5px
+ * - Member of (union): Amber, long-dashed, 1.5px
+ *
+ * Edges closing a cycle of the schema graph are drawn as curves (self-references
+ * as a loop beside the node) so they don't run back over the tree edges.
  */
 
 import React from 'react';
-import {
-  BaseEdge,
-  EdgeProps,
-  getStraightPath,
-} from 'reactflow';
+import { BaseEdge, EdgeProps } from 'reactflow';
 import { FKEdgeData } from '../../lib/graph/types';
+import { DIFF_COLORS, EDGE_STYLES, PATH_HIGHLIGHT, getEdgeStyleKind } from '../../lib/graph/graphStyles';
+import { getEdgePath } from '../../lib/graph/edgePaths';
+import { PathState } from '../../lib/graph/pathFinder';
+import { DiffState } from '../../lib/graph/schemaDiff';
+
+type FKAwareEdgeData = FKEdgeData & {
+  /** On (or off) the paths highlighted by the path finder */
+  pathState?: PathState;
+  /** Field added, removed or changed in the schema diff shown */
+  diffState?: DiffState;
+};
 
-export const FKAwareEdge: React.FC<EdgeProps<FKEdgeData>> = (props) => {
-  const { id, sourceX, sourceY, targetX, targetY, data } = props;
+export const FKAwareEdge: React.FC<EdgeProps<FKAwareEdgeData>> = (props) => {
+  const { id, source, target, sourceX, sourceY, targetX, targetY, sourcePosition, targetPosition, data } = props;
 
-  // Calculate straight path for horizontal tree layout
-  const [edgePath] = getStraightPath({
-    sourceX,
-    sourceY,
-    targetX,
-    targetY,
-  });
+  // Straight between the handles (they follow the layout direction), curved for cycles
+  const edgePath = getEdgePath(
+    { sourceX, sourceY, sourcePosition, targetX, targetY, targetPosition },
+    data?.isCycle,
+    source === target
+  );
 
-  // Determine styling based on FK metadata
+  // Determine styling based on FK metadata; schema diff colors and path finder results stand out
   const style = getEdgeStyle(data);
+  if (data?.diffState) {
+    style.stroke = DIFF_COLORS[data.diffState];
+    style.strokeWidth = Math.max(Number(style.strokeWidth), 2);
+    if (data.diffState === 'removed') style.strokeDasharray = '6,4';
+  }
+  if (data?.pathState === 'highlighted') {
+    style.strokeWidth = Number(style.strokeWidth) + 2;
+    style.filter = `drop-shadow(0 0 3px ${PATH_HIGHLIGHT.color})`;
+  } else if (data?.pathState === 'dimmed') {
+    style.opacity = PATH_HIGHLIGHT.dimmedOpacity;
+  }
   const markerEnd = getMarkerEnd(data);
 
   return (
@@ -36,38 +58,11 @@ export const FKAwareEdge: React.FC<EdgeProps<FKEdgeData>> = (props) => {
 };
 
 /**
- * Get edge styling based on FK metadata
- *
- * Visual specifications:
- * - Forward FK: Blue (#2563eb), solid, 2px
- * - Reverse: Green (#10b981), dashed (5,5), 2px
- * - Non-FK: Gray (#94a3b8), dotted (3,3), 1px
+ * Get edge styling based on FK metadata (see `EDGE_STYLES`)
  */
 function getEdgeStyle(data?: FKEdgeData): React.CSSProperties {
-  if (!data?.isFK) {
-    // GraphQL field (non-FK relationship)
-    return {
-      stroke: '#94a3b8',
-      strokeWidth: 1,
-      strokeDasharray: '3,3',
-    };
-  }
-
-  if (data.direction === 'forward') {
-    // Forward FK (many-to-one)
-    return {
-      stroke: '#2563eb',
-      strokeWidth: 2,
-      strokeDasharray: 'none',
-    };
-  }
-
-  // Reverse relationship (one-to-many)
-  return {
-    stroke: '#10b981',
-    strokeWidth: 2,
-    strokeDasharray: '5,5',
-  };
+  const { stroke, strokeWidth, strokeDasharray } = EDGE_STYLES[getEdgeStyleKind(data)];
+  return { stroke, strokeWidth, strokeDasharray };
 }
 
 /**
@@ -76,13 +71,5 @@ function getEdgeStyle(data?: FKEdgeData): React.CSSProperties {
  * Markers are defined in GraphCanvas.tsx as SVG defs
  */
 function getMarkerEnd(data?: FKEdgeData): string {
-  if (!data?.isFK) {
-    return 'url(#arrow-gray)';
-  }
-
-  if (data.direction === 'forward') {
-    return 'url(#arrow-blue)';
-  }
-
-  return 'url(#arrow-green)';
+  return `url(#${EDGE_STYLES[getEdgeStyleKind(data)].markerId})`;
 }
@@ -1,20 +1,30 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import ReactFlow, {
+  Node,
+  Position,
+  ReactFlowInstance,
+  ReactFlowProvider,
   Controls,
   Background,
   useNodesState,
   useEdgesState,
 } from 'reactflow';
+import { Box } from '@mui/material';
 import 'reactflow/dist/style.css';
 import { CustomNode } from './CustomNode';
 import { FKAwareEdge } from './FKAwareEdge';
-import { GraphNode, GraphEdge } from '../../lib/graph/types';
-import { filterByDepth } from '../../lib/graph/depthFilter';
-import { calculateTreeLayout } from '../../lib/graph/treeLayout';
+import { EdgeTooltip } from './EdgeTooltip';
+import { GraphNode, GraphEdge, GraphMode, FKEdgeData } from '../../lib/graph/types';
+import { LayoutAlgorithm, LayoutDirection, LayoutOptions } from '../../lib/layout/types';
+import { PinnedPositions } from '../../lib/layout/pinnedPositions';
+import { PathHighlight } from '../../lib/graph/pathFinder';
+import { SchemaDiffHighlight } from '../../lib/graph/schemaDiff';
+import { estimateNodeHeight, estimateNodeWidth } from '../../lib/graph/nodeFields';
+import { GraphBuildProgress } from '../../lib/graph/graphqlTransformer';
 import { GraphControlsPanel } from '../GraphControlsPanel/GraphControlsPanel';
 import { TypeInfo } from '../../lib/graph/typeUtils';
-import { filterFKEdges } from '../../lib/graph/edgeEnhancer';
 import { GraphDrawer } from '../GraphDrawer/GraphDrawer';
+import { BuildProgress } from '../BuildProgress/BuildProgress';
 
 // Full viewport styles for the graph container
 const GRAPH_CONTAINER_STYLE = {
@@ -25,36 +35,21 @@ const GRAPH_CONTAINER_STYLE = {
   left: 0,
 };
 
-/**
- * Remove nodes that have no edges connecting to them
- *
- * When filtering edges (e.g., FK-only mode), some nodes may become orphaned.
- * This function removes nodes that aren't connected by any of the provided edges.
- *
- * @param nodes - All nodes
- * @param edges - Filtered edges
- * @returns Nodes that are connected by at least one edge
- */
-function removeOrphanedNodes(nodes: GraphNode[], edges: GraphEdge[]): GraphNode[] {
-  // Build set of node IDs that are connected by edges
-  const connectedNodeIds = new Set<string>();
-
-  for (const edge of edges) {
-    connectedNodeIds.add(edge.source);
-    connectedNodeIds.add(edge.target);
-  }
-
-  // Keep root nodes (depth 0) even if they have no edges
-  // This ensures the graph always has starting points
-  return nodes.filter(
-    (node) => node.data.isRoot || connectedNodeIds.has(node.id)
-  );
-}
+// Target (incoming) and source (outgoing) handle sides per layout direction
+const HANDLE_POSITIONS: Record<LayoutDirection, [Position, Position]> = {
+  TB: [Position.Top, Position.Bottom],
+  BT: [Position.Bottom, Position.Top],
+  LR: [Position.Left, Position.Right],
+  RL: [Position.Right, Position.Left],
+};
 
 interface GraphCanvasProps {
+  // Visible graph, already filtered and laid out by the build pipeline
   nodes: GraphNode[];
   edges: GraphEdge[];
-  maxDepth: number;
+  // Progress of the running build (null when idle) and how to cancel it
+  buildProgress: GraphBuildProgress | null;
+  onCancelBuild: () => void;
   // Control panel props
   depth: number;
   onDepthChange: (depth: number) => void;
@@ -70,12 +65,51 @@ interface GraphCanvasProps {
   // FK filtering - show only FK edges
   showFKOnly: boolean;
   onToggleFKOnly: (enabled: boolean) => void;
+  // Schema kinds - show interface/union/enum nodes and their relations
+  showTypeKinds: boolean;
+  onToggleTypeKinds: (enabled: boolean) => void;
+  // Field-level nodes - field ports and scalar field lists
+  showFieldNodes: boolean;
+  onToggleFieldNodes: (enabled: boolean) => void;
+  includeScalars: boolean;
+  onToggleIncludeScalars: (enabled: boolean) => void;
+  graphMode: GraphMode;
+  onGraphModeChange: (mode: GraphMode) => void;
+  // Layout algorithm, computed in the graph worker
+  layoutAlgorithm: LayoutAlgorithm;
+  onLayoutAlgorithmChange: (algorithm: LayoutAlgorithm) => void;
+  // Layout direction and spacing; handles follow the direction
+  layoutOptions: LayoutOptions;
+  onLayoutOptionsChange: (options: LayoutOptions) => void;
+  // Hand-placed positions by node id; dragging a node pins it
+  pinnedPositions: PinnedPositions;
+  onPinNodes: (positions: PinnedPositions) => void;
+  onUnpinNodes: (ids: string[]) => void;
+  onUnpinAll: () => void;
+  // Focused (selected) node, shared in deep links
+  focusedNodeId: string | null;
+  onFocusNode: (id: string | null) => void;
+  // Nodes and edges on the paths found by the path finder; the rest is dimmed
+  pathHighlight: PathHighlight | null;
+  // Types and fields of the schema diff shown, colored by change
+  diffHighlight: SchemaDiffHighlight | null;
+  // Endpoint profile selection, rendered in the drawer
+  connectionPanel?: React.ReactNode;
+  // Saved view management, rendered in the drawer
+  viewsPanel?: React.ReactNode;
+  // Path finder, rendered in the drawer
+  pathPanel?: React.ReactNode;
+  // Schema diff, rendered in the drawer
+  diffPanel?: React.ReactNode;
+  // Export actions for the current graph, rendered in the drawer
+  exportPanel?: React.ReactNode;
 }
 
 export const GraphCanvas: React.FC<GraphCanvasProps> = ({
   nodes,
   edges,
-  maxDepth,
+  buildProgress,
+  onCancelBuild,
   depth,
   onDepthChange,
   rootTypeInfos,
@@ -87,10 +121,40 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
   onRemoveFilterType,
   showFKOnly,
   onToggleFKOnly,
+  showTypeKinds,
+  onToggleTypeKinds,
+  showFieldNodes,
+  onToggleFieldNodes,
+  includeScalars,
+  onToggleIncludeScalars,
+  graphMode,
+  onGraphModeChange,
+  layoutAlgorithm,
+  onLayoutAlgorithmChange,
+  layoutOptions,
+  onLayoutOptionsChange,
+  pinnedPositions,
+  onPinNodes,
+  onUnpinNodes,
+  onUnpinAll,
+  focusedNodeId,
+  onFocusNode,
+  pathHighlight,
+  diffHighlight,
+  connectionPanel,
+  viewsPanel,
+  pathPanel,
+  diffPanel,
+  exportPanel,
 }) => {
   const [flowNodes, setFlowNodes, onNodesChange] = useNodesState([]);
   const [flowEdges, setFlowEdges, onEdgesChange] = useEdgesState([]);
   const [drawerOpen, setDrawerOpen] = useState(true);
+  const [hoveredEdge, setHoveredEdge] = useState<{
+    data: FKEdgeData;
+    x: number;
+    y: number;
+  } | null>(null);
 
   // Define custom node types
   const nodeTypes = useMemo(() => ({ custom: CustomNode }), []);
@@ -98,36 +162,150 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
   // Define custom edge types
   const edgeTypes = useMemo(() => ({ fkAware: FKAwareEdge }), []);
 
-  // Filter and layout nodes based on depth
+  // Show the built graph; handles face the layout direction and edges use the FK-aware edge type
   useEffect(() => {
-    const { filteredNodes, filteredEdges } = filterByDepth(nodes, edges, maxDepth);
-
-    // Apply FK filtering if enabled
-    const finalEdges = showFKOnly ? filterFKEdges(filteredEdges) : filteredEdges;
-
-    // Remove orphaned nodes when FK filtering is enabled
-    const finalNodes = showFKOnly
-      ? removeOrphanedNodes(filteredNodes, finalEdges)
-      : filteredNodes;
-
-    const layoutedNodes = calculateTreeLayout(finalNodes);
+    const [targetPosition, sourcePosition] = HANDLE_POSITIONS[layoutOptions.direction];
+    const orientedNodes = nodes.map((node) => ({
+      ...node,
+      targetPosition,
+      sourcePosition,
+    }));
 
-    // Convert all edges to use FK-aware edge type
-    const typedEdges = finalEdges.map((edge) => ({
+    const typedEdges = edges.map((edge) => ({
       ...edge,
       type: 'fkAware',
     }));
 
-    setFlowNodes(layoutedNodes);
+    setFlowNodes(orientedNodes);
     setFlowEdges(typedEdges);
-  }, [nodes, edges, maxDepth, showFKOnly, setFlowNodes, setFlowEdges]);
+  }, [nodes, edges, layoutOptions.direction, setFlowNodes, setFlowEdges]);
+
+  const unpinNode = useCallback((id: string) => onUnpinNodes([id]), [onUnpinNodes]);
+
+  // Mark pinned nodes in place - resetting from `nodes` would snap a node
+  // just dropped back to its old position until the rebuild arrives
+  useEffect(() => {
+    setFlowNodes((current) => current.map((node) => {
+      const pinned = node.id in pinnedPositions;
+      return node.data.pinned === pinned
+        ? node
+        : { ...node, data: { ...node.data, pinned, onUnpin: unpinNode } };
+    }));
+  }, [nodes, pinnedPositions, unpinNode, setFlowNodes]);
+
+  // Pin every node moved by the drag (a selection can move together)
+  const handleNodeDragStop = useCallback((_: React.MouseEvent, _node: Node, dragged: Node[]) => {
+    const positions: PinnedPositions = {};
+    for (const node of dragged) {
+      positions[node.id] = { x: node.position.x, y: node.position.y };
+    }
+    onPinNodes(positions);
+  }, [onPinNodes]);
+
+  // Node last focused by a click on the canvas
+  const clickedFocus = useRef<string | null>(null);
+
+  // Select the focused node when the focus comes from outside (link, back/forward);
+  // a clicked focus keeps the rest of a multi-selection (Ctrl/Cmd-click)
+  useEffect(() => {
+    const clicked = focusedNodeId !== null && focusedNodeId === clickedFocus.current;
+    setFlowNodes((current) => current.map((node) => {
+      const selected = node.id === focusedNodeId || (clicked && !!node.selected);
+      return !!node.selected === selected ? node : { ...node, selected };
+    }));
+  }, [nodes, focusedNodeId, setFlowNodes]);
+
+  // Mark path finder results in place, like the pins
+  useEffect(() => {
+    const getPathState = (onPath: boolean) => (pathHighlight ? (onPath ? 'highlighted' : 'dimmed') : undefined);
+
+    setFlowNodes((current) => current.map((node) => {
+      const pathState = getPathState(pathHighlight?.nodeIds.has(node.id) ?? false);
+      return node.data.pathState === pathState ? node : { ...node, data: { ...node.data, pathState } };
+    }));
+    setFlowEdges((current) => current.map((edge) => {
+      const pathState = getPathState(pathHighlight?.edgeIds.has(edge.id) ?? false);
+      return edge.data?.pathState === pathState
+        ? edge
+        : { ...edge, data: { ...edge.data, pathState }, zIndex: pathState === 'highlighted' ? 1 : undefined };
+    }));
+  }, [nodes, edges, pathHighlight, setFlowNodes, setFlowEdges]);
+
+  // Mark schema diff changes in place; edges take the state of their source field
+  useEffect(() => {
+    const typenameById = new Map(nodes.map((node) => [node.id, node.data.typename]));
+
+    setFlowNodes((current) => current.map((node) => {
+      const diffState = diffHighlight?.types.get(node.data.typename);
+      const fieldDiffStates = diffHighlight?.fields.get(node.data.typename);
+      return node.data.diffState === diffState && node.data.fieldDiffStates === fieldDiffStates
+        ? node
+        : { ...node, data: { ...node.data, diffState, fieldDiffStates } };
+    }));
+    setFlowEdges((current) => current.map((edge) => {
+      const typename = typenameById.get(edge.source);
+      const fieldName = edge.data?.fieldName;
+      const diffState = typename && fieldName ? diffHighlight?.fields.get(typename)?.[fieldName] : undefined;
+      return edge.data?.diffState === diffState ? edge : { ...edge, data: { ...edge.data, diffState } };
+    }));
+  }, [nodes, edges, diffHighlight, setFlowNodes, setFlowEdges]);
+
+  // Center on a focus from outside; a clicked node is already in view.
+  // When a link opens with a focus, centering replaces the initial fit
+  const [flowInstance, setFlowInstance] = useState<ReactFlowInstance | null>(null);
+  const [fitOnInit] = useState(focusedNodeId === null);
+  const pendingFocus = useRef(focusedNodeId);
+
+  useEffect(() => {
+    if (focusedNodeId !== clickedFocus.current) {
+      pendingFocus.current = focusedNodeId;
+    }
+  }, [focusedNodeId]);
+
+  useEffect(() => {
+    const id = pendingFocus.current;
+    if (!flowInstance || !id || nodes.length === 0) return;
+    pendingFocus.current = null;
+
+    const node = nodes.find((n) => n.id === id);
+    if (!node) {
+      flowInstance.fitView();
+      return;
+    }
+    flowInstance.setCenter(
+      node.position.x + estimateNodeWidth(node) / 2,
+      node.position.y + estimateNodeHeight(node) / 2,
+      { zoom: Math.max(flowInstance.getZoom(), 1), duration: 400 }
+    );
+  }, [nodes, focusedNodeId, flowInstance]);
+
+  const handleNodeClick = useCallback((_: React.MouseEvent, node: Node) => {
+    clickedFocus.current = node.id;
+    onFocusNode(node.id);
+  }, [onFocusNode]);
+
+  const handlePaneClick = useCallback(() => {
+    clickedFocus.current = null;
+    onFocusNode(null);
+  }, [onFocusNode]);
+
+  const pinnedCount = useMemo(
+    () => nodes.filter((node) => node.id in pinnedPositions).length,
+    [nodes, pinnedPositions]
+  );
 
   return (
-    <>
+    // Provider scope lets drawer panels (image export) read the canvas
+    <ReactFlowProvider>
       <GraphDrawer
         open={drawerOpen}
         onToggle={() => setDrawerOpen(!drawerOpen)}
         edges={flowEdges}
+        connectionPanel={connectionPanel}
+        viewsPanel={viewsPanel}
+        pathPanel={pathPanel}
+        diffPanel={diffPanel}
+        exportPanel={exportPanel}
         controlsPanel={
           <GraphControlsPanel
             rootTypeInfos={rootTypeInfos}
@@ -141,6 +319,22 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
             onRemoveFilterType={onRemoveFilterType}
             showFKOnly={showFKOnly}
             onToggleFKOnly={onToggleFKOnly}
+            showTypeKinds={showTypeKinds}
+            onToggleTypeKinds={onToggleTypeKinds}
+            showFieldNodes={showFieldNodes}
+            onToggleFieldNodes={onToggleFieldNodes}
+            includeScalars={includeScalars}
+            onToggleIncludeScalars={onToggleIncludeScalars}
+            graphMode={graphMode}
+            onGraphModeChange={onGraphModeChange}
+            layoutAlgorithm={layoutAlgorithm}
+            onLayoutAlgorithmChange={onLayoutAlgorithmChange}
+            layoutOptions={layoutOptions}
+            onLayoutOptionsChange={onLayoutOptionsChange}
+            pinnedCount={pinnedCount}
+            totalPinnedCount={Object.keys(pinnedPositions).length}
+            onResetLayout={() => onUnpinNodes(nodes.map((node) => node.id))}
+            onUnpinAll={onUnpinAll}
           />
         }
       />
@@ -151,9 +345,17 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
           edges={flowEdges}
           onNodesChange={onNodesChange}
           onEdgesChange={onEdgesChange}
+          onNodeDragStop={handleNodeDragStop}
+          onNodeClick={handleNodeClick}
+          onPaneClick={handlePaneClick}
+          onInit={setFlowInstance}
           nodeTypes={nodeTypes}
           edgeTypes={edgeTypes}
-          fitView
+          onEdgeMouseEnter={(event, edge) =>
+            edge.data && setHoveredEdge({ data: edge.data, x: event.clientX, y: event.clientY })
+          }
+          onEdgeMouseLeave={() => setHoveredEdge(null)}
+          fitView={fitOnInit}
           attributionPosition="bottom-left"
         >
           {/* SVG marker definitions for FK-aware arrows */}
@@ -197,6 +399,32 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
               >
                 <path d="M0,0 L0,6 L9,3 z" fill="#94a3b8" />
               </marker>
+
+              {/* Purple arrow for interface implementations */}
+              <marker
+                id="arrow-purple"
+                markerWidth="10"
+                markerHeight="10"
+                refX="9"
+                refY="3"
+                orient="auto"
+                markerUnits="strokeWidth"
+              >
+                <path d="M0,0 L0,6 L9,3 z" fill="#8b5cf6" />
+              </marker>
+
+              {/* Amber arrow for union membership */}
+              <marker
+                id="arrow-amber"
+                markerWidth="10"
+                markerHeight="10"
+                refX="9"
+                refY="3"
+                orient="auto"
+                markerUnits="strokeWidth"
+              >
+                <path d="M0,0 L0,6 L9,3 z" fill="#d97706" />
+              </marker>
             </defs>
           </svg>
 
@@ -204,6 +432,28 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
           <Controls />
         </ReactFlow>
       </div>
-    </>
+
+      {/* Build status with cancel */}
+      {buildProgress && (
+        <BuildProgress progress={buildProgress} onCancel={onCancelBuild} />
+      )}
+
+      {/* Edge details on hover */}
+      {hoveredEdge && (
+        <Box
+          sx={{
+            position: 'fixed',
+            left: hoveredEdge.x + 12,
+            top: hoveredEdge.y + 12,
+            zIndex: 1500,
+            pointerEvents: 'none',
+            boxShadow: 3,
+            borderRadius: 1,
+          }}
+        >
+          <EdgeTooltip data={hoveredEdge.data} />
+        </Box>
+      )}
+    </ReactFlowProvider>
   );
 };
@@ -1,7 +1,8 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import {
   Box,
   Autocomplete,
+  Button,
   TextField,
   Slider,
   Chip,
@@ -11,6 +12,7 @@ import {
   Typography,
   FormControlLabel,
   Switch,
+  MenuItem,
 } from '@mui/material';
 import {
   Close as CloseIcon,
@@ -18,7 +20,9 @@ import {
   ExpandLess as ExpandLessIcon,
 } from '@mui/icons-material';
 import { TypeInfo } from '../../lib/graph/typeUtils';
-import { APP_ORDER } from '../../constants/defaults';
+import { APP_ORDER, MAX_DEPTH } from '../../constants/defaults';
+import { GraphMode } from '../../lib/graph/types';
+import { LayoutAlgorithm, LayoutDirection, LayoutOptions } from '../../lib/layout/types';
 
 // Nautobot app categories for UI organization
 type NautobotApp = 'DCIM' | 'IPAM' | 'CIRCUITS';
@@ -66,14 +70,108 @@ interface GraphControlsPanelProps {
   // FK filtering - show only FK edges
   showFKOnly: boolean;
   onToggleFKOnly: (enabled: boolean) => void;
+
+  // Schema kinds - show interface/union/enum nodes and their relations
+  showTypeKinds: boolean;
+  onToggleTypeKinds: (enabled: boolean) => void;
+
+  // Field-level nodes - relationship fields as ports, scalar fields as a list
+  showFieldNodes: boolean;
+  onToggleFieldNodes: (enabled: boolean) => void;
+  includeScalars: boolean;
+  onToggleIncludeScalars: (enabled: boolean) => void;
+
+  // Graph mode - merge types per depth, one node per field path, or one node per type
+  graphMode: GraphMode;
+  onGraphModeChange: (mode: GraphMode) => void;
+
+  // Layout algorithm, direction and spacing
+  layoutAlgorithm: LayoutAlgorithm;
+  onLayoutAlgorithmChange: (algorithm: LayoutAlgorithm) => void;
+  layoutOptions: LayoutOptions;
+  onLayoutOptionsChange: (options: LayoutOptions) => void;
+
+  // Pinned positions - nodes in this graph / in every graph
+  pinnedCount: number;
+  totalPinnedCount: number;
+  onResetLayout: () => void;
+  onUnpinAll: () => void;
 }
 
+const GRAPH_MODE_OPTIONS: Array<{ value: GraphMode; label: string; description: string }> = [
+  { value: 'layered', label: 'Merged by depth', description: 'One node per type at each depth' },
+  { value: 'paths', label: 'Path tree', description: 'One node per field path from the root' },
+  { value: 'schema', label: 'Schema graph', description: 'One node per type, cycles drawn as curves' },
+];
+
+const LAYOUT_OPTIONS: Array<{ value: LayoutAlgorithm; label: string; description: string }> = [
+  { value: 'layered', label: 'Layered', description: 'Rows by depth, ordered to reduce edge crossings' },
+  { value: 'force', label: 'Force-directed', description: 'Related types pulled together, unrelated ones apart' },
+  { value: 'tree', label: 'Simple rows', description: 'Rows by depth in discovery order' },
+];
+
+const DIRECTION_OPTIONS: Array<{ value: LayoutDirection; label: string }> = [
+  { value: 'TB', label: 'Top → bottom' },
+  { value: 'LR', label: 'Left → right' },
+  { value: 'RL', label: 'Right → left' },
+  { value: 'BT', label: 'Bottom → top' },
+];
+
 const APP_COLORS: Record<NautobotApp, string> = {
   DCIM: '#1976d2',
   IPAM: '#2e7d32',
   CIRCUITS: '#ed6c02',
 };
 
+/**
+ * Labelled slider that reports its value when released, so dragging
+ * doesn't start a rebuild at every step
+ */
+function SpacingSlider({
+  label,
+  value,
+  min,
+  max,
+  step,
+  onCommit,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onCommit: (value: number) => void;
+}) {
+  const [draft, setDraft] = useState(value);
+
+  // Follow outside changes (e.g., a restored view)
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  return (
+    <Box sx={{ px: 1 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 0.5 }}>
+        <Typography variant="caption" color="text.secondary" sx={{ fontWeight: 500 }}>
+          {label}
+        </Typography>
+        <Typography variant="caption" sx={{ fontWeight: 600, color: 'primary.main' }}>
+          {draft}px
+        </Typography>
+      </Box>
+      <Slider
+        value={draft}
+        onChange={(_, next) => setDraft(next as number)}
+        onChangeCommitted={(_, next) => onCommit(next as number)}
+        min={min}
+        max={max}
+        step={step}
+        size="small"
+      />
+    </Box>
+  );
+}
+
 export function GraphControlsPanel({
   rootTypeInfos,
   selectedRootTypes,
@@ -86,6 +184,22 @@ export function GraphControlsPanel({
   onRemoveFilterType,
   showFKOnly,
   onToggleFKOnly,
+  showTypeKinds,
+  onToggleTypeKinds,
+  showFieldNodes,
+  onToggleFieldNodes,
+  includeScalars,
+  onToggleIncludeScalars,
+  graphMode,
+  onGraphModeChange,
+  layoutAlgorithm,
+  onLayoutAlgorithmChange,
+  layoutOptions,
+  onLayoutOptionsChange,
+  pinnedCount,
+  totalPinnedCount,
+  onResetLayout,
+  onUnpinAll,
 }: GraphControlsPanelProps): JSX.Element {
   const [filterExpanded, setFilterExpanded] = useState(false);
 
@@ -155,6 +269,102 @@ export function GraphControlsPanel({
           sx={{ mb: 2 }}
         />
 
+        {/* Graph Mode */}
+        <TextField
+          select
+          size="small"
+          label="Graph Mode"
+          value={graphMode}
+          onChange={(e) => onGraphModeChange(e.target.value as GraphMode)}
+          helperText={GRAPH_MODE_OPTIONS.find(option => option.value === graphMode)?.description}
+          fullWidth
+          sx={{ mb: 2 }}
+        >
+          {GRAPH_MODE_OPTIONS.map(option => (
+            <MenuItem key={option.value} value={option.value}>
+              {option.label}
+            </MenuItem>
+          ))}
+        </TextField>
+
+        {/* Layout */}
+        <TextField
+          select
+          size="small"
+          label="Layout"
+          value={layoutAlgorithm}
+          onChange={(e) => onLayoutAlgorithmChange(e.target.value as LayoutAlgorithm)}
+          helperText={LAYOUT_OPTIONS.find(option => option.value === layoutAlgorithm)?.description}
+          fullWidth
+          sx={{ mb: 2 }}
+        >
+          {LAYOUT_OPTIONS.map(option => (
+            <MenuItem key={option.value} value={option.value}>
+              {option.label}
+            </MenuItem>
+          ))}
+        </TextField>
+
+        {/* Layout Direction */}
+        <TextField
+          select
+          size="small"
+          label="Direction"
+          value={layoutOptions.direction}
+          onChange={(e) => onLayoutOptionsChange({ ...layoutOptions, direction: e.target.value as LayoutDirection })}
+          fullWidth
+          sx={{ mb: 2 }}
+        >
+          {DIRECTION_OPTIONS.map(option => (
+            <MenuItem key={option.value} value={option.value}>
+              {option.label}
+            </MenuItem>
+          ))}
+        </TextField>
+
+        {/* Spacing Sliders */}
+        <SpacingSlider
+          label="Node spacing"
+          value={layoutOptions.nodeSpacing}
+          min={10}
+          max={200}
+          step={10}
+          onCommit={(nodeSpacing) => onLayoutOptionsChange({ ...layoutOptions, nodeSpacing })}
+        />
+        <SpacingSlider
+          label="Rank spacing"
+          value={layoutOptions.layerSpacing}
+          min={20}
+          max={400}
+          step={20}
+          onCommit={(layerSpacing) => onLayoutOptionsChange({ ...layoutOptions, layerSpacing })}
+        />
+
+        {/* Pinned positions - drag a node to pin it */}
+        <Box sx={{ px: 1, display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Typography variant="caption" color="text.secondary" sx={{ fontWeight: 500, flex: 1 }}>
+            {pinnedCount === 0 ? 'Drag nodes to pin them' : `${pinnedCount} pinned`}
+          </Typography>
+          <Button
+            size="small"
+            onClick={onResetLayout}
+            disabled={pinnedCount === 0}
+            sx={{ textTransform: 'none' }}
+            title="Unpin the nodes in this graph"
+          >
+            Reset layout
+          </Button>
+          <Button
+            size="small"
+            onClick={onUnpinAll}
+            disabled={totalPinnedCount === 0}
+            sx={{ textTransform: 'none' }}
+            title={`Unpin all ${totalPinnedCount} nodes, in every graph`}
+          >
+            Unpin all
+          </Button>
+        </Box>
+
         {/* Depth Slider */}
         <Box sx={{ px: 1 }}>
           <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 0.5 }}>
@@ -169,7 +379,7 @@ export function GraphControlsPanel({
             value={depth}
             onChange={(_, value) => onDepthChange(value as number)}
             min={1}
-            max={7}
+            max={MAX_DEPTH}
             step={1}
             marks
             size="small"
@@ -201,6 +411,66 @@ export function GraphControlsPanel({
             sx={{ m: 0 }}
           />
         </Box>
+
+        {/* Schema Kinds Toggle */}
+        <Box sx={{ px: 1 }}>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={showTypeKinds}
+                onChange={(e) => onToggleTypeKinds(e.target.checked)}
+                size="small"
+                color="primary"
+              />
+            }
+            label={
+              <Typography variant="caption" color="text.secondary" sx={{ fontWeight: 500 }}>
+                Show interfaces, unions &amp; enums
+              </Typography>
+            }
+            sx={{ m: 0 }}
+          />
+        </Box>
+
+        {/* Field Ports Toggle */}
+        <Box sx={{ px: 1 }}>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={showFieldNodes}
+                onChange={(e) => onToggleFieldNodes(e.target.checked)}
+                size="small"
+                color="primary"
+              />
+            }
+            label={
+              <Typography variant="caption" color="text.secondary" sx={{ fontWeight: 500 }}>
+                Connect edges to field ports
+              </Typography>
+            }
+            sx={{ m: 0 }}
+          />
+        </Box>
+
+        {/* Scalar Fields Toggle */}
+        <Box sx={{ px: 1 }}>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={includeScalars}
+                onChange={(e) => onToggleIncludeScalars(e.target.checked)}
+                size="small"
+                color="primary"
+              />
+            }
+            label={
+              <Typography variant="caption" color="text.secondary" sx={{ fontWeight: 500 }}>
+                Show scalar fields
+              </Typography>
+            }
+            sx={{ m: 0 }}
+          />
+        </Box>
       </Box>
 
       {/* Type Filter Section - Collapsible */}
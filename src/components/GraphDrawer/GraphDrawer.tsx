@@ -12,6 +12,11 @@ interface GraphDrawerProps {
   open: boolean;
   onToggle: () => void;
   controlsPanel: React.ReactNode;
+  connectionPanel?: React.ReactNode;
+  viewsPanel?: React.ReactNode;
+  pathPanel?: React.ReactNode;
+  diffPanel?: React.ReactNode;
+  exportPanel?: React.ReactNode;
   edges: GraphEdge[];
 }
 
@@ -21,6 +26,11 @@ export const GraphDrawer: React.FC<GraphDrawerProps> = ({
   open,
   onToggle,
   controlsPanel,
+  connectionPanel,
+  viewsPanel,
+  pathPanel,
+  diffPanel,
+  exportPanel,
   edges,
 }) => {
   const [aboutExpanded, setAboutExpanded] = useState(true);
@@ -255,6 +265,34 @@ export const GraphDrawer: React.FC<GraphDrawerProps> = ({
 
           <Divider sx={{ mb: 1.5 }} />
 
+          {/* Connection Section */}
+          {connectionPanel && (
+            <>
+              <Box sx={{ mb: 1.5 }}>
+                <Typography variant="body2" sx={{ fontWeight: 600, mb: 1 }}>
+                  Connection
+                </Typography>
+                {connectionPanel}
+              </Box>
+
+              <Divider sx={{ mb: 1.5 }} />
+            </>
+          )}
+
+          {/* Saved Views Section */}
+          {viewsPanel && (
+            <>
+              <Box sx={{ mb: 1.5 }}>
+                <Typography variant="body2" sx={{ fontWeight: 600, mb: 1 }}>
+                  Saved Views
+                </Typography>
+                {viewsPanel}
+              </Box>
+
+              <Divider sx={{ mb: 1.5 }} />
+            </>
+          )}
+
           {/* Controls Section */}
           <Box sx={{ mb: 1.5 }}>
             <Typography variant="body2" sx={{ fontWeight: 600, mb: 1 }}>
@@ -265,6 +303,48 @@ export const GraphDrawer: React.FC<GraphDrawerProps> = ({
 
           <Divider />
 
+          {/* Path Finder Section */}
+          {pathPanel && (
+            <>
+              <Box sx={{ my: 1.5 }}>
+                <Typography variant="body2" sx={{ fontWeight: 600, mb: 1 }}>
+                  Path Finder
+                </Typography>
+                {pathPanel}
+              </Box>
+
+              <Divider />
+            </>
+          )}
+
+          {/* Schema Diff Section */}
+          {diffPanel && (
+            <>
+              <Box sx={{ my: 1.5 }}>
+                <Typography variant="body2" sx={{ fontWeight: 600, mb: 1 }}>
+                  Schema Diff
+                </Typography>
+                {diffPanel}
+              </Box>
+
+              <Divider />
+            </>
+          )}
+
+          {/* Export Section */}
+          {exportPanel && (
+            <>
+              <Box sx={{ my: 1.5 }}>
+                <Typography variant="body2" sx={{ fontWeight: 600, mb: 1 }}>
+                  Export
+                </Typography>
+                {exportPanel}
+              </Box>
+
+              <Divider />
+            </>
+          )}
+
           {/* Legend Section - Collapsible */}
           <Box
             onClick={() => setLegendExpanded(!legendExpanded)}
@@ -0,0 +1,211 @@
+import { useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  MenuItem,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Download as DownloadIcon } from '@mui/icons-material';
+import {
+  ExportRegion,
+  GraphSnapshot,
+  exportSVGAsPDF,
+  exportSVGAsPNG,
+  renderGraphSVG,
+} from '../../lib/export/imageExport';
+import { downloadFile } from '../../lib/export/download';
+
+export type ImageFormat = 'svg' | 'png' | 'pdf';
+
+interface ImageExportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Canvas captured when the dialog was opened */
+  snapshot: GraphSnapshot | null;
+  format: ImageFormat;
+  onFormatChange: (format: ImageFormat) => void;
+  /** File name without extension */
+  fileBaseName: string;
+}
+
+const FORMAT_OPTIONS: Array<{ value: ImageFormat; label: string; description: string }> = [
+  { value: 'svg', label: 'SVG', description: 'Vector image, stays sharp at any size' },
+  { value: 'png', label: 'PNG', description: 'Bitmap at the chosen scale' },
+  { value: 'pdf', label: 'PDF', description: 'Print-friendly A4 page' },
+];
+
+const REGION_OPTIONS: Array<{ value: ExportRegion; label: string }> = [
+  { value: 'full', label: 'Full graph' },
+  { value: 'viewport', label: 'Current viewport' },
+];
+
+const SCALE_OPTIONS = [1, 2, 3, 4];
+
+/**
+ * ImageExportDialog - Exports the graph as SVG, PNG or PDF with a preview
+ */
+export function ImageExportDialog({
+  open,
+  onClose,
+  snapshot,
+  format,
+  onFormatChange,
+  fileBaseName,
+}: ImageExportDialogProps): JSX.Element {
+  const [region, setRegion] = useState<ExportRegion>('full');
+  const [scale, setScale] = useState(2);
+  const [includeLegend, setIncludeLegend] = useState(true);
+  const [includeStats, setIncludeStats] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const rendered = useMemo(
+    () => (snapshot ? renderGraphSVG(snapshot, { region, includeLegend, includeStats }) : null),
+    [snapshot, region, includeLegend, includeStats]
+  );
+
+  const previewUrl = useMemo(
+    () => (rendered ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(rendered.svg)}` : ''),
+    [rendered]
+  );
+
+  const handleDownload = async () => {
+    if (!rendered) return;
+
+    setExporting(true);
+    setError(null);
+    try {
+      if (format === 'svg') {
+        downloadFile(`${fileBaseName}.svg`, rendered.svg, 'image/svg+xml');
+      } else if (format === 'png') {
+        downloadFile(`${fileBaseName}.png`, await exportSVGAsPNG(rendered, scale));
+      } else {
+        downloadFile(`${fileBaseName}.pdf`, await exportSVGAsPDF(rendered));
+      }
+    } catch (err) {
+      console.error('[Export] Image export failed:', err);
+      setError(err instanceof Error ? err.message : 'Image export failed');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const sizeLabel = rendered
+    ? format === 'png'
+      ? `${Math.round(rendered.width * scale)} × ${Math.round(rendered.height * scale)} px`
+      : `${rendered.width} × ${rendered.height} px`
+    : '';
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Export image</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, pt: 1, mb: 1 }}>
+          <TextField
+            select
+            size="small"
+            label="Format"
+            value={format}
+            onChange={(e) => onFormatChange(e.target.value as ImageFormat)}
+            helperText={FORMAT_OPTIONS.find((option) => option.value === format)?.description}
+            sx={{ width: 200 }}
+          >
+            {FORMAT_OPTIONS.map((option) => (
+              <MenuItem key={option.value} value={option.value}>
+                {option.label}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            size="small"
+            label="Region"
+            value={region}
+            onChange={(e) => setRegion(e.target.value as ExportRegion)}
+            sx={{ width: 180 }}
+          >
+            {REGION_OPTIONS.map((option) => (
+              <MenuItem key={option.value} value={option.value}>
+                {option.label}
+              </MenuItem>
+            ))}
+          </TextField>
+          {format === 'png' && (
+            <TextField
+              select
+              size="small"
+              label="Scale"
+              value={scale}
+              onChange={(e) => setScale(Number(e.target.value))}
+              sx={{ width: 100 }}
+            >
+              {SCALE_OPTIONS.map((option) => (
+                <MenuItem key={option} value={option}>
+                  {option}×
+                </MenuItem>
+              ))}
+            </TextField>
+          )}
+        </Box>
+
+        <Box sx={{ display: 'flex', gap: 2, mb: 1 }}>
+          <FormControlLabel
+            control={<Switch size="small" checked={includeLegend} onChange={(e) => setIncludeLegend(e.target.checked)} />}
+            label={<Typography variant="body2">Edge legend</Typography>}
+          />
+          <FormControlLabel
+            control={<Switch size="small" checked={includeStats} onChange={(e) => setIncludeStats(e.target.checked)} />}
+            label={<Typography variant="body2">FK statistics</Typography>}
+          />
+        </Box>
+
+        <Box
+          sx={{
+            display: 'flex',
+            justifyContent: 'center',
+            p: 1,
+            maxHeight: '50vh',
+            overflow: 'auto',
+            bgcolor: 'grey.50',
+            border: '1px solid',
+            borderColor: 'divider',
+            borderRadius: 1,
+          }}
+        >
+          {previewUrl && (
+            <img src={previewUrl} alt="Export preview" style={{ maxWidth: '100%', maxHeight: '48vh' }} />
+          )}
+        </Box>
+        <Typography variant="caption" sx={{ color: 'text.secondary', display: 'block', mt: 0.5 }}>
+          {sizeLabel}
+        </Typography>
+
+        {error && (
+          <Alert severity="error" onClose={() => setError(null)} sx={{ mt: 1, py: 0 }}>
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+        <Button
+          variant="contained"
+          startIcon={<DownloadIcon />}
+          onClick={handleDownload}
+          disabled={!rendered || exporting}
+          disableElevation
+        >
+          {exporting ? 'Exporting…' : 'Download'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
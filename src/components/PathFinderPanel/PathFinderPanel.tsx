@@ -0,0 +1,271 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  CircularProgress,
+  FormControlLabel,
+  IconButton,
+  List,
+  ListItemButton,
+  Switch,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Route as RouteIcon,
+  SwapVert as SwapVertIcon,
+} from '@mui/icons-material';
+import { isAbortError } from '../../lib/graphql/client';
+import { TypeFetcher } from '../../lib/graph/graphqlTransformer';
+import {
+  DEFAULT_MAX_HOPS,
+  PathFinderResult,
+  RelationshipPath,
+  findShortestPaths,
+} from '../../lib/graph/pathFinder';
+import { TypeInfo, getDisplayName } from '../../lib/graph/typeUtils';
+import { EDGE_STYLES } from '../../lib/graph/graphStyles';
+import { FKLookupMap } from '../../types/fkMetadata';
+import { MAX_DEPTH } from '../../constants/defaults';
+
+interface PathFinderPanelProps {
+  /** Types offered as path endpoints and exclusions */
+  typeInfos: TypeInfo[];
+  fetchTypes: TypeFetcher;
+  fkLookup: FKLookupMap | null;
+  /** Highlights paths on the canvas (null clears the highlight) */
+  onHighlightPaths: (paths: RelationshipPath[] | null) => void;
+  /** Renders the graph from the paths' source so the paths are visible */
+  onShowPaths: (paths: RelationshipPath[]) => void;
+}
+
+// Longer paths could not be shown in the graph
+const MAX_HOPS_LIMIT = MAX_DEPTH;
+
+/**
+ * PathFinderPanel - Finds the shortest relationship paths between two types
+ * All paths found are highlighted; clicking one highlights only that path
+ */
+export function PathFinderPanel({
+  typeInfos,
+  fetchTypes,
+  fkLookup,
+  onHighlightPaths,
+  onShowPaths,
+}: PathFinderPanelProps): JSX.Element {
+  const [source, setSource] = useState<TypeInfo | null>(null);
+  const [target, setTarget] = useState<TypeInfo | null>(null);
+  const [fkOnly, setFkOnly] = useState(false);
+  const [maxHops, setMaxHops] = useState(DEFAULT_MAX_HOPS);
+  const [excluded, setExcluded] = useState<TypeInfo[]>([]);
+  const [result, setResult] = useState<PathFinderResult | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Cancel a running search on unmount
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const handleFind = async () => {
+    if (!source || !target) return;
+
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setSearching(true);
+    setError(null);
+    setResult(null);
+    setSelectedIndex(null);
+    onHighlightPaths(null);
+    try {
+      const found = await findShortestPaths(source.typename, target.typename, fetchTypes, fkLookup, {
+        fkOnly,
+        maxHops,
+        excludedTypes: excluded.map((info) => info.typename),
+        signal: controller.signal,
+      });
+      setResult(found);
+      onHighlightPaths(found.paths.length > 0 ? found.paths : null);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('[Path Finder] Search failed:', err);
+      setError(err instanceof Error ? err.message : 'Path search failed');
+    } finally {
+      if (controllerRef.current === controller) {
+        setSearching(false);
+      }
+    }
+  };
+
+  const handleSelectPath = (index: number) => {
+    if (!result) return;
+    const next = selectedIndex === index ? null : index;
+    setSelectedIndex(next);
+    onHighlightPaths(next === null ? result.paths : [result.paths[next]]);
+  };
+
+  const handleClear = () => {
+    controllerRef.current?.abort();
+    setSearching(false);
+    setResult(null);
+    setSelectedIndex(null);
+    setError(null);
+    onHighlightPaths(null);
+  };
+
+  const shownPaths = result
+    ? selectedIndex === null ? result.paths : [result.paths[selectedIndex]]
+    : [];
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+        <Box sx={{ flex: 1, display: 'flex', flexDirection: 'column', gap: 1 }}>
+          <Autocomplete
+            size="small"
+            options={typeInfos}
+            getOptionLabel={(option) => option.displayName}
+            isOptionEqualToValue={(option, value) => option.typename === value.typename}
+            value={source}
+            onChange={(_, value) => setSource(value)}
+            renderInput={(params) => <TextField {...params} label="From" size="small" />}
+          />
+          <Autocomplete
+            size="small"
+            options={typeInfos}
+            getOptionLabel={(option) => option.displayName}
+            isOptionEqualToValue={(option, value) => option.typename === value.typename}
+            value={target}
+            onChange={(_, value) => setTarget(value)}
+            renderInput={(params) => <TextField {...params} label="To" size="small" />}
+          />
+        </Box>
+        <Tooltip title="Swap">
+          <IconButton
+            size="small"
+            onClick={() => {
+              setSource(target);
+              setTarget(source);
+            }}
+          >
+            <SwapVertIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      </Box>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 1 }}>
+        <FormControlLabel
+          control={<Switch size="small" checked={fkOnly} onChange={(e) => setFkOnly(e.target.checked)} />}
+          label={<Typography variant="body2">FK edges only</Typography>}
+          sx={{ flex: 1 }}
+        />
+        <TextField
+          size="small"
+          type="number"
+          label="Max hops"
+          value={maxHops}
+          onChange={(e) => {
+            const value = Number.parseInt(e.target.value, 10);
+            if (!Number.isNaN(value)) setMaxHops(Math.min(Math.max(value, 1), MAX_HOPS_LIMIT));
+          }}
+          inputProps={{ min: 1, max: MAX_HOPS_LIMIT }}
+          sx={{ width: 100 }}
+        />
+      </Box>
+
+      <Autocomplete
+        multiple
+        size="small"
+        options={typeInfos}
+        getOptionLabel={(option) => option.displayName}
+        isOptionEqualToValue={(option, value) => option.typename === value.typename}
+        value={excluded}
+        onChange={(_, value) => setExcluded(value)}
+        renderInput={(params) => (
+          <TextField {...params} label="Avoid types" placeholder={excluded.length === 0 ? 'None' : undefined} size="small" />
+        )}
+        sx={{ mt: 1 }}
+      />
+
+      <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+        <Button
+          size="small"
+          variant="outlined"
+          startIcon={searching ? <CircularProgress size={14} /> : <RouteIcon fontSize="small" />}
+          onClick={handleFind}
+          disabled={!source || !target || source.typename === target.typename || searching}
+          sx={{ textTransform: 'none' }}
+        >
+          Find paths
+        </Button>
+        {result && result.paths.length > 0 && (
+          <Button size="small" onClick={() => onShowPaths(shownPaths)} sx={{ textTransform: 'none' }}>
+            Show in graph
+          </Button>
+        )}
+        {(result || error) && (
+          <Button size="small" onClick={handleClear} sx={{ textTransform: 'none' }}>
+            Clear
+          </Button>
+        )}
+      </Box>
+
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)} sx={{ mt: 1, py: 0 }}>
+          {error}
+        </Alert>
+      )}
+
+      {result && result.paths.length === 0 && (
+        <Alert severity="info" sx={{ mt: 1, py: 0 }}>
+          No path within {maxHops} hops ({result.typesSearched} types searched)
+        </Alert>
+      )}
+
+      {result && result.paths.length > 0 && (
+        <>
+          <Typography variant="caption" sx={{ color: 'text.secondary', display: 'block', mt: 1 }}>
+            {result.truncated ? `First ${result.paths.length}` : result.paths.length} shortest
+            {result.paths.length === 1 ? ' path' : ' paths'} · {result.hops} {result.hops === 1 ? 'hop' : 'hops'}
+            {' · '}click a path to highlight it alone
+          </Typography>
+          <List dense disablePadding sx={{ maxHeight: 240, overflow: 'auto' }}>
+            {result.paths.map((path, index) => (
+              <ListItemButton
+                key={index}
+                selected={selectedIndex === index}
+                onClick={() => handleSelectPath(index)}
+                sx={{ borderRadius: 1, px: 1, py: 0.25, flexWrap: 'wrap', gap: 0.5 }}
+              >
+                <Typography variant="caption" sx={{ fontWeight: 600 }}>
+                  {getDisplayName(path[0].source)}
+                </Typography>
+                {path.map((step, stepIndex) => (
+                  <Box key={stepIndex} component="span" sx={{ display: 'inline-flex', alignItems: 'center', gap: 0.5 }}>
+                    <Typography
+                      variant="caption"
+                      sx={{
+                        fontFamily: 'monospace',
+                        color: step.isFK ? EDGE_STYLES.forward.stroke : EDGE_STYLES.nonFK.stroke,
+                      }}
+                    >
+                      —{step.field}{step.listDepth > 0 ? '[]' : ''}→
+                    </Typography>
+                    <Typography variant="caption" sx={{ fontWeight: 600 }}>
+                      {getDisplayName(step.target)}
+                    </Typography>
+                  </Box>
+                ))}
+              </ListItemButton>
+            ))}
+          </List>
+        </>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,216 @@
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  IconButton,
+  MenuItem,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material';
+import {
+  AuthScheme,
+  EndpointProfile,
+  createProfileId,
+} from '../../lib/graphql/profiles';
+
+interface ProfilePanelProps {
+  profiles: EndpointProfile[];
+  activeProfile: EndpointProfile | null;
+  onSelectProfile: (id: string) => void;
+  onSaveProfile: (profile: EndpointProfile) => void;
+  onDeleteProfile: (id: string) => void;
+}
+
+const AUTH_SCHEME_LABELS: Record<AuthScheme, string> = {
+  token: 'Token header (Nautobot API token)',
+  bearer: 'Bearer token',
+  none: 'None (public mirror)',
+};
+
+const EMPTY_PROFILE: EndpointProfile = {
+  id: '',
+  name: '',
+  url: '',
+  authScheme: 'token',
+  apiToken: '',
+  rememberToken: false,
+};
+
+/**
+ * ProfilePanel - Selects and manages Nautobot connection profiles
+ *
+ * Switching profiles reloads type discovery and the graph against the
+ * selected endpoint; each profile keeps its own caches.
+ */
+export function ProfilePanel({
+  profiles,
+  activeProfile,
+  onSelectProfile,
+  onSaveProfile,
+  onDeleteProfile,
+}: ProfilePanelProps): JSX.Element {
+  const [editing, setEditing] = useState<EndpointProfile | null>(null);
+
+  const handleSave = () => {
+    if (!editing) return;
+    const profile = { ...editing, id: editing.id || createProfileId() };
+    onSaveProfile(profile);
+    onSelectProfile(profile.id);
+    setEditing(null);
+  };
+
+  const canSave = !!editing
+    && editing.name.trim() !== ''
+    && editing.url.trim() !== ''
+    && (editing.authScheme === 'none' || !!editing.apiToken);
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+        <TextField
+          select
+          size="small"
+          label="Endpoint"
+          value={activeProfile?.id ?? ''}
+          onChange={(e) => onSelectProfile(e.target.value)}
+          disabled={profiles.length === 0}
+          sx={{ flex: 1 }}
+        >
+          {profiles.map((profile) => (
+            <MenuItem key={profile.id} value={profile.id}>
+              {profile.name}
+            </MenuItem>
+          ))}
+        </TextField>
+
+        <Tooltip title="Add profile">
+          <IconButton size="small" onClick={() => setEditing({ ...EMPTY_PROFILE })}>
+            <AddIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+        <Tooltip title="Edit profile">
+          <span>
+            <IconButton
+              size="small"
+              disabled={!activeProfile || activeProfile.builtIn}
+              onClick={() => activeProfile && setEditing({ ...activeProfile })}
+            >
+              <EditIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title={activeProfile?.offline ? 'Unload schema file' : 'Delete profile'}>
+          <span>
+            <IconButton
+              size="small"
+              disabled={!activeProfile || (activeProfile.builtIn && !activeProfile.offline)}
+              onClick={() => activeProfile && onDeleteProfile(activeProfile.id)}
+            >
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+      </Box>
+
+      {activeProfile && (
+        <Typography
+          variant="caption"
+          sx={{ color: 'text.secondary', display: 'block', mt: 0.5, wordBreak: 'break-all' }}
+        >
+          {activeProfile.offline
+            ? 'Offline schema loaded from file - no live queries'
+            : `${activeProfile.url} · auth: ${activeProfile.authScheme}`}
+        </Typography>
+      )}
+
+      {profiles.length === 0 && (
+        <Typography variant="caption" sx={{ color: 'text.secondary', display: 'block', mt: 0.5 }}>
+          No endpoint configured - using the bundled schema cache.
+        </Typography>
+      )}
+
+      <Dialog open={editing !== null} onClose={() => setEditing(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>{editing?.id ? 'Edit profile' : 'New profile'}</DialogTitle>
+        <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: '8px !important' }}>
+          <TextField
+            size="small"
+            label="Name"
+            placeholder="Staging"
+            value={editing?.name ?? ''}
+            onChange={(e) => editing && setEditing({ ...editing, name: e.target.value })}
+          />
+          <TextField
+            size="small"
+            label="Nautobot URL"
+            placeholder="https://nautobot.example.com"
+            value={editing?.url ?? ''}
+            onChange={(e) => editing && setEditing({ ...editing, url: e.target.value })}
+          />
+          <TextField
+            select
+            size="small"
+            label="Authentication"
+            value={editing?.authScheme ?? 'token'}
+            onChange={(e) => editing && setEditing({ ...editing, authScheme: e.target.value as AuthScheme })}
+          >
+            {(Object.keys(AUTH_SCHEME_LABELS) as AuthScheme[]).map((scheme) => (
+              <MenuItem key={scheme} value={scheme}>
+                {AUTH_SCHEME_LABELS[scheme]}
+              </MenuItem>
+            ))}
+          </TextField>
+          {editing?.authScheme !== 'none' && (
+            <TextField
+              size="small"
+              label="API token"
+              type="password"
+              value={editing?.apiToken ?? ''}
+              onChange={(e) => editing && setEditing({ ...editing, apiToken: e.target.value })}
+              helperText={
+                editing?.rememberToken
+                  ? 'Saved unencrypted in this browser\'s localStorage - anyone with access to this browser profile can read it'
+                  : 'Kept for this browser session only - re-enter it after closing the tab'
+              }
+              FormHelperTextProps={{ sx: { color: editing?.rememberToken ? 'warning.main' : undefined } }}
+            />
+          )}
+          {editing?.authScheme !== 'none' && (
+            <FormControlLabel
+              control={
+                <Checkbox
+                  size="small"
+                  checked={!!editing?.rememberToken}
+                  onChange={(e) => editing && setEditing({ ...editing, rememberToken: e.target.checked })}
+                />
+              }
+              label={
+                <Typography variant="body2">
+                  Remember token on this device
+                </Typography>
+              }
+              sx={{ mt: -1 }}
+            />
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditing(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={!canSave} disableElevation>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
@@ -0,0 +1,219 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Typography,
+} from '@mui/material';
+import { ContentCopy as ContentCopyIcon, PlayArrow as PlayArrowIcon } from '@mui/icons-material';
+import { isAbortError } from '../../lib/graphql/client';
+import { loadActiveSchemaIndex } from '../../lib/graphql/introspection';
+import { formatTypeRef } from '../../lib/graphql/typeRef';
+import { getDisplayName } from '../../lib/graph/typeUtils';
+import {
+  QuerySchema,
+  generateQuery,
+  getDefaultLeafFields,
+  getLeafFields,
+  getQueryTreeTypenames,
+} from '../../lib/query/queryGenerator';
+import { QuerySelection } from '../../hooks/useQuerySelection';
+
+interface QueryGeneratorDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Canvas selection captured when the dialog was opened */
+  selection: QuerySelection | null;
+  /** Opens the generated query in the query playground */
+  onOpenInPlayground?: (query: string, variables: Record<string, null>) => void;
+}
+
+const SOURCE_LABELS: Record<QuerySelection['source'], string> = {
+  selection: 'selected nodes',
+  subtree: 'selected node and its subtree',
+  path: 'highlighted paths',
+};
+
+const codeStyle = {
+  m: 0,
+  p: 1.5,
+  overflow: 'auto',
+  bgcolor: 'grey.50',
+  border: '1px solid',
+  borderColor: 'divider',
+  borderRadius: 1,
+  fontFamily: 'monospace',
+  fontSize: '12px',
+  lineHeight: 1.5,
+  whiteSpace: 'pre',
+} as const;
+
+/**
+ * QueryGeneratorDialog - Builds a GraphQL query from the selected part of the graph
+ * Leaf fields are ticked per type; the query updates as they change
+ */
+export function QueryGeneratorDialog({
+  open,
+  onClose,
+  selection,
+  onOpenInPlayground,
+}: QueryGeneratorDialogProps): JSX.Element {
+  const [schema, setSchema] = useState<QuerySchema | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [leafFields, setLeafFields] = useState<Record<string, string[]>>({});
+  const [copied, setCopied] = useState<'query' | 'variables' | null>(null);
+
+  // The query type and argument definitions come from the full schema, or
+  // the bundled cache when it serves the profile (memoized, so reopening is cheap)
+  useEffect(() => {
+    if (!open) return;
+
+    const controller = new AbortController();
+    loadActiveSchemaIndex(controller.signal)
+      .then((index) => setSchema({ types: index.types, queryTypeName: index.queryTypeName }))
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        console.error('[Query Generator] Failed to load schema:', error);
+        setLoadError(error instanceof Error ? error.message : 'Failed to load schema');
+      });
+    return () => controller.abort();
+  }, [open]);
+
+  const typenames = useMemo(
+    () => (selection ? getQueryTreeTypenames(selection.trees) : []),
+    [selection]
+  );
+
+  const generated = useMemo(
+    () => (schema && selection ? generateQuery(selection.trees, schema, { leafFields }) : null),
+    [schema, selection, leafFields]
+  );
+  const variablesText = generated && Object.keys(generated.variables).length > 0
+    ? JSON.stringify(generated.variables, null, 2)
+    : '';
+
+  const getSelectedLeaves = (typename: string) =>
+    leafFields[typename] ?? getDefaultLeafFields(schema?.types.get(typename));
+
+  const toggleLeaf = (typename: string, field: string) => {
+    const current = getSelectedLeaves(typename);
+    setLeafFields({
+      ...leafFields,
+      [typename]: current.includes(field) ? current.filter((name) => name !== field) : [...current, field],
+    });
+  };
+
+  const handleCopy = async (what: 'query' | 'variables') => {
+    try {
+      await navigator.clipboard.writeText(what === 'query' ? generated?.query ?? '' : variablesText);
+      setCopied(what);
+      setTimeout(() => setCopied(null), 2000);
+    } catch (error) {
+      console.error('[Query Generator] Copy to clipboard failed:', error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>GraphQL query</DialogTitle>
+      <DialogContent>
+        {selection && (
+          <Typography variant="body2" sx={{ color: 'text.secondary', mb: 1 }}>
+            From the {SOURCE_LABELS[selection.source]} ({selection.nodeCount} nodes)
+          </Typography>
+        )}
+
+        {loadError && <Alert severity="error" sx={{ mb: 1 }}>{loadError}</Alert>}
+        {!schema && !loadError && <CircularProgress size={24} />}
+
+        {schema && generated && (
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-start' }}>
+            {/* Leaf field picker */}
+            <Box sx={{ width: 280, flexShrink: 0, maxHeight: '60vh', overflow: 'auto' }}>
+              {typenames.map((typename) => {
+                const selected = getSelectedLeaves(typename);
+                return (
+                  <Box key={typename} sx={{ mb: 1 }}>
+                    <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                      {getDisplayName(typename)}
+                    </Typography>
+                    {getLeafFields(schema.types.get(typename)).map((field) => (
+                      <FormControlLabel
+                        key={field.name}
+                        control={
+                          <Checkbox
+                            size="small"
+                            checked={selected.includes(field.name)}
+                            onChange={() => toggleLeaf(typename, field.name)}
+                            sx={{ py: 0.25 }}
+                          />
+                        }
+                        label={
+                          <Typography variant="caption" sx={{ fontFamily: 'monospace' }}>
+                            {field.name}: {formatTypeRef(field.type)}
+                          </Typography>
+                        }
+                        sx={{ display: 'flex', ml: 0 }}
+                      />
+                    ))}
+                  </Box>
+                );
+              })}
+            </Box>
+
+            {/* Generated document */}
+            <Box sx={{ flex: 1, minWidth: 0 }}>
+              {generated.warnings.map((warning) => (
+                <Alert key={warning} severity="warning" sx={{ mb: 1, py: 0 }}>
+                  {warning}
+                </Alert>
+              ))}
+              <Box component="pre" sx={{ ...codeStyle, maxHeight: variablesText ? '40vh' : '60vh' }}>
+                {generated.query || '# Nothing to query'}
+              </Box>
+              {variablesText && (
+                <>
+                  <Typography variant="caption" sx={{ color: 'text.secondary', display: 'block', mt: 1 }}>
+                    Variables (required arguments)
+                  </Typography>
+                  <Box component="pre" sx={{ ...codeStyle, maxHeight: '15vh' }}>
+                    {variablesText}
+                  </Box>
+                </>
+              )}
+            </Box>
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {variablesText && (
+          <Button startIcon={<ContentCopyIcon />} onClick={() => handleCopy('variables')}>
+            {copied === 'variables' ? 'Copied' : 'Copy variables'}
+          </Button>
+        )}
+        <Button startIcon={<ContentCopyIcon />} onClick={() => handleCopy('query')} disabled={!generated?.query}>
+          {copied === 'query' ? 'Copied' : 'Copy query'}
+        </Button>
+        {onOpenInPlayground && (
+          <Button
+            startIcon={<PlayArrowIcon />}
+            onClick={() => generated && onOpenInPlayground(generated.query, generated.variables)}
+            disabled={!generated?.query}
+          >
+            Open in playground
+          </Button>
+        )}
+        <Button variant="contained" onClick={onClose} disableElevation>
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { Box } from '@mui/material';
+import {
+  ArrowDropDown as ArrowDropDownIcon,
+  ArrowRight as ArrowRightIcon,
+} from '@mui/icons-material';
+
+interface JsonTreeProps {
+  value: unknown;
+}
+
+interface JsonNodeProps {
+  name: string | null;
+  value: unknown;
+  level: number;
+}
+
+/** Levels expanded when a result is first shown */
+const EXPANDED_LEVELS = 2;
+
+const VALUE_COLORS = {
+  string: '#15803d',
+  number: '#1d4ed8',
+  boolean: '#b45309',
+  null: '#6b7280',
+};
+
+function JsonValue({ value }: { value: unknown }): JSX.Element {
+  if (value === null || value === undefined) {
+    return <Box component="span" sx={{ color: VALUE_COLORS.null }}>null</Box>;
+  }
+  if (typeof value === 'string') {
+    return <Box component="span" sx={{ color: VALUE_COLORS.string }}>{JSON.stringify(value)}</Box>;
+  }
+  if (typeof value === 'number') {
+    return <Box component="span" sx={{ color: VALUE_COLORS.number }}>{String(value)}</Box>;
+  }
+  return <Box component="span" sx={{ color: VALUE_COLORS.boolean }}>{String(value)}</Box>;
+}
+
+function JsonNode({ name, value, level }: JsonNodeProps): JSX.Element {
+  const [expanded, setExpanded] = useState(level < EXPANDED_LEVELS);
+  const isContainer = typeof value === 'object' && value !== null;
+  const label = name !== null && (
+    <Box component="span" sx={{ color: 'text.primary', fontWeight: 600 }}>{name}: </Box>
+  );
+
+  if (!isContainer) {
+    return (
+      <Box sx={{ pl: 2.5 }}>
+        {label}
+        <JsonValue value={value} />
+      </Box>
+    );
+  }
+
+  const entries: Array<[string, unknown]> = Array.isArray(value)
+    ? value.map((item, index) => [String(index), item])
+    : Object.entries(value);
+  const summary = Array.isArray(value) ? `[${entries.length}]` : `{${entries.length}}`;
+
+  return (
+    <Box>
+      <Box
+        onClick={() => setExpanded(!expanded)}
+        sx={{ display: 'flex', alignItems: 'center', cursor: 'pointer', '&:hover': { backgroundColor: 'action.hover' } }}
+      >
+        {expanded ? <ArrowDropDownIcon sx={{ fontSize: 20 }} /> : <ArrowRightIcon sx={{ fontSize: 20 }} />}
+        {label}
+        <Box component="span" sx={{ color: 'text.secondary' }}>{summary}</Box>
+      </Box>
+      {expanded && (
+        <Box sx={{ pl: 2, borderLeft: '1px solid', borderColor: 'divider', ml: 1.25 }}>
+          {entries.map(([key, child]) => (
+            <JsonNode key={key} name={key} value={child} level={level + 1} />
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+}
+
+/**
+ * JsonTree - Collapsible view of a JSON value
+ * The first levels start expanded; click an object or list to toggle it
+ */
+export function JsonTree({ value }: JsonTreeProps): JSX.Element {
+  return (
+    <Box sx={{ fontFamily: 'monospace', fontSize: '12px', lineHeight: 1.6 }}>
+      <JsonNode name={null} value={value} level={0} />
+    </Box>
+  );
+}
@@ -0,0 +1,486 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  List,
+  ListItemButton,
+  MenuItem,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { FileUpload as FileUploadIcon, PlayArrow as PlayArrowIcon } from '@mui/icons-material';
+import { executeGraphQLQuery, isAbortError } from '../../lib/graphql/client';
+import { ENV_PROFILE_ID } from '../../lib/graphql/profiles';
+import {
+  SchemaIndex,
+  SchemaSource,
+  buildSchemaIndex,
+  getSchemaCacheStatus,
+} from '../../lib/graphql/schemaLoader';
+import { loadActiveSchemaIndex } from '../../lib/graphql/introspection';
+import { SCHEMA_FILE_ACCEPT, parseSchemaFile } from '../../lib/graphql/schemaFile';
+import { findFieldByPath, parseQuery } from '../../lib/graphql/queryParser';
+import { validateQuery, validateVariables } from '../../lib/graphql/queryValidator';
+import { buildResultTables } from '../../lib/query/resultTable';
+import { useEndpointProfiles } from '../../hooks/useEndpointProfiles';
+import { JsonTree } from './JsonTree';
+
+interface QueryPlaygroundDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Query and variables to start from (e.g. from the query generator) */
+  initialQuery?: string;
+  initialVariables?: Record<string, unknown>;
+}
+
+/**
+ * An error shown against the query text
+ * Server errors may carry a response path instead of (or as well as) a location
+ */
+interface PlaygroundError {
+  message: string;
+  line?: number;
+  column?: number;
+  path?: Array<string | number>;
+}
+
+type PlaygroundResult =
+  | { kind: 'dry-run'; errors: PlaygroundError[]; schemaLabel: string }
+  | { kind: 'response'; data: unknown; errors: PlaygroundError[] };
+
+type ResultView = 'table' | 'json';
+
+/** Schema file loaded to validate against instead of the active schema */
+interface SchemaSnapshot {
+  fileName: string;
+  index: SchemaIndex;
+}
+
+// Rows rendered per table; the JSON view always has everything
+const MAX_TABLE_ROWS = 500;
+
+const SCHEMA_SOURCE_LABELS: Record<SchemaSource, string> = {
+  bundled: 'the bundled schema cache',
+  persisted: 'the cached schema',
+  network: 'the live schema',
+  file: 'the schema file',
+};
+
+const monospace = { fontFamily: 'monospace', fontSize: '12px' } as const;
+
+/**
+ * Offset of a 1-based line/column in the text
+ */
+function getOffset(text: string, line: number, column: number): number {
+  const lines = text.split('\n');
+  let offset = 0;
+  for (let i = 0; i < Math.min(line - 1, lines.length); i++) {
+    offset += lines[i].length + 1;
+  }
+  return Math.min(offset + column - 1, text.length);
+}
+
+/**
+ * Resolves server errors to query positions: the reported location, or the
+ * field their response path points at
+ */
+function mapServerErrors(
+  query: string,
+  errors: Array<{ message: string; locations?: Array<{ line: number; column: number }>; path?: Array<string | number> }>
+): PlaygroundError[] {
+  let document: ReturnType<typeof parseQuery> | null = null;
+  try {
+    document = parseQuery(query);
+  } catch {
+    // The server reported positions against text we cannot parse; keep its own
+  }
+
+  return errors.map((error) => {
+    const location = error.locations?.[0] ??
+      (document && error.path ? findFieldByPath(document, error.path) : null);
+    return { message: error.message, line: location?.line, column: location?.column, path: error.path };
+  });
+}
+
+/**
+ * QueryPlaygroundDialog - Edits and runs GraphQL queries against the active endpoint
+ * Dry-run mode validates against the loaded schema, or a schema file loaded
+ * just for validation, instead of executing (always on for offline schemas)
+ */
+export function QueryPlaygroundDialog({
+  open,
+  onClose,
+  initialQuery,
+  initialVariables,
+}: QueryPlaygroundDialogProps): JSX.Element {
+  const { activeProfile } = useEndpointProfiles();
+  const offline = !activeProfile || !!activeProfile.offline;
+
+  const [query, setQuery] = useState('');
+  const [variablesText, setVariablesText] = useState('');
+  const [dryRun, setDryRun] = useState(offline);
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<PlaygroundResult | null>(null);
+  const [requestError, setRequestError] = useState<string | null>(null);
+  const [view, setView] = useState<ResultView>('table');
+  const [tableKey, setTableKey] = useState<string | null>(null);
+  const [snapshot, setSnapshot] = useState<SchemaSnapshot | null>(null);
+  const [useSnapshot, setUseSnapshot] = useState(false);
+  const editorRef = useRef<HTMLTextAreaElement>(null);
+  const snapshotInputRef = useRef<HTMLInputElement>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Start from the handed-over query each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    if (initialQuery !== undefined) {
+      setQuery(initialQuery);
+      setVariablesText(
+        initialVariables && Object.keys(initialVariables).length > 0 ? JSON.stringify(initialVariables, null, 2) : ''
+      );
+      setResult(null);
+      setRequestError(null);
+    }
+  }, [open, initialQuery, initialVariables]);
+
+  useEffect(() => {
+    if (offline) setDryRun(true);
+  }, [offline]);
+
+  // Cancel a running query when the dialog closes
+  useEffect(() => {
+    if (!open) controllerRef.current?.abort();
+  }, [open]);
+
+  const tables = useMemo(
+    () => (result?.kind === 'response' ? buildResultTables(result.data) : []),
+    [result]
+  );
+  const table = tables.find((candidate) => candidate.key === tableKey) ?? tables[0];
+  const queryLines = query.split('\n');
+
+  const handleRun = async () => {
+    let variables: Record<string, unknown> = {};
+    if (variablesText.trim()) {
+      try {
+        variables = JSON.parse(variablesText);
+      } catch (err) {
+        setRequestError(`Variables are not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+        return;
+      }
+    }
+
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setRunning(true);
+    setRequestError(null);
+    setResult(null);
+    try {
+      if (dryRun) {
+        const index = useSnapshot && snapshot ? snapshot.index : await loadActiveSchemaIndex(controller.signal);
+        const validation = validateQuery(query, index);
+        const errors = validation.document && validation.errors.length === 0
+          ? validateVariables(validation.document, variables)
+          : validation.errors;
+        const schemaSource = getSchemaCacheStatus(activeProfile?.id ?? ENV_PROFILE_ID).source;
+        const schemaLabel = useSnapshot && snapshot
+          ? snapshot.fileName
+          : schemaSource ? SCHEMA_SOURCE_LABELS[schemaSource] : 'the loaded schema';
+        setResult({ kind: 'dry-run', errors, schemaLabel });
+      } else {
+        const response = await executeGraphQLQuery(query, variables, { signal: controller.signal });
+        setResult({ kind: 'response', data: response.data ?? null, errors: mapServerErrors(query, response.errors ?? []) });
+        setTableKey(null);
+      }
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('[Query Playground] Run failed:', err);
+      setRequestError(err instanceof Error ? err.message : 'Query failed');
+    } finally {
+      if (controllerRef.current === controller) {
+        setRunning(false);
+      }
+    }
+  };
+
+  // Parse a schema snapshot (e.g. another Nautobot version's schema-cache.json)
+  // without making it the active data source
+  const handleLoadSnapshot = async (file: File | undefined) => {
+    if (!file) return;
+
+    setRequestError(null);
+    try {
+      const { schema } = parseSchemaFile(file.name, await file.text());
+      setSnapshot({ fileName: file.name, index: buildSchemaIndex(schema) });
+      setUseSnapshot(true);
+      setResult(null);
+    } catch (err) {
+      console.error('[Query Playground] Failed to load schema snapshot:', err);
+      setRequestError(err instanceof Error ? err.message : 'Failed to load schema file');
+    }
+  };
+
+  // Select the erroneous token's line in the editor
+  const handleJumpTo = (line: number, column: number) => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    const start = getOffset(query, line, column);
+    const lineEnd = query.indexOf('\n', start);
+    editor.focus();
+    editor.setSelectionRange(start, lineEnd === -1 ? query.length : lineEnd);
+  };
+
+  const errors = result?.errors ?? [];
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xl" fullWidth>
+      <DialogTitle>Query playground</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-start' }}>
+          {/* Editor */}
+          <Box sx={{ flex: 1, minWidth: 0 }}>
+            <TextField
+              label="Query"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && (e.ctrlKey || e.metaKey) && query.trim() && !running) {
+                  e.preventDefault();
+                  handleRun();
+                }
+              }}
+              inputRef={editorRef}
+              multiline
+              minRows={14}
+              maxRows={24}
+              fullWidth
+              placeholder={'query {\n  devices {\n    name\n  }\n}'}
+              InputProps={{ sx: monospace }}
+              sx={{ mt: 1 }}
+            />
+            <TextField
+              label="Variables (JSON)"
+              value={variablesText}
+              onChange={(e) => setVariablesText(e.target.value)}
+              multiline
+              minRows={3}
+              maxRows={8}
+              fullWidth
+              placeholder="{}"
+              InputProps={{ sx: monospace }}
+              sx={{ mt: 1.5 }}
+            />
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 1 }}>
+              <Tooltip title={offline ? 'Offline schemas can only be validated' : 'Validate against the loaded schema without executing'}>
+                <FormControlLabel
+                  control={
+                    <Switch
+                      size="small"
+                      checked={dryRun}
+                      disabled={offline}
+                      onChange={(e) => setDryRun(e.target.checked)}
+                    />
+                  }
+                  label={<Typography variant="body2">Dry run</Typography>}
+                  sx={{ flex: 1 }}
+                />
+              </Tooltip>
+              <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+                Ctrl/Cmd+Enter
+              </Typography>
+              <Button
+                variant="contained"
+                size="small"
+                disableElevation
+                startIcon={running ? <CircularProgress size={14} color="inherit" /> : <PlayArrowIcon fontSize="small" />}
+                onClick={handleRun}
+                disabled={!query.trim() || running}
+                sx={{ textTransform: 'none' }}
+              >
+                {dryRun ? 'Validate' : 'Run'}
+              </Button>
+            </Box>
+            {dryRun && (
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 1.5 }}>
+                <TextField
+                  select
+                  size="small"
+                  label="Validate against"
+                  value={useSnapshot && snapshot ? 'snapshot' : 'active'}
+                  onChange={(e) => setUseSnapshot(e.target.value === 'snapshot')}
+                  sx={{ flex: 1 }}
+                >
+                  <MenuItem value="active">Active schema</MenuItem>
+                  {snapshot && <MenuItem value="snapshot">{snapshot.fileName}</MenuItem>}
+                </TextField>
+                <Button
+                  size="small"
+                  startIcon={<FileUploadIcon fontSize="small" />}
+                  onClick={() => snapshotInputRef.current?.click()}
+                  sx={{ textTransform: 'none' }}
+                >
+                  Load schema file
+                </Button>
+                <input
+                  ref={snapshotInputRef}
+                  type="file"
+                  accept={SCHEMA_FILE_ACCEPT}
+                  hidden
+                  onChange={(e) => {
+                    handleLoadSnapshot(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
+              </Box>
+            )}
+          </Box>
+
+          {/* Results */}
+          <Box sx={{ flex: 1.4, minWidth: 0, mt: 1 }}>
+            {requestError && <Alert severity="error" sx={{ mb: 1 }}>{requestError}</Alert>}
+
+            {result?.kind === 'dry-run' && errors.length === 0 && (
+              <Alert severity="success" sx={{ mb: 1 }}>
+                Valid against {result.schemaLabel} (not executed)
+              </Alert>
+            )}
+
+            {errors.length > 0 && (
+              <Alert severity="error" sx={{ mb: 1, '& .MuiAlert-message': { width: '100%' } }}>
+                {errors.length} {errors.length === 1 ? 'error' : 'errors'} · click one to select it in the query
+                <List dense disablePadding sx={{ maxHeight: 240, overflow: 'auto' }}>
+                  {errors.map((error, index) => (
+                    <ListItemButton
+                      key={index}
+                      disabled={error.line === undefined}
+                      onClick={() => error.line !== undefined && handleJumpTo(error.line, error.column ?? 1)}
+                      sx={{ display: 'block', px: 1, py: 0.5, borderRadius: 1, '&.Mui-disabled': { opacity: 1 } }}
+                    >
+                      <Typography variant="body2">{error.message}</Typography>
+                      <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+                        {error.line !== undefined && `Line ${error.line}, column ${error.column ?? 1}`}
+                        {error.line !== undefined && error.path && ' · '}
+                        {error.path && `at ${error.path.join('.')}`}
+                      </Typography>
+                      {error.line !== undefined && queryLines[error.line - 1] !== undefined && (
+                        <Box component="pre" sx={{ ...monospace, m: 0, mt: 0.5, whiteSpace: 'pre', overflow: 'hidden' }}>
+                          {queryLines[error.line - 1]}
+                          {'\n'}
+                          {' '.repeat(Math.max((error.column ?? 1) - 1, 0))}^
+                        </Box>
+                      )}
+                    </ListItemButton>
+                  ))}
+                </List>
+              </Alert>
+            )}
+
+            {result?.kind === 'response' && result.data !== null && (
+              <>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                  <ToggleButtonGroup
+                    size="small"
+                    exclusive
+                    value={view}
+                    onChange={(_, value: ResultView | null) => value && setView(value)}
+                  >
+                    <ToggleButton value="table" sx={{ textTransform: 'none', py: 0.25 }}>Table</ToggleButton>
+                    <ToggleButton value="json" sx={{ textTransform: 'none', py: 0.25 }}>JSON</ToggleButton>
+                  </ToggleButtonGroup>
+                  {view === 'table' && tables.length > 1 && (
+                    <TextField
+                      select
+                      size="small"
+                      label="Field"
+                      value={table?.key ?? ''}
+                      onChange={(e) => setTableKey(e.target.value)}
+                      sx={{ minWidth: 160 }}
+                    >
+                      {tables.map((candidate) => (
+                        <MenuItem key={candidate.key} value={candidate.key}>{candidate.key}</MenuItem>
+                      ))}
+                    </TextField>
+                  )}
+                  {view === 'table' && table && (
+                    <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+                      {table.rows.length > MAX_TABLE_ROWS
+                        ? `First ${MAX_TABLE_ROWS} of ${table.rows.length} rows`
+                        : `${table.rows.length} ${table.rows.length === 1 ? 'row' : 'rows'}`}
+                    </Typography>
+                  )}
+                </Box>
+
+                {view === 'json' && (
+                  <Box sx={{ maxHeight: '60vh', overflow: 'auto', border: '1px solid', borderColor: 'divider', borderRadius: 1, p: 1 }}>
+                    <JsonTree value={result.data} />
+                  </Box>
+                )}
+
+                {view === 'table' && table && (
+                  <TableContainer sx={{ maxHeight: '60vh', border: '1px solid', borderColor: 'divider', borderRadius: 1 }}>
+                    <Table size="small" stickyHeader>
+                      <TableHead>
+                        <TableRow>
+                          {table.columns.map((column) => (
+                            <TableCell key={column} sx={{ ...monospace, fontWeight: 600, whiteSpace: 'nowrap' }}>
+                              {column}
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {table.rows.slice(0, MAX_TABLE_ROWS).map((row, rowIndex) => (
+                          <TableRow key={rowIndex} hover>
+                            {table.columns.map((column) => (
+                              <TableCell key={column} sx={{ ...monospace, whiteSpace: 'nowrap' }}>
+                                {row[column] === null || row[column] === undefined
+                                  ? <Box component="span" sx={{ color: 'text.disabled' }}>null</Box>
+                                  : String(row[column])}
+                              </TableCell>
+                            ))}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </TableContainer>
+                )}
+              </>
+            )}
+
+            {!result && !requestError && (
+              <Typography variant="body2" sx={{ color: 'text.secondary', mt: 1 }}>
+                {dryRun
+                  ? `Validate the query against ${useSnapshot && snapshot ? snapshot.fileName : 'the loaded schema'}; nothing is sent to Nautobot.`
+                  : `Run the query against ${activeProfile?.name ?? 'the active endpoint'}.`}
+              </Typography>
+            )}
+          </Box>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button variant="contained" onClick={onClose} disableElevation>
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
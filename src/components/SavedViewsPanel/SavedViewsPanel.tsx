@@ -0,0 +1,228 @@
+import { useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  MenuItem,
+  TextField,
+  Tooltip,
+} from '@mui/material';
+import {
+  Save as SaveIcon,
+  SaveAs as SaveAsIcon,
+  Delete as DeleteIcon,
+  FileDownload as FileDownloadIcon,
+  FileUpload as FileUploadIcon,
+} from '@mui/icons-material';
+import {
+  SavedView,
+  ViewState,
+  VIEWS_FILE_ACCEPT,
+  createViewId,
+  exportViews,
+} from '../../lib/views/savedViews';
+import { downloadFile } from '../../lib/export/download';
+
+interface SavedViewsPanelProps {
+  views: SavedView[];
+  /** State captured when saving */
+  currentState: ViewState;
+  onApplyView: (view: SavedView) => void;
+  onSaveView: (view: SavedView) => void;
+  onDeleteView: (id: string) => void;
+  /** Imports an exported views file; returns the number of views imported */
+  onImportViews: (content: string) => number;
+}
+
+/**
+ * SavedViewsPanel - Saves, restores and shares named workspaces
+ *
+ * Selecting a view restores its roots, filters, layout and pinned nodes.
+ * Views export to a JSON file that teammates can import.
+ */
+export function SavedViewsPanel({
+  views,
+  currentState,
+  onApplyView,
+  onSaveView,
+  onDeleteView,
+  onImportViews,
+}: SavedViewsPanelProps): JSX.Element {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [selectedId, setSelectedId] = useState('');
+  const [naming, setNaming] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ severity: 'success' | 'error'; text: string } | null>(null);
+
+  const selectedView = views.find((view) => view.id === selectedId) ?? null;
+
+  const handleSelect = (id: string) => {
+    const view = views.find((v) => v.id === id);
+    if (!view) return;
+    setSelectedId(id);
+    onApplyView(view);
+  };
+
+  const handleSaveAs = () => {
+    if (naming === null) return;
+    const name = naming.trim();
+    // Saving under an existing name replaces that view
+    const existing = views.find((view) => view.name === name);
+    const view: SavedView = {
+      id: existing?.id ?? createViewId(),
+      name,
+      savedAt: new Date().toISOString(),
+      state: currentState,
+    };
+    onSaveView(view);
+    setSelectedId(view.id);
+    setNaming(null);
+  };
+
+  const handleUpdate = () => {
+    if (!selectedView) return;
+    onSaveView({ ...selectedView, savedAt: new Date().toISOString(), state: currentState });
+  };
+
+  const handleDelete = () => {
+    if (!selectedView) return;
+    onDeleteView(selectedView.id);
+    setSelectedId('');
+  };
+
+  const handleExport = () => {
+    // Export the selected view, or all of them when none is selected
+    const exported = selectedView ? [selectedView] : views;
+    const fileName = selectedView
+      ? `${selectedView.name.replace(/[^\w-]+/g, '-').toLowerCase()}.view.json`
+      : 'views.json';
+    downloadFile(fileName, exportViews(exported), 'application/json');
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+
+    setMessage(null);
+    try {
+      const count = onImportViews(await file.text());
+      setMessage({ severity: 'success', text: `Imported ${count} view${count === 1 ? '' : 's'} from ${file.name}` });
+    } catch (error) {
+      setMessage({
+        severity: 'error',
+        text: error instanceof Error ? error.message : 'Failed to import views',
+      });
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+        <TextField
+          select
+          size="small"
+          label="View"
+          value={selectedView ? selectedId : ''}
+          onChange={(e) => handleSelect(e.target.value)}
+          disabled={views.length === 0}
+          helperText={views.length === 0 ? 'No saved views yet' : undefined}
+          sx={{ flex: 1 }}
+        >
+          {views.map((view) => (
+            <MenuItem key={view.id} value={view.id}>
+              {view.name}
+            </MenuItem>
+          ))}
+        </TextField>
+
+        <Tooltip title="Save as new view">
+          <IconButton size="small" onClick={() => setNaming('')}>
+            <SaveAsIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+        <Tooltip title="Update view with current settings">
+          <span>
+            <IconButton size="small" disabled={!selectedView} onClick={handleUpdate}>
+              <SaveIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title="Delete view">
+          <span>
+            <IconButton size="small" disabled={!selectedView} onClick={handleDelete}>
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+      </Box>
+
+      <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+        <Button
+          size="small"
+          startIcon={<FileDownloadIcon fontSize="small" />}
+          onClick={handleExport}
+          disabled={views.length === 0}
+          sx={{ textTransform: 'none' }}
+        >
+          {selectedView ? 'Export view' : 'Export all'}
+        </Button>
+        <Button
+          size="small"
+          startIcon={<FileUploadIcon fontSize="small" />}
+          onClick={() => inputRef.current?.click()}
+          sx={{ textTransform: 'none' }}
+        >
+          Import
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={VIEWS_FILE_ACCEPT}
+          hidden
+          onChange={(e) => {
+            handleImport(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </Box>
+
+      {message && (
+        <Alert severity={message.severity} onClose={() => setMessage(null)} sx={{ mt: 1, py: 0 }}>
+          {message.text}
+        </Alert>
+      )}
+
+      <Dialog open={naming !== null} onClose={() => setNaming(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Save view</DialogTitle>
+        <DialogContent sx={{ pt: '8px !important' }}>
+          <TextField
+            autoFocus
+            fullWidth
+            size="small"
+            label="Name"
+            placeholder="IPAM"
+            value={naming ?? ''}
+            onChange={(e) => setNaming(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && naming?.trim()) handleSaveAs();
+            }}
+            helperText={
+              views.some((view) => view.name === naming?.trim())
+                ? 'Replaces the view with this name'
+                : 'Roots, depth, filters, layout and pinned nodes'
+            }
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setNaming(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSaveAs} disabled={!naming?.trim()} disableElevation>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { Alert, Box, Button, Typography } from '@mui/material';
+import { Refresh as RefreshIcon } from '@mui/icons-material';
+import { SchemaCacheStatus, SchemaSource } from '../../lib/graphql/schemaLoader';
+
+interface SchemaCachePanelProps {
+  status: SchemaCacheStatus;
+  onRefresh: () => Promise<void>;
+  /** False when there is no endpoint to re-introspect */
+  canRefresh: boolean;
+}
+
+const SOURCE_LABELS: Record<SchemaSource, string> = {
+  bundled: 'Bundled snapshot',
+  persisted: 'Cached in browser',
+  network: 'Fetched from endpoint',
+  file: 'Loaded from file',
+};
+
+/**
+ * Formats the time since a date as a short relative string
+ *
+ * @param date - Point in the past
+ * @returns e.g. "just now", "12 min ago", "3 h ago", "2 d ago"
+ */
+function formatAge(date: Date): string {
+  const minutes = Math.floor((Date.now() - date.getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return `${Math.floor(hours / 24)} d ago`;
+}
+
+/**
+ * SchemaCachePanel - Shows where the schema came from and how old it is
+ *
+ * "Refresh schema" discards the browser and bundled copies and re-introspects
+ * the endpoint, e.g. after a Nautobot upgrade.
+ */
+export function SchemaCachePanel({
+  status,
+  onRefresh,
+  canRefresh,
+}: SchemaCachePanelProps): JSX.Element {
+  const [refreshing, setRefreshing] = useState(false);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await onRefresh();
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  let description = 'Schema not loaded yet';
+  if (status.source) {
+    description = SOURCE_LABELS[status.source];
+    if (status.loadedAt) {
+      description += ` · ${formatAge(status.loadedAt)}`;
+    }
+  }
+
+  return (
+    <Box sx={{ mt: 1 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1 }}>
+        <Typography
+          variant="caption"
+          sx={{ color: 'text.secondary' }}
+          title={status.loadedAt?.toLocaleString()}
+        >
+          Schema: {description}
+        </Typography>
+        <Button
+          size="small"
+          startIcon={<RefreshIcon fontSize="small" />}
+          onClick={handleRefresh}
+          disabled={!canRefresh || refreshing}
+          sx={{ textTransform: 'none', flexShrink: 0 }}
+        >
+          Refresh schema
+        </Button>
+      </Box>
+
+      {status.stale && (
+        <Alert severity="warning" sx={{ mt: 1, py: 0 }}>
+          The endpoint's schema has changed since it was cached. Refresh to load the new types.
+        </Alert>
+      )}
+    </Box>
+  );
+}
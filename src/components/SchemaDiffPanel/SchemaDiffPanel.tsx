@@ -0,0 +1,437 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Collapse,
+  List,
+  ListItemButton,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  CompareArrows as CompareArrowsIcon,
+  ExpandLess as ExpandLessIcon,
+  ExpandMore as ExpandMoreIcon,
+  FileUpload as FileUploadIcon,
+} from '@mui/icons-material';
+import { EndpointProfile } from '../../lib/graphql/profiles';
+import { IntrospectionSchema } from '../../lib/graphql/introspection';
+import { buildSchemaIndex, fetchFullSchema } from '../../lib/graphql/schemaLoader';
+import { SCHEMA_FILE_ACCEPT, getBundledSchema, parseSchemaFile } from '../../lib/graphql/schemaFile';
+import {
+  DiffState,
+  SchemaDiff,
+  SchemaSnapshot,
+  diffSchemas,
+  formatForeignKey,
+} from '../../lib/graph/schemaDiff';
+import { DIFF_COLORS } from '../../lib/graph/graphStyles';
+import { getDisplayName } from '../../lib/graph/typeUtils';
+import { PgForeignKey } from '../../types/fkMetadata';
+import { parseForeignKeys, parseForeignKeysFromModule } from '../../utils/fkParser';
+import sqlExportData from '../../data/sql_export.json';
+
+interface SchemaDiffPanelProps {
+  /** Profiles offered as live endpoints (offline profiles are skipped) */
+  profiles: EndpointProfile[];
+  activeProfile: EndpointProfile | null;
+  /** Diff shown in the graph, or null */
+  diff: SchemaDiff | null;
+  onDiffChange: (diff: SchemaDiff | null) => void;
+  /** Renders the graph from a type of the diff */
+  onShowType: (typename: string) => void;
+}
+
+/**
+ * Where one side of the comparison comes from: the bundled cache, a file,
+ * or `live:<profileId>`
+ */
+type SchemaSourceChoice = 'bundled' | 'file' | `live:${string}`;
+
+interface DiffSide {
+  source: SchemaSourceChoice;
+  schemaFile: { name: string; schema: IntrospectionSchema } | null;
+  fkSource: 'bundled' | 'file';
+  fkFile: { name: string; foreignKeys: PgForeignKey[] } | null;
+}
+
+type StateFilter = 'all' | DiffState;
+
+// Types listed per filter; the graph shows any of them on click
+const MAX_LISTED_TYPES = 200;
+
+// Field changes listed under a type before "n more"
+const MAX_LISTED_FIELDS = 5;
+
+const DIFF_MARKS: Record<DiffState, string> = {
+  added: '+',
+  removed: '−',
+  changed: '~',
+};
+
+/**
+ * Loads the schema and FK export of one side
+ *
+ * @throws Error if a file is missing or the endpoint cannot be introspected
+ */
+async function loadSnapshot(side: DiffSide, profiles: EndpointProfile[]): Promise<SchemaSnapshot> {
+  let schema: IntrospectionSchema;
+  let label: string;
+  if (side.source === 'bundled') {
+    schema = getBundledSchema();
+    label = 'Bundled cache';
+  } else if (side.source === 'file') {
+    if (!side.schemaFile) throw new Error('Choose a schema file to compare');
+    schema = side.schemaFile.schema;
+    label = side.schemaFile.name;
+  } else {
+    const profileId = side.source.slice('live:'.length);
+    const profile = profiles.find((candidate) => candidate.id === profileId) ?? null;
+    schema = await fetchFullSchema(profile);
+    label = profile?.name ?? 'Live endpoint';
+  }
+
+  let foreignKeys: PgForeignKey[];
+  if (side.fkSource === 'file') {
+    if (!side.fkFile) throw new Error('Choose an FK export file to compare');
+    foreignKeys = side.fkFile.foreignKeys;
+    label += ` + ${side.fkFile.name}`;
+  } else {
+    foreignKeys = parseForeignKeysFromModule(sqlExportData);
+  }
+
+  return { label, types: buildSchemaIndex(schema).types, foreignKeys };
+}
+
+/**
+ * One side of the comparison: schema source and FK export, with file pickers
+ */
+function DiffSideEditor({
+  label,
+  side,
+  liveProfiles,
+  onChange,
+  onError,
+}: {
+  label: string;
+  side: DiffSide;
+  liveProfiles: EndpointProfile[];
+  onChange: (side: DiffSide) => void;
+  onError: (message: string) => void;
+}): JSX.Element {
+  const schemaInputRef = useRef<HTMLInputElement>(null);
+  const fkInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSchemaFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const { schema } = parseSchemaFile(file.name, await file.text());
+      onChange({ ...side, source: 'file', schemaFile: { name: file.name, schema } });
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to read schema file');
+    }
+  };
+
+  const handleFKFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const foreignKeys = parseForeignKeys(await file.text());
+      onChange({ ...side, fkSource: 'file', fkFile: { name: file.name, foreignKeys } });
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to read FK export');
+    }
+  };
+
+  return (
+    <Box sx={{ mb: 1 }}>
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+        <TextField
+          select
+          size="small"
+          label={label}
+          value={side.source}
+          onChange={(e) => onChange({ ...side, source: e.target.value as SchemaSourceChoice })}
+          sx={{ flex: 1 }}
+        >
+          <MenuItem value="bundled">Bundled cache</MenuItem>
+          <MenuItem value="file">{side.schemaFile ? side.schemaFile.name : 'Schema file'}</MenuItem>
+          {liveProfiles.map((profile) => (
+            <MenuItem key={profile.id} value={`live:${profile.id}`}>Live: {profile.name}</MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          select
+          size="small"
+          label="FK export"
+          value={side.fkSource}
+          onChange={(e) => onChange({ ...side, fkSource: e.target.value as DiffSide['fkSource'] })}
+          sx={{ width: 130 }}
+        >
+          <MenuItem value="bundled">Bundled</MenuItem>
+          <MenuItem value="file">{side.fkFile ? side.fkFile.name : 'File'}</MenuItem>
+        </TextField>
+      </Box>
+      {(side.source === 'file' || side.fkSource === 'file') && (
+        <Box sx={{ display: 'flex', gap: 1, mt: 0.5 }}>
+          {side.source === 'file' && (
+            <Button
+              size="small"
+              startIcon={<FileUploadIcon fontSize="small" />}
+              onClick={() => schemaInputRef.current?.click()}
+              sx={{ textTransform: 'none' }}
+            >
+              {side.schemaFile ? 'Change schema file' : 'Choose schema file'}
+            </Button>
+          )}
+          {side.fkSource === 'file' && (
+            <Button
+              size="small"
+              startIcon={<FileUploadIcon fontSize="small" />}
+              onClick={() => fkInputRef.current?.click()}
+              sx={{ textTransform: 'none' }}
+            >
+              {side.fkFile ? 'Change FK export' : 'Choose FK export'}
+            </Button>
+          )}
+        </Box>
+      )}
+      <input
+        ref={schemaInputRef}
+        type="file"
+        accept={SCHEMA_FILE_ACCEPT}
+        hidden
+        onChange={(e) => {
+          handleSchemaFile(e.target.files?.[0]);
+          e.target.value = '';
+        }}
+      />
+      <input
+        ref={fkInputRef}
+        type="file"
+        accept=".json"
+        hidden
+        onChange={(e) => {
+          handleFKFile(e.target.files?.[0]);
+          e.target.value = '';
+        }}
+      />
+    </Box>
+  );
+}
+
+/**
+ * SchemaDiffPanel - Compares two schema sources and their FK exports
+ * The graph shows the merged schema with added, removed and changed types
+ * and fields color-coded until the diff is cleared
+ */
+export function SchemaDiffPanel({
+  profiles,
+  activeProfile,
+  diff,
+  onDiffChange,
+  onShowType,
+}: SchemaDiffPanelProps): JSX.Element {
+  const liveProfiles = profiles.filter((profile) => !profile.offline);
+  const defaultLive = activeProfile && !activeProfile.offline ? activeProfile : liveProfiles[0];
+
+  const [before, setBefore] = useState<DiffSide>({
+    source: 'bundled',
+    schemaFile: null,
+    fkSource: 'bundled',
+    fkFile: null,
+  });
+  const [after, setAfter] = useState<DiffSide>({
+    source: defaultLive ? `live:${defaultLive.id}` : 'file',
+    schemaFile: null,
+    fkSource: 'bundled',
+    fkFile: null,
+  });
+  const [comparing, setComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<StateFilter>('all');
+  const [fkExpanded, setFkExpanded] = useState(false);
+  const requestRef = useRef(0);
+
+  // Ignore a comparison still running on unmount
+  useEffect(() => () => {
+    requestRef.current++;
+  }, []);
+
+  const handleCompare = async () => {
+    const request = ++requestRef.current;
+    setComparing(true);
+    setError(null);
+    try {
+      const [beforeSnapshot, afterSnapshot] = await Promise.all([
+        loadSnapshot(before, profiles),
+        loadSnapshot(after, profiles),
+      ]);
+      if (request !== requestRef.current) return;
+      const result = diffSchemas(beforeSnapshot, afterSnapshot);
+      console.log('[Schema Diff] Compared schemas:', {
+        before: result.beforeLabel,
+        after: result.afterLabel,
+        types: result.types.length,
+        foreignKeys: result.foreignKeys.length,
+      });
+      onDiffChange(result);
+    } catch (err) {
+      if (request !== requestRef.current) return;
+      console.error('[Schema Diff] Comparison failed:', err);
+      setError(err instanceof Error ? err.message : 'Comparison failed');
+    } finally {
+      if (request === requestRef.current) {
+        setComparing(false);
+      }
+    }
+  };
+
+  const counts = (diff?.types ?? []).reduce<Record<DiffState, number>>(
+    (acc, typeDiff) => ({ ...acc, [typeDiff.state]: acc[typeDiff.state] + 1 }),
+    { added: 0, removed: 0, changed: 0 }
+  );
+  const listedTypes = (diff?.types ?? []).filter((typeDiff) => filter === 'all' || typeDiff.state === filter);
+
+  return (
+    <Box>
+      <DiffSideEditor
+        label="Before"
+        side={before}
+        liveProfiles={liveProfiles}
+        onChange={setBefore}
+        onError={setError}
+      />
+      <DiffSideEditor
+        label="After"
+        side={after}
+        liveProfiles={liveProfiles}
+        onChange={setAfter}
+        onError={setError}
+      />
+
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        <Button
+          size="small"
+          variant="outlined"
+          startIcon={comparing ? <CircularProgress size={14} /> : <CompareArrowsIcon fontSize="small" />}
+          onClick={handleCompare}
+          disabled={comparing}
+          sx={{ textTransform: 'none' }}
+        >
+          Compare
+        </Button>
+        {diff && (
+          <Button size="small" onClick={() => onDiffChange(null)} sx={{ textTransform: 'none' }}>
+            Clear
+          </Button>
+        )}
+      </Box>
+
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)} sx={{ mt: 1, py: 0 }}>
+          {error}
+        </Alert>
+      )}
+
+      {diff && diff.types.length === 0 && diff.foreignKeys.length === 0 && (
+        <Alert severity="info" sx={{ mt: 1, py: 0 }}>
+          No differences between {diff.beforeLabel} and {diff.afterLabel}
+        </Alert>
+      )}
+
+      {diff && (diff.types.length > 0 || diff.foreignKeys.length > 0) && (
+        <>
+          <Typography variant="caption" sx={{ color: 'text.secondary', display: 'block', mt: 1 }}>
+            {diff.beforeLabel} → {diff.afterLabel}
+          </Typography>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 0.5 }}>
+            {(Object.keys(counts) as DiffState[]).map((state) => (
+              <Typography key={state} variant="caption" sx={{ color: DIFF_COLORS[state], fontWeight: 600 }}>
+                {DIFF_MARKS[state]}{counts[state]} {state}
+              </Typography>
+            ))}
+            <TextField
+              select
+              size="small"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value as StateFilter)}
+              sx={{ ml: 'auto', width: 110 }}
+            >
+              <MenuItem value="all">All types</MenuItem>
+              <MenuItem value="added">Added</MenuItem>
+              <MenuItem value="removed">Removed</MenuItem>
+              <MenuItem value="changed">Changed</MenuItem>
+            </TextField>
+          </Box>
+
+          <Typography variant="caption" sx={{ color: 'text.secondary', display: 'block', mt: 0.5 }}>
+            Click a type to show it in the graph
+          </Typography>
+          <List dense disablePadding sx={{ maxHeight: 320, overflow: 'auto' }}>
+            {listedTypes.slice(0, MAX_LISTED_TYPES).map((typeDiff) => (
+              <ListItemButton
+                key={typeDiff.typename}
+                onClick={() => onShowType(typeDiff.typename)}
+                sx={{ display: 'block', borderRadius: 1, px: 1, py: 0.25 }}
+              >
+                <Typography variant="caption" sx={{ fontWeight: 600, color: DIFF_COLORS[typeDiff.state] }}>
+                  {DIFF_MARKS[typeDiff.state]} {getDisplayName(typeDiff.typename)}
+                </Typography>
+                {typeDiff.fields.slice(0, MAX_LISTED_FIELDS).map((fieldDiff) => (
+                  <Typography
+                    key={fieldDiff.field}
+                    variant="caption"
+                    sx={{ display: 'block', pl: 1.5, fontFamily: 'monospace', color: DIFF_COLORS[fieldDiff.state] }}
+                  >
+                    {DIFF_MARKS[fieldDiff.state]} {fieldDiff.field}
+                    {fieldDiff.changes.length > 0 ? `: ${fieldDiff.changes.join('; ')}` : `: ${fieldDiff.type}`}
+                  </Typography>
+                ))}
+                {typeDiff.fields.length > MAX_LISTED_FIELDS && (
+                  <Typography variant="caption" sx={{ display: 'block', pl: 1.5, color: 'text.secondary' }}>
+                    {typeDiff.fields.length - MAX_LISTED_FIELDS} more fields
+                  </Typography>
+                )}
+              </ListItemButton>
+            ))}
+          </List>
+          {listedTypes.length > MAX_LISTED_TYPES && (
+            <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+              First {MAX_LISTED_TYPES} of {listedTypes.length} types
+            </Typography>
+          )}
+
+          {diff.foreignKeys.length > 0 && (
+            <>
+              <Box
+                onClick={() => setFkExpanded(!fkExpanded)}
+                sx={{ display: 'flex', alignItems: 'center', cursor: 'pointer', mt: 1 }}
+              >
+                <Typography variant="caption" sx={{ fontWeight: 600, flex: 1 }}>
+                  FK constraints ({diff.foreignKeys.length} changed)
+                </Typography>
+                {fkExpanded ? <ExpandLessIcon fontSize="small" /> : <ExpandMoreIcon fontSize="small" />}
+              </Box>
+              <Collapse in={fkExpanded}>
+                <Box sx={{ maxHeight: 240, overflow: 'auto' }}>
+                  {diff.foreignKeys.map(({ state, foreignKey }) => (
+                    <Typography
+                      key={`${state}:${formatForeignKey(foreignKey)}`}
+                      variant="caption"
+                      sx={{ display: 'block', fontFamily: 'monospace', color: DIFF_COLORS[state] }}
+                    >
+                      {DIFF_MARKS[state]} {formatForeignKey(foreignKey)}
+                    </Typography>
+                  ))}
+                </Box>
+              </Collapse>
+            </>
+          )}
+        </>
+      )}
+    </Box>
+  );
+}
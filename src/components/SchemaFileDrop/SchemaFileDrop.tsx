@@ -0,0 +1,99 @@
+import { useRef, useState } from 'react';
+import { Alert, Box, Link, Typography } from '@mui/material';
+import { UploadFile as UploadFileIcon } from '@mui/icons-material';
+import { SCHEMA_FILE_ACCEPT, SchemaFileFormat, loadSchemaFile } from '../../lib/graphql/schemaFile';
+
+const FORMAT_LABELS: Record<SchemaFileFormat, string> = {
+  introspection: 'introspection JSON',
+  sdl: 'SDL',
+  prefetch: 'schema cache',
+};
+
+/**
+ * SchemaFileDrop - Drop zone / file picker for offline schema files
+ *
+ * A loaded file becomes the "Offline" profile and replaces the endpoint as
+ * the data source for type discovery and the graph.
+ */
+export function SchemaFileDrop(): JSX.Element {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<{ severity: 'success' | 'error'; text: string } | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setLoading(true);
+    setMessage(null);
+    try {
+      const { format, typeCount } = await loadSchemaFile(file);
+      setMessage({
+        severity: 'success',
+        text: `Loaded ${typeCount} types from ${file.name} (${FORMAT_LABELS[format]})`,
+      });
+    } catch (error) {
+      setMessage({
+        severity: 'error',
+        text: error instanceof Error ? error.message : 'Failed to load schema file',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Box sx={{ mt: 1 }}>
+      <Box
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          handleFile(e.dataTransfer.files[0]);
+        }}
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 1,
+          p: 1,
+          border: '1px dashed',
+          borderColor: dragging ? 'primary.main' : 'divider',
+          borderRadius: 1,
+          bgcolor: dragging ? 'action.hover' : 'transparent',
+        }}
+      >
+        <UploadFileIcon fontSize="small" sx={{ color: 'text.secondary' }} />
+        <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+          {loading ? 'Loading schema…' : (
+            <>
+              Drop a schema file (.json, .graphql) or{' '}
+              <Link component="button" variant="caption" onClick={() => inputRef.current?.click()}>
+                browse
+              </Link>
+            </>
+          )}
+        </Typography>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={SCHEMA_FILE_ACCEPT}
+          hidden
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </Box>
+
+      {message && (
+        <Alert severity={message.severity} onClose={() => setMessage(null)} sx={{ mt: 1, py: 0 }}>
+          {message.text}
+        </Alert>
+      )}
+    </Box>
+  );
+}
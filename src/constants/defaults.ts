@@ -5,6 +5,8 @@
 // Default graph visualization settings
 export const DEFAULT_ROOT_TYPE = 'DeviceType';
 export const DEFAULT_DEPTH = 3;
+// Deepest traversal offered by the depth slider
+export const MAX_DEPTH = 7;
 
 // Initial filter types - typenames that should be pre-selected
 export const INITIAL_FILTER_TYPES = [
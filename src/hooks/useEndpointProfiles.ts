@@ -0,0 +1,69 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  EndpointProfile,
+  getProfiles,
+  getActiveProfile,
+  setActiveProfile,
+  saveProfile,
+  deleteProfile,
+  subscribeToProfiles,
+  OFFLINE_PROFILE_ID,
+} from '../lib/graphql/profiles';
+import { unloadSchemaFile } from '../lib/graphql/schemaFile';
+
+export interface UseEndpointProfilesResult {
+  /** All configured profiles, built-in env profile first */
+  profiles: EndpointProfile[];
+  /** Profile all requests currently go to (null if none configured) */
+  activeProfile: EndpointProfile | null;
+  /** Switch the active profile */
+  selectProfile: (id: string) => void;
+  /** Create or update a user-defined profile */
+  saveProfile: (profile: EndpointProfile) => void;
+  /** Delete a user-defined profile, or unload the offline schema file */
+  deleteProfile: (id: string) => void;
+}
+
+/**
+ * React hook exposing endpoint profiles and the active selection
+ * Re-renders whenever profiles change anywhere in the app
+ *
+ * @returns Profile list, active profile, and mutation functions
+ */
+export function useEndpointProfiles(): UseEndpointProfilesResult {
+  const [state, setState] = useState(() => ({
+    profiles: getProfiles(),
+    activeProfile: getActiveProfile(),
+  }));
+
+  useEffect(() => {
+    return subscribeToProfiles(() => {
+      setState({
+        profiles: getProfiles(),
+        activeProfile: getActiveProfile(),
+      });
+    });
+  }, []);
+
+  const selectProfile = useCallback((id: string) => {
+    setActiveProfile(id);
+  }, []);
+
+  const removeProfile = useCallback((id: string) => {
+    if (id === OFFLINE_PROFILE_ID) {
+      unloadSchemaFile().catch((error) => {
+        console.error('[Profiles] Failed to unload schema file:', error);
+      });
+    } else {
+      deleteProfile(id);
+    }
+  }, []);
+
+  return {
+    profiles: state.profiles,
+    activeProfile: state.activeProfile,
+    selectProfile,
+    saveProfile,
+    deleteProfile: removeProfile,
+  };
+}
@@ -0,0 +1,94 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { isAbortError } from '../lib/graphql/client';
+import { IntrospectionType } from '../lib/graphql/introspection';
+import { GraphBuildProgress, TypeFetcher } from '../lib/graph/graphqlTransformer';
+import { GraphEdge, GraphNode } from '../lib/graph/types';
+import { buildGraph } from '../lib/pipeline/pipelineClient';
+import { GraphBuildRequest } from '../lib/pipeline/types';
+
+/**
+ * The most recently built graph
+ */
+export interface BuiltGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  /** Introspection data for every type in the graph */
+  typeData: Map<string, IntrospectionType>;
+}
+
+/**
+ * State returned by the graph build hook
+ * @property graph - Last completed graph (kept while a new build runs)
+ * @property progress - Progress of the running build, null when idle
+ * @property error - Error message if the last build failed, null otherwise
+ * @property cancel - Cancels the running build, keeping the previous graph
+ */
+export interface GraphBuildState {
+  graph: BuiltGraph;
+  progress: GraphBuildProgress | null;
+  error: string | null;
+  cancel: () => void;
+}
+
+const EMPTY_GRAPH: BuiltGraph = { nodes: [], edges: [], typeData: new Map() };
+
+/**
+ * React hook that builds the visible graph in the graph worker
+ * A new request cancels the build in progress
+ *
+ * @param request - Build request, or null for an empty graph
+ * @param fetchTypes - Fetcher for types missing from the request
+ * @returns Built graph with progress and error state
+ */
+export function useGraphBuild(
+  request: GraphBuildRequest | null,
+  fetchTypes: TypeFetcher
+): GraphBuildState {
+  const [graph, setGraph] = useState<BuiltGraph>(EMPTY_GRAPH);
+  const [progress, setProgress] = useState<GraphBuildProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!request) {
+      setGraph(EMPTY_GRAPH);
+      setProgress(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setProgress({ stage: 'started' });
+    setError(null);
+
+    const onProgress = (next: GraphBuildProgress) => {
+      if (!controller.signal.aborted) setProgress(next);
+    };
+
+    buildGraph(request, { fetchTypes, onProgress, signal: controller.signal })
+      .then(({ nodes, edges, typeData }) => {
+        setGraph({ nodes, edges, typeData });
+        setProgress(null);
+      })
+      .catch((err) => {
+        if (isAbortError(err)) return;
+
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        console.error('[useGraphBuild] Graph build failed:', errorMessage);
+        setError(errorMessage);
+        setProgress(null);
+      });
+
+    // Cleanup: cancel the build if the request changes or the component unmounts
+    return () => {
+      controller.abort();
+    };
+  }, [request, fetchTypes]);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    setProgress(null);
+  }, []);
+
+  return { graph, progress, error, cancel };
+}
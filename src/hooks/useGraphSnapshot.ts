@@ -0,0 +1,70 @@
+import { useCallback } from 'react';
+import { HandleElement, Position, internalsSymbol, useStoreApi } from 'reactflow';
+import { GraphSnapshot, SnapshotHandle } from '../lib/export/imageExport';
+import { estimateNodeHeight, estimateNodeWidth } from '../lib/graph/nodeFields';
+import { GraphEdge, GraphNode } from '../lib/graph/types';
+
+/**
+ * Connection point of a handle: the middle of the node-facing side
+ */
+function toSnapshotHandle(handle: HandleElement, nodeX: number, nodeY: number): SnapshotHandle {
+  const x = nodeX + handle.x;
+  const y = nodeY + handle.y;
+
+  switch (handle.position) {
+    case Position.Left:
+      return { id: handle.id ?? null, position: handle.position, x, y: y + handle.height / 2 };
+    case Position.Right:
+      return { id: handle.id ?? null, position: handle.position, x: x + handle.width, y: y + handle.height / 2 };
+    case Position.Top:
+      return { id: handle.id ?? null, position: handle.position, x: x + handle.width / 2, y };
+    case Position.Bottom:
+      return { id: handle.id ?? null, position: handle.position, x: x + handle.width / 2, y: y + handle.height };
+  }
+}
+
+/**
+ * React hook returning a function that captures the canvas for image export
+ * Must be used inside the graph's ReactFlowProvider
+ *
+ * @returns Function returning measured nodes, handles, edges and the visible area
+ */
+export function useGraphSnapshot(): () => GraphSnapshot {
+  const store = useStoreApi();
+
+  return useCallback(() => {
+    const { nodeInternals, edges, transform, width, height } = store.getState();
+    const [translateX, translateY, zoom] = transform;
+
+    const nodes = Array.from(nodeInternals.values())
+      .filter((node) => !node.hidden)
+      .map((node) => {
+        const graphNode = node as GraphNode;
+        const x = node.positionAbsolute?.x ?? node.position.x;
+        const y = node.positionAbsolute?.y ?? node.position.y;
+        const handleBounds = node[internalsSymbol]?.handleBounds;
+
+        return {
+          id: node.id,
+          x,
+          y,
+          width: node.width ?? estimateNodeWidth(graphNode),
+          height: node.height ?? estimateNodeHeight(graphNode),
+          data: graphNode.data,
+          sourceHandles: (handleBounds?.source ?? []).map((handle) => toSnapshotHandle(handle, x, y)),
+          targetHandles: (handleBounds?.target ?? []).map((handle) => toSnapshotHandle(handle, x, y)),
+        };
+      });
+
+    return {
+      nodes,
+      edges: edges.filter((edge) => !edge.hidden) as GraphEdge[],
+      viewport: {
+        x: -translateX / zoom,
+        y: -translateY / zoom,
+        width: width / zoom,
+        height: height / zoom,
+      },
+    };
+  }, [store]);
+}
@@ -0,0 +1,52 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  PinnedPositions,
+  readPinnedPositions,
+  writePinnedPositions,
+} from '../lib/layout/pinnedPositions';
+
+export interface UsePinnedPositionsResult {
+  /** Pinned positions by node id */
+  pins: PinnedPositions;
+  /** Pin nodes at the given positions (e.g., after a drag) */
+  pinNodes: (positions: PinnedPositions) => void;
+  /** Release the given nodes back to the layout */
+  unpinNodes: (ids: string[]) => void;
+  /** Release every pinned node, in all graphs */
+  unpinAll: () => void;
+}
+
+/**
+ * React hook holding the user's pinned node positions
+ * Changes are persisted so curated diagrams survive reloads
+ *
+ * @returns Pinned positions and mutation functions
+ */
+export function usePinnedPositions(): UsePinnedPositionsResult {
+  const [pins, setPins] = useState<PinnedPositions>(readPinnedPositions);
+
+  useEffect(() => {
+    writePinnedPositions(pins);
+  }, [pins]);
+
+  const pinNodes = useCallback((positions: PinnedPositions) => {
+    setPins(prev => ({ ...prev, ...positions }));
+  }, []);
+
+  const unpinNodes = useCallback((ids: string[]) => {
+    setPins(prev => {
+      if (!ids.some(id => id in prev)) {
+        return prev;
+      }
+      const next = { ...prev };
+      ids.forEach(id => delete next[id]);
+      return next;
+    });
+  }, []);
+
+  const unpinAll = useCallback(() => {
+    setPins({});
+  }, []);
+
+  return { pins, pinNodes, unpinNodes, unpinAll };
+}
@@ -0,0 +1,55 @@
+import { useCallback } from 'react';
+import { useStoreApi } from 'reactflow';
+import { GraphEdge, GraphNode } from '../lib/graph/types';
+import { QueryTreeNode, buildQueryTrees, getSubtreeIds } from '../lib/query/queryGenerator';
+
+/**
+ * What a generated query covers
+ *
+ * - `selection`: the selected nodes (Ctrl/Cmd-click or a selection box)
+ * - `subtree`: the single selected node and everything below it
+ * - `path`: the paths highlighted by the path finder
+ */
+export type QuerySelectionSource = 'selection' | 'subtree' | 'path';
+
+export interface QuerySelection {
+  source: QuerySelectionSource;
+  trees: QueryTreeNode[];
+  nodeCount: number;
+}
+
+/**
+ * React hook returning a function that reads the canvas selection as query trees
+ * Must be used inside the graph's ReactFlowProvider
+ *
+ * @returns Function returning the selection, or null when nothing is selected
+ */
+export function useQuerySelection(): () => QuerySelection | null {
+  const store = useStoreApi();
+
+  return useCallback(() => {
+    const { nodeInternals, edges } = store.getState();
+    const flowNodes = Array.from(nodeInternals.values());
+    const nodes = flowNodes as GraphNode[];
+    const graphEdges = edges as GraphEdge[];
+
+    const selected = nodes.filter((node) => node.selected);
+    let source: QuerySelectionSource;
+    let ids: Set<string>;
+    if (selected.length > 1) {
+      source = 'selection';
+      ids = new Set(selected.map((node) => node.id));
+    } else if (selected.length === 1) {
+      source = 'subtree';
+      ids = getSubtreeIds(selected[0].id, graphEdges);
+    } else {
+      source = 'path';
+      ids = new Set(flowNodes.filter((node) => node.data?.pathState === 'highlighted').map((node) => node.id));
+    }
+
+    if (ids.size === 0) {
+      return null;
+    }
+    return { source, trees: buildQueryTrees(nodes, graphEdges, ids), nodeCount: ids.size };
+  }, [store]);
+}
@@ -0,0 +1,36 @@
+import { useState, useEffect } from 'react';
+import {
+  SavedView,
+  getSavedViews,
+  saveView,
+  deleteView,
+  importViews,
+  subscribeToSavedViews,
+} from '../lib/views/savedViews';
+
+export interface UseSavedViewsResult {
+  /** All saved views, sorted by name */
+  views: SavedView[];
+  /** Create or update a view */
+  saveView: (view: SavedView) => void;
+  /** Delete a view */
+  deleteView: (id: string) => void;
+  /** Import views from an exported file's contents; returns the count */
+  importViews: (content: string) => number;
+}
+
+/**
+ * React hook exposing saved views
+ * Re-renders whenever views change anywhere in the app
+ *
+ * @returns Saved views and mutation functions
+ */
+export function useSavedViews(): UseSavedViewsResult {
+  const [views, setViews] = useState(getSavedViews);
+
+  useEffect(() => {
+    return subscribeToSavedViews(() => setViews(getSavedViews()));
+  }, []);
+
+  return { views, saveView, deleteView, importViews };
+}
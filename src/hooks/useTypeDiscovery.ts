@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { discoverAllTypes } from '../lib/graphql/introspection';
+import { isAbortError } from '../lib/graphql/client';
 import { TypeInfo, createTypeInfoList } from '../lib/graph/typeUtils';
 
 /**
@@ -14,7 +15,15 @@ export interface TypeDiscoveryState {
   error: string | null;
 }
 
-export function useTypeDiscovery(): TypeDiscoveryState {
+/**
+ * React hook that discovers all root-capable types of the active endpoint
+ * Re-runs discovery whenever the endpoint profile or schema revision changes
+ *
+ * @param profileId - Active endpoint profile id
+ * @param schemaRevision - Schema cache revision, bumped by a manual refresh
+ * @returns Discovered types with loading and error state
+ */
+export function useTypeDiscovery(profileId?: string, schemaRevision: number = 0): TypeDiscoveryState {
   const [state, setState] = useState<TypeDiscoveryState>({
     typeInfos: [],
     loading: true,
@@ -22,17 +31,18 @@ export function useTypeDiscovery(): TypeDiscoveryState {
   });
 
   useEffect(() => {
-    let mounted = true;
+    const controller = new AbortController();
 
     async function discover() {
-      console.log('[useTypeDiscovery] Initiating type discovery');
+      console.log('[useTypeDiscovery] Initiating type discovery', { profileId, schemaRevision });
+      setState({ typeInfos: [], loading: true, error: null });
 
       try {
         const startTime = Date.now();
-        const discoveredTypes = await discoverAllTypes();
+        const discoveredTypes = await discoverAllTypes(controller.signal);
         const duration = Date.now() - startTime;
 
-        if (!mounted) return;
+        if (controller.signal.aborted) return;
 
         // Convert typenames to TypeInfo objects with displayNames
         const typeInfos = createTypeInfoList(discoveredTypes);
@@ -49,7 +59,7 @@ export function useTypeDiscovery(): TypeDiscoveryState {
           error: null,
         });
       } catch (err) {
-        if (!mounted) return;
+        if (controller.signal.aborted || isAbortError(err)) return;
 
         const errorMessage = err instanceof Error ? err.message : 'Unknown error';
         console.error('[useTypeDiscovery] Failed:', errorMessage);
@@ -65,9 +75,9 @@ export function useTypeDiscovery(): TypeDiscoveryState {
     discover();
 
     return () => {
-      mounted = false;
+      controller.abort();
     };
-  }, []);
+  }, [profileId, schemaRevision]);
 
   return state;
 }
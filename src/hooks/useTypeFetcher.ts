@@ -1,9 +1,19 @@
-import { useCallback } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { introspectType, IntrospectionType } from '../lib/graphql/introspection';
+import { ENV_PROFILE_ID } from '../lib/graphql/profiles';
+import { isAbortError } from '../lib/graphql/client';
+import {
+  SchemaCacheStatus,
+  getSchemaCacheStatus,
+  refreshSchemaCache,
+  subscribeToSchemaCache,
+} from '../lib/graphql/schemaLoader';
 
 interface TypeCache {
   types: Map<string, IntrospectionType>;
   fetchedAt: Map<string, Date>;
+  /** Schema revision the cached types belong to */
+  revision: number;
 }
 
 export interface FetchTypeResult {
@@ -13,29 +23,67 @@ export interface FetchTypeResult {
 }
 
 export interface UseTypeFetcherResult {
-  fetchType: (typename: string) => Promise<FetchTypeResult>;
-  fetchMultipleTypes: (typenames: string[]) => Promise<Map<string, IntrospectionType>>;
+  fetchType: (typename: string, signal?: AbortSignal) => Promise<FetchTypeResult>;
+  fetchMultipleTypes: (typenames: string[], signal?: AbortSignal) => Promise<Map<string, IntrospectionType>>;
   getType: (typename: string) => IntrospectionType | undefined;
-  clearCache: () => void;
+  refreshSchema: () => Promise<void>;
+  cacheStatus: SchemaCacheStatus;
   cacheSize: number;
 }
 
 /**
- * Global cache - persists across component re-renders and hook re-initializations
- * This ensures types fetched once are available throughout the app lifecycle
+ * Global caches keyed by endpoint profile id - persist across component
+ * re-renders and hook re-initializations, so types fetched once are available
+ * throughout the app lifecycle without leaking between endpoints
  */
-const globalCache: TypeCache = {
-  types: new Map(),
-  fetchedAt: new Map(),
-};
+const globalCaches = new Map<string, TypeCache>();
+
+/**
+ * Returns the cache for a profile, creating it on first use
+ * Types from an older schema revision (refresh, newly loaded file) are dropped
+ * Mutates the global caches, so it is only called from the fetch callbacks,
+ * never during render
+ *
+ * @param profileId - Endpoint profile id
+ * @param revision - Current schema revision of the profile
+ * @returns Type cache for that profile
+ */
+function getProfileCache(profileId: string, revision: number): TypeCache {
+  let cache = globalCaches.get(profileId);
+  if (cache && cache.revision > revision) {
+    // Callback from before a refresh - keep its results out of the current cache
+    return { types: new Map(), fetchedAt: new Map(), revision };
+  }
+  if (!cache) {
+    cache = { types: new Map(), fetchedAt: new Map(), revision };
+    globalCaches.set(profileId, cache);
+  } else if (cache.revision !== revision) {
+    cache.types.clear();
+    cache.fetchedAt.clear();
+    cache.revision = revision;
+  }
+  return cache;
+}
 
 /**
  * React hook for fetching and caching GraphQL types
- * Uses global cache to persist data across component lifecycles
+ * Uses a per-profile global cache to persist data across component lifecycles
  *
+ * @param profileId - Active endpoint profile id; callbacks change identity when it changes
  * @returns Type fetching functions and cache utilities
  */
-export function useTypeFetcher(): UseTypeFetcherResult {
+export function useTypeFetcher(profileId: string = ENV_PROFILE_ID): UseTypeFetcherResult {
+  const [cacheStatus, setCacheStatus] = useState(() => getSchemaCacheStatus(profileId));
+  // Read during render without touching the caches; the callbacks resolve
+  // (and reset) the cache when they run
+  const revision = getSchemaCacheStatus(profileId).revision;
+  const renderedCache = globalCaches.get(profileId);
+  const cacheSize = renderedCache?.revision === revision ? renderedCache.types.size : 0;
+
+  useEffect(() => {
+    setCacheStatus(getSchemaCacheStatus(profileId));
+    return subscribeToSchemaCache(() => setCacheStatus(getSchemaCacheStatus(profileId)));
+  }, [profileId]);
 
   /**
    * Retrieves type from cache without fetching
@@ -45,19 +93,24 @@ export function useTypeFetcher(): UseTypeFetcherResult {
    */
   const getType = useCallback(
     (typename: string): IntrospectionType | undefined => {
-      return globalCache.types.get(typename);
+      const cache = globalCaches.get(profileId);
+      return cache?.revision === revision ? cache.types.get(typename) : undefined;
     },
-    []
+    [profileId, revision]
   );
 
   /**
    * Fetches a single type, using cache if available
    *
    * @param typename - Type to fetch
+   * @param signal - Optional abort signal
    * @returns Type data, cache status, and any errors
+   * @throws AbortError if cancelled (other failures are returned as `error`)
    */
   const fetchType = useCallback(
-    async (typename: string): Promise<FetchTypeResult> => {
+    async (typename: string, signal?: AbortSignal): Promise<FetchTypeResult> => {
+      const globalCache = getProfileCache(profileId, revision);
+
       // Check global cache first
       const cachedType = globalCache.types.get(typename);
 
@@ -70,7 +123,7 @@ export function useTypeFetcher(): UseTypeFetcherResult {
 
       // Fetch from API
       try {
-        const type = await introspectType(typename);
+        const type = await introspectType(typename, signal);
 
         // Update global cache
         globalCache.types.set(typename, type);
@@ -81,6 +134,9 @@ export function useTypeFetcher(): UseTypeFetcherResult {
           fromCache: false,
         };
       } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
         const errorMessage =
           error instanceof Error ? error.message : 'Unknown error';
         console.error('Failed to fetch type:', { typename, error: errorMessage });
@@ -92,19 +148,22 @@ export function useTypeFetcher(): UseTypeFetcherResult {
         };
       }
     },
-    [] // No dependencies - stable function reference
+    [profileId, revision] // Stable per profile and schema revision
   );
 
   /**
    * Fetches multiple types in parallel
    * Uses cache for already-loaded types, fetches missing ones
+   * Concurrent lookups share one full-schema introspection request
    *
    * @param typenames - Array of type names to fetch
+   * @param signal - Optional abort signal
    * @returns Map of typename to introspection data
    */
   const fetchMultipleTypes = useCallback(
-    async (typenames: string[]): Promise<Map<string, IntrospectionType>> => {
+    async (typenames: string[], signal?: AbortSignal): Promise<Map<string, IntrospectionType>> => {
       console.log('fetchMultipleTypes called with:', typenames);
+      const globalCache = getProfileCache(profileId, revision);
 
       // Separate cached and missing types using global cache
       const cachedTypes: string[] = [];
@@ -126,7 +185,7 @@ export function useTypeFetcher(): UseTypeFetcherResult {
       });
 
       // Fetch missing types in parallel
-      const fetchPromises = missingTypes.map((typename) => fetchType(typename));
+      const fetchPromises = missingTypes.map((typename) => fetchType(typename, signal));
       const fetchResults = await Promise.all(fetchPromises);
 
       // Build result map
@@ -156,23 +215,23 @@ export function useTypeFetcher(): UseTypeFetcherResult {
 
       return resultMap;
     },
-    [fetchType] // Only depends on fetchType, which is now stable
+    [fetchType, profileId, revision] // Stable per profile and schema revision
   );
 
   /**
-   * Clears all cached types
-   * Useful for forcing a refresh
+   * Drops every cached copy of the schema (memory, IndexedDB, bundled)
+   * and re-introspects the endpoint; `cacheStatus.revision` changes once done
    */
-  const clearCache = useCallback(() => {
-    globalCache.types.clear();
-    globalCache.fetchedAt.clear();
-  }, []); // No dependencies - stable function reference
+  const refreshSchema = useCallback(async () => {
+    await refreshSchemaCache(profileId);
+  }, [profileId]);
 
   return {
     fetchType,
     fetchMultipleTypes,
     getType,
-    clearCache,
-    cacheSize: globalCache.types.size,
+    refreshSchema,
+    cacheStatus,
+    cacheSize,
   };
 }
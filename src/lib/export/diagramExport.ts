@@ -0,0 +1,427 @@
+/**
+ * Diagram Export - Prints the graph as diagram-as-code
+ *
+ * Supports Mermaid (`erDiagram` and `classDiagram`), Graphviz DOT, PlantUML
+ * class diagrams and D2. Every type in the graph becomes one entity (types
+ * repeated across depths or paths are merged) and every relationship one
+ * connection. FK metadata picks the notation: forward FKs are many-to-one,
+ * reverse FKs one-to-many, junction tables many-to-many. Plain GraphQL
+ * fields are drawn dotted, interface and union relations as inheritance.
+ */
+
+import { EDGE_STYLES, getEdgeStyleKind } from '../graph/graphStyles';
+import { GraphEdge, GraphNode, GraphNodeField, GraphNodeKind, FKEdgeData } from '../graph/types';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type DiagramFormat = 'mermaid-er' | 'mermaid-class' | 'dot' | 'plantuml' | 'd2';
+
+export interface DiagramFormatInfo {
+  label: string;
+  fileExtension: string;
+  mimeType: string;
+}
+
+export interface DiagramExportResult {
+  content: string;
+  entityCount: number;
+  relationshipCount: number;
+}
+
+/**
+ * How many rows one end of a relationship can have
+ */
+type Multiplicity = 'one' | 'zeroOrOne' | 'many';
+
+interface Entity {
+  typename: string;
+  kind: GraphNodeKind;
+  /** Fields shown in field-level mode, merged across the type's nodes */
+  fields: GraphNodeField[];
+}
+
+interface Relationship {
+  source: string;
+  target: string;
+  label: string;
+  data: FKEdgeData;
+  sourceEnd: Multiplicity;
+  targetEnd: Multiplicity;
+  /** `sourceTable.column → targetTable.column`, for FK relationships */
+  fkColumns?: string;
+}
+
+interface DiagramModel {
+  entities: Entity[];
+  relationships: Relationship[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DIAGRAM_FORMATS: Record<DiagramFormat, DiagramFormatInfo> = {
+  'mermaid-er': { label: 'Mermaid ER diagram', fileExtension: 'mmd', mimeType: 'text/plain' },
+  'mermaid-class': { label: 'Mermaid class diagram', fileExtension: 'mmd', mimeType: 'text/plain' },
+  dot: { label: 'Graphviz DOT', fileExtension: 'dot', mimeType: 'text/vnd.graphviz' },
+  plantuml: { label: 'PlantUML', fileExtension: 'puml', mimeType: 'text/plain' },
+  d2: { label: 'D2', fileExtension: 'd2', mimeType: 'text/plain' },
+};
+
+const INDENT = '  ';
+
+const RELATION_LABELS = {
+  implements: 'implements',
+  memberOf: 'member of',
+} as const;
+
+// Crow's foot ends, written from the source side (left) and the target side (right)
+const MERMAID_ER_SOURCE_ENDS: Record<Multiplicity, string> = { one: '||', zeroOrOne: '|o', many: '}o' };
+const MERMAID_ER_TARGET_ENDS: Record<Multiplicity, string> = { one: '||', zeroOrOne: 'o|', many: 'o{' };
+
+// UML multiplicities (class diagrams)
+const UML_MULTIPLICITIES: Record<Multiplicity, string> = { one: '1', zeroOrOne: '0..1', many: '*' };
+
+// Graphviz arrow shapes read from the line outwards
+const DOT_ARROWS: Record<Multiplicity, string> = { one: 'teetee', zeroOrOne: 'teeodot', many: 'crowodot' };
+
+// D2 crow's foot arrowheads
+const D2_ARROWHEADS: Record<Multiplicity, string> = { one: 'cf-one-required', zeroOrOne: 'cf-one', many: 'cf-many' };
+
+const KIND_STEREOTYPES: Partial<Record<GraphNodeKind, string>> = {
+  INTERFACE: 'interface',
+  UNION: 'union',
+  ENUM: 'enumeration',
+  INPUT_OBJECT: 'input',
+};
+
+// ============================================================================
+// Model Helpers
+// ============================================================================
+
+/**
+ * Derives both ends of a relationship from its FK metadata
+ * A forward FK is many-to-one (required when the field is non-null), a
+ * reverse FK one-to-many; plain fields are read from their GraphQL type
+ */
+function getMultiplicities(data: FKEdgeData): { sourceEnd: Multiplicity; targetEnd: Multiplicity } {
+  const required = data.fieldTypeSignature?.endsWith('!') ?? false;
+  const toOne: Multiplicity = required ? 'one' : 'zeroOrOne';
+
+  if (data.relation === 'implements' || data.relation === 'memberOf') {
+    return { sourceEnd: 'one', targetEnd: 'one' };
+  }
+
+  if (data.isFK) {
+    const cardinality = data.cardinality ?? (data.direction === 'reverse' ? 'one-to-many' : 'many-to-one');
+    if (data.isJunctionTable || cardinality === 'many-to-many') {
+      return { sourceEnd: 'many', targetEnd: 'many' };
+    }
+    return cardinality === 'one-to-many'
+      ? { sourceEnd: 'one', targetEnd: 'many' }
+      : { sourceEnd: 'many', targetEnd: toOne };
+  }
+
+  return { sourceEnd: 'many', targetEnd: (data.listDepth ?? 0) > 0 ? 'many' : toOne };
+}
+
+/**
+ * Merges the graph into one entity per type and one relationship per
+ * distinct (source type, field, target type)
+ */
+function buildDiagramModel(nodes: GraphNode[], edges: GraphEdge[]): DiagramModel {
+  const entities = new Map<string, Entity>();
+  const typenameById = new Map<string, string>();
+
+  for (const node of nodes) {
+    typenameById.set(node.id, node.data.typename);
+    let entity = entities.get(node.data.typename);
+    if (!entity) {
+      entity = { typename: node.data.typename, kind: node.data.kind ?? 'OBJECT', fields: [] };
+      entities.set(node.data.typename, entity);
+    }
+    for (const field of node.data.fields ?? []) {
+      if (!entity.fields.some((existing) => existing.name === field.name)) {
+        entity.fields.push(field);
+      }
+    }
+  }
+
+  const relationships = new Map<string, Relationship>();
+  for (const edge of edges) {
+    const source = typenameById.get(edge.source);
+    const target = typenameById.get(edge.target);
+    if (!source || !target) continue;
+
+    const data = edge.data ?? {};
+    const label = data.relation === 'implements' || data.relation === 'memberOf'
+      ? RELATION_LABELS[data.relation]
+      : data.fieldName ?? data.fkMetadata?.fieldName ?? '';
+    const key = `${source}|${data.relation ?? 'field'}|${label}|${target}`;
+    if (relationships.has(key)) continue;
+
+    const fk = data.fkMetadata;
+    relationships.set(key, {
+      source,
+      target,
+      label,
+      data,
+      ...getMultiplicities(data),
+      fkColumns: fk ? `${fk.sourceTable}.${fk.sourceColumn} → ${fk.targetTable}.${fk.targetColumn}` : undefined,
+    });
+  }
+
+  return {
+    entities: Array.from(entities.values()),
+    relationships: Array.from(relationships.values()),
+  };
+}
+
+function isInheritance(relationship: Relationship): boolean {
+  return relationship.data.relation === 'implements' || relationship.data.relation === 'memberOf';
+}
+
+function quote(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+// ============================================================================
+// Format Printers
+// ============================================================================
+
+function printMermaidER({ entities, relationships }: DiagramModel): string[] {
+  const lines = ['erDiagram'];
+
+  for (const entity of entities) {
+    if (entity.fields.length === 0) {
+      lines.push(`${INDENT}${entity.typename}`);
+      continue;
+    }
+    // Attribute types must be single words: use the named type, flag lists
+    lines.push(`${INDENT}${entity.typename} {`);
+    for (const field of entity.fields) {
+      const type = field.fieldType === 'list' ? `${field.typename}_list` : field.typename;
+      lines.push(`${INDENT}${INDENT}${type} ${field.name}${field.isPort ? ' FK' : ''}`);
+    }
+    lines.push(`${INDENT}}`);
+  }
+
+  for (const relationship of relationships) {
+    if (relationship.fkColumns) {
+      lines.push(`${INDENT}%% ${relationship.fkColumns}`);
+    }
+    // Identifying (solid) lines for FKs, non-identifying (dotted) otherwise
+    const line = relationship.data.isFK ? '--' : '..';
+    lines.push(
+      `${INDENT}${relationship.source} ${MERMAID_ER_SOURCE_ENDS[relationship.sourceEnd]}${line}` +
+      `${MERMAID_ER_TARGET_ENDS[relationship.targetEnd]} ${relationship.target} : ${quote(relationship.label || '-')}`
+    );
+  }
+
+  return lines;
+}
+
+function printMermaidClass({ entities, relationships }: DiagramModel): string[] {
+  const lines = ['classDiagram'];
+
+  for (const entity of entities) {
+    lines.push(`${INDENT}class ${entity.typename} {`);
+    const stereotype = KIND_STEREOTYPES[entity.kind];
+    if (stereotype) {
+      lines.push(`${INDENT}${INDENT}<<${stereotype}>>`);
+    }
+    for (const field of entity.fields) {
+      lines.push(`${INDENT}${INDENT}+${field.name} : ${field.typeSignature.replace(/[[\]]/g, (bracket) => (bracket === '[' ? 'List~' : '~'))}`);
+    }
+    lines.push(`${INDENT}}`);
+  }
+
+  for (const relationship of relationships) {
+    const { source, target, label } = relationship;
+    if (relationship.data.relation === 'implements') {
+      lines.push(`${INDENT}${source} ..|> ${target} : implements`);
+    } else if (relationship.data.relation === 'memberOf') {
+      lines.push(`${INDENT}${source} --|> ${target} : member of`);
+    } else {
+      const arrow = relationship.data.isFK ? '-->' : '..>';
+      lines.push(
+        `${INDENT}${source} "${UML_MULTIPLICITIES[relationship.sourceEnd]}" ${arrow} ` +
+        `"${UML_MULTIPLICITIES[relationship.targetEnd]}" ${target}${label ? ` : ${label}` : ''}`
+      );
+    }
+  }
+
+  return lines;
+}
+
+function printDot({ entities, relationships }: DiagramModel): string[] {
+  const escapeRecord = (text: string) => text.replace(/([{}|<>"\\])/g, '\\$1');
+  const lines = [
+    'digraph Schema {',
+    `${INDENT}rankdir=TB;`,
+    `${INDENT}node [shape=record, style="rounded,filled", fillcolor="#FFFFFF", fontname="Helvetica", fontsize=11];`,
+    `${INDENT}edge [fontname="Helvetica", fontsize=9];`,
+    '',
+  ];
+
+  for (const entity of entities) {
+    const stereotype = KIND_STEREOTYPES[entity.kind];
+    const title = stereotype ? `«${stereotype}»\\n${entity.typename}` : entity.typename;
+    const fields = entity.fields.map((field) => `${escapeRecord(field.name)}: ${escapeRecord(field.typeSignature)}\\l`);
+    const label = fields.length > 0 ? `{${title}|${fields.join('')}}` : title;
+    lines.push(`${INDENT}${entity.typename} [label="${label}"];`);
+  }
+
+  lines.push('');
+  for (const relationship of relationships) {
+    const style = EDGE_STYLES[getEdgeStyleKind(relationship.data)];
+    const attributes = [`color="${style.stroke}"`, `fontcolor="${style.stroke}"`];
+
+    if (isInheritance(relationship)) {
+      attributes.push('style=dashed', 'arrowhead=onormal');
+    } else {
+      attributes.push(
+        'dir=both',
+        `arrowtail=${DOT_ARROWS[relationship.sourceEnd]}`,
+        `arrowhead=${DOT_ARROWS[relationship.targetEnd]}`,
+        relationship.data.isFK ? 'style=solid' : 'style=dotted'
+      );
+    }
+    if (relationship.label) {
+      attributes.push(`label=${quote(relationship.label)}`);
+    }
+    if (relationship.fkColumns) {
+      attributes.push(`tooltip=${quote(relationship.fkColumns)}`);
+    }
+
+    lines.push(`${INDENT}${relationship.source} -> ${relationship.target} [${attributes.join(', ')}];`);
+  }
+
+  lines.push('}');
+  return lines;
+}
+
+function printPlantUML({ entities, relationships }: DiagramModel): string[] {
+  const keywords: Partial<Record<GraphNodeKind, string>> = {
+    INTERFACE: 'interface',
+    ENUM: 'enum',
+  };
+  const lines = ['@startuml', 'hide empty members', ''];
+
+  for (const entity of entities) {
+    const keyword = keywords[entity.kind] ?? 'class';
+    const stereotype = entity.kind === 'UNION' || entity.kind === 'INPUT_OBJECT'
+      ? ` <<${KIND_STEREOTYPES[entity.kind]}>>`
+      : '';
+    if (entity.fields.length === 0) {
+      lines.push(`${keyword} ${entity.typename}${stereotype}`);
+      continue;
+    }
+    lines.push(`${keyword} ${entity.typename}${stereotype} {`);
+    for (const field of entity.fields) {
+      lines.push(`${INDENT}+${field.name} : ${field.typeSignature}`);
+    }
+    lines.push('}');
+  }
+
+  lines.push('');
+  for (const relationship of relationships) {
+    const { source, target, label } = relationship;
+    const color = EDGE_STYLES[getEdgeStyleKind(relationship.data)].stroke;
+
+    if (relationship.data.relation === 'implements') {
+      lines.push(`${source} .[${color}].|> ${target} : implements`);
+    } else if (relationship.data.relation === 'memberOf') {
+      lines.push(`${source} -[${color}]-|> ${target} : member of`);
+    } else {
+      const arrow = relationship.data.isFK ? `-[${color}]->` : `.[${color}].>`;
+      lines.push(
+        `${source} "${UML_MULTIPLICITIES[relationship.sourceEnd]}" ${arrow} ` +
+        `"${UML_MULTIPLICITIES[relationship.targetEnd]}" ${target}${label ? ` : ${label}` : ''}`
+      );
+    }
+  }
+
+  lines.push('@enduml');
+  return lines;
+}
+
+function printD2({ entities, relationships }: DiagramModel): string[] {
+  const lines: string[] = [];
+
+  for (const entity of entities) {
+    if (entity.fields.length === 0) {
+      const stereotype = KIND_STEREOTYPES[entity.kind];
+      lines.push(stereotype ? `${entity.typename}: ${quote(`«${stereotype}» ${entity.typename}`)}` : entity.typename);
+      continue;
+    }
+    lines.push(`${entity.typename}: {`, `${INDENT}shape: sql_table`);
+    for (const field of entity.fields) {
+      const constraint = field.isPort ? ' {constraint: foreign_key}' : '';
+      lines.push(`${INDENT}${field.name}: ${quote(field.typeSignature)}${constraint}`);
+    }
+    lines.push('}');
+  }
+
+  lines.push('');
+  for (const relationship of relationships) {
+    const style = EDGE_STYLES[getEdgeStyleKind(relationship.data)];
+    const label = relationship.label ? `: ${quote(relationship.label)}` : '';
+    lines.push(`${relationship.source} -> ${relationship.target}${label} {`);
+
+    if (isInheritance(relationship)) {
+      lines.push(`${INDENT}target-arrowhead.shape: triangle`, `${INDENT}target-arrowhead.style.filled: false`);
+    } else {
+      lines.push(
+        `${INDENT}source-arrowhead.shape: ${D2_ARROWHEADS[relationship.sourceEnd]}`,
+        `${INDENT}target-arrowhead.shape: ${D2_ARROWHEADS[relationship.targetEnd]}`
+      );
+    }
+    lines.push(`${INDENT}style.stroke: ${quote(style.stroke)}`);
+    if (style.strokeDasharray !== 'none') {
+      lines.push(`${INDENT}style.stroke-dash: ${style.strokeDasharray.split(',')[0]}`);
+    }
+    if (relationship.fkColumns) {
+      lines.push(`${INDENT}tooltip: ${quote(relationship.fkColumns)}`);
+    }
+    lines.push('}');
+  }
+
+  return lines;
+}
+
+const PRINTERS: Record<DiagramFormat, (model: DiagramModel) => string[]> = {
+  'mermaid-er': printMermaidER,
+  'mermaid-class': printMermaidClass,
+  dot: printDot,
+  plantuml: printPlantUML,
+  d2: printD2,
+};
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Prints the graph in a diagram-as-code format
+ *
+ * @param nodes - Nodes of the graph (merged per type)
+ * @param edges - Edges of the graph (merged per type and field)
+ * @param format - Output format
+ * @returns Diagram source and what it contains
+ */
+export function exportGraphAsDiagram(
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  format: DiagramFormat
+): DiagramExportResult {
+  const model = buildDiagramModel(nodes, edges);
+
+  return {
+    content: `${PRINTERS[format](model).join('\n')}\n`,
+    entityCount: model.entities.length,
+    relationshipCount: model.relationships.length,
+  };
+}
@@ -0,0 +1,20 @@
+/**
+ * Triggers a browser download of in-memory content
+ *
+ * @param fileName - Suggested file name
+ * @param content - File contents
+ * @param mimeType - MIME type of the content
+ */
+export function downloadFile(fileName: string, content: string | Blob, mimeType = 'text/plain'): void {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,475 @@
+/**
+ * Graph Data Export - Writes the graph for network analysis tools
+ *
+ * - JSON Graph Format (JGF v2): our own interchange format. Node and edge
+ *   metadata carry the complete graph data, so the file can be imported
+ *   back and shown without a schema source.
+ * - GraphML: read by yEd, Gephi, networkx (`read_graphml`)
+ * - GEXF 1.3: Gephi's native format, with node positions
+ *
+ * GraphML and GEXF carry the same flat attributes: typename, depth and
+ * root flag on nodes; relation, FK flag, direction, cardinality, tables and
+ * columns on edges.
+ */
+
+import { FKEdgeData, GraphEdge, GraphNode } from '../graph/types';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type GraphDataFormat = 'jgf' | 'graphml' | 'gexf';
+
+export interface GraphDataFormatInfo {
+  label: string;
+  fileExtension: string;
+  mimeType: string;
+}
+
+/**
+ * Context of the exported graph, recorded in the file
+ */
+export interface GraphDataExportOptions {
+  rootTypes: string[];
+  depth: number;
+}
+
+export interface ImportedGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  rootTypes: string[];
+  depth: number;
+  /** When the graph was exported (ISO 8601), if recorded */
+  exportedAt?: string;
+}
+
+type AttributeType = 'string' | 'int' | 'boolean' | 'double';
+type AttributeValue = string | number | boolean | undefined;
+
+/**
+ * One flat attribute written to GraphML and GEXF
+ */
+interface Attribute<T> {
+  id: string;
+  type: AttributeType;
+  get: (item: T) => AttributeValue;
+}
+
+interface JGFNode {
+  label?: string;
+  metadata?: Partial<GraphNode['data']> & {
+    position?: { x: number; y: number };
+    type?: string;
+  };
+}
+
+interface JGFEdge {
+  source: string;
+  target: string;
+  relation?: string;
+  label?: string;
+  directed?: boolean;
+  metadata?: FKEdgeData & {
+    id?: string;
+    type?: string;
+    sourceHandle?: string | null;
+    targetHandle?: string | null;
+  };
+}
+
+interface JGFFile {
+  graph: {
+    id?: string;
+    label?: string;
+    directed?: boolean;
+    type?: string;
+    metadata?: {
+      format?: string;
+      version?: number;
+      rootTypes?: string[];
+      depth?: number;
+      exportedAt?: string;
+    };
+    nodes: Record<string, JGFNode>;
+    edges?: JGFEdge[];
+  };
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const GRAPH_DATA_FORMATS: Record<GraphDataFormat, GraphDataFormatInfo> = {
+  jgf: { label: 'JSON Graph Format', fileExtension: 'json', mimeType: 'application/json' },
+  graphml: { label: 'GraphML', fileExtension: 'graphml', mimeType: 'application/xml' },
+  gexf: { label: 'GEXF', fileExtension: 'gexf', mimeType: 'application/xml' },
+};
+
+/** File types offered when importing a graph */
+export const GRAPH_FILE_ACCEPT = '.json,application/json';
+
+const GRAPH_FILE_FORMAT = 'model-visualizer/graph';
+const GRAPH_FILE_VERSION = 1;
+
+const INDENT = '  ';
+
+const NODE_ATTRIBUTES: Attribute<GraphNode>[] = [
+  { id: 'label', type: 'string', get: (node) => node.data.label },
+  { id: 'typename', type: 'string', get: (node) => node.data.typename },
+  { id: 'depth', type: 'int', get: (node) => node.data.depth },
+  { id: 'isRoot', type: 'boolean', get: (node) => node.data.isRoot },
+  { id: 'kind', type: 'string', get: (node) => node.data.kind ?? 'OBJECT' },
+  { id: 'fieldType', type: 'string', get: (node) => node.data.fieldType },
+  { id: 'path', type: 'string', get: (node) => node.data.path?.join('.') },
+  { id: 'x', type: 'double', get: (node) => node.position.x },
+  { id: 'y', type: 'double', get: (node) => node.position.y },
+];
+
+const EDGE_ATTRIBUTES: Attribute<GraphEdge>[] = [
+  { id: 'relation', type: 'string', get: (edge) => edge.data?.relation ?? 'field' },
+  { id: 'fieldName', type: 'string', get: (edge) => edge.data?.fieldName },
+  { id: 'fieldTypeSignature', type: 'string', get: (edge) => edge.data?.fieldTypeSignature },
+  { id: 'isFK', type: 'boolean', get: (edge) => edge.data?.isFK ?? false },
+  { id: 'direction', type: 'string', get: (edge) => edge.data?.direction },
+  { id: 'cardinality', type: 'string', get: (edge) => edge.data?.cardinality },
+  { id: 'sourceTable', type: 'string', get: (edge) => edge.data?.sourceTable ?? edge.data?.fkMetadata?.sourceTable },
+  { id: 'targetTable', type: 'string', get: (edge) => edge.data?.targetTable ?? edge.data?.fkMetadata?.targetTable },
+  { id: 'sourceColumn', type: 'string', get: (edge) => edge.data?.fkMetadata?.sourceColumn },
+  { id: 'targetColumn', type: 'string', get: (edge) => edge.data?.fkMetadata?.targetColumn },
+  { id: 'isJunctionTable', type: 'boolean', get: (edge) => edge.data?.isJunctionTable },
+];
+
+// GEXF spells the integer type out
+const GEXF_TYPES: Record<AttributeType, string> = {
+  string: 'string',
+  int: 'integer',
+  boolean: 'boolean',
+  double: 'double',
+};
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Whether a value read from an imported file is a (non-array) object
+ */
+function isObject<T>(value: T): value is NonNullable<T> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function getGraphLabel(options: GraphDataExportOptions): string {
+  return `${options.rootTypes.join(', ') || 'Graph'} (depth ${options.depth})`;
+}
+
+/**
+ * Attribute values of an item, skipping absent ones
+ */
+function getAttributeValues<T>(attributes: Attribute<T>[], item: T): Array<[Attribute<T>, string]> {
+  const values: Array<[Attribute<T>, string]> = [];
+  for (const attribute of attributes) {
+    const value = attribute.get(item);
+    if (value !== undefined && value !== '') {
+      values.push([attribute, escapeXml(String(value))]);
+    }
+  }
+  return values;
+}
+
+/**
+ * Removes undefined and function values, which JSON drops or can't hold
+ */
+function toPlainData<T extends object>(data: T): T {
+  return JSON.parse(JSON.stringify(data)) as T;
+}
+
+// ============================================================================
+// Main Functions
+// ============================================================================
+
+/**
+ * Writes the graph as JSON Graph Format
+ *
+ * @param nodes - Graph nodes
+ * @param edges - Graph edges
+ * @param options - Graph context recorded in the file
+ * @returns JGF document
+ */
+export function exportGraphAsJGF(nodes: GraphNode[], edges: GraphEdge[], options: GraphDataExportOptions): string {
+  const file: JGFFile = {
+    graph: {
+      id: options.rootTypes.join(',') || 'graph',
+      label: getGraphLabel(options),
+      directed: true,
+      type: 'graphql-model-graph',
+      metadata: {
+        format: GRAPH_FILE_FORMAT,
+        version: GRAPH_FILE_VERSION,
+        rootTypes: options.rootTypes,
+        depth: options.depth,
+        exportedAt: new Date().toISOString(),
+      },
+      nodes: Object.fromEntries(nodes.map((node) => [
+        node.id,
+        {
+          label: node.data.label,
+          metadata: toPlainData({ ...node.data, position: node.position, type: node.type }),
+        },
+      ])),
+      edges: edges.map((edge) => ({
+        source: edge.source,
+        target: edge.target,
+        relation: edge.data?.relation ?? 'field',
+        label: edge.data?.fieldName,
+        directed: true,
+        metadata: toPlainData({
+          ...edge.data,
+          id: edge.id,
+          type: edge.type,
+          sourceHandle: edge.sourceHandle,
+          targetHandle: edge.targetHandle,
+        }),
+      })),
+    },
+  };
+
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Writes the graph as GraphML
+ *
+ * @param nodes - Graph nodes
+ * @param edges - Graph edges
+ * @param options - Graph context recorded in the file
+ * @returns GraphML document
+ */
+export function exportGraphAsGraphML(nodes: GraphNode[], edges: GraphEdge[], options: GraphDataExportOptions): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns"',
+    '         xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '         xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+  ];
+
+  // Keys are prefixed by domain, since nodes and edges share the id space
+  for (const attribute of NODE_ATTRIBUTES) {
+    lines.push(`${INDENT}<key id="n_${attribute.id}" for="node" attr.name="${attribute.id}" attr.type="${attribute.type}"/>`);
+  }
+  for (const attribute of EDGE_ATTRIBUTES) {
+    lines.push(`${INDENT}<key id="e_${attribute.id}" for="edge" attr.name="${attribute.id}" attr.type="${attribute.type}"/>`);
+  }
+
+  lines.push(
+    `${INDENT}<graph id="G" edgedefault="directed">`,
+    `${INDENT}${INDENT}<desc>${escapeXml(getGraphLabel(options))}</desc>`
+  );
+
+  for (const node of nodes) {
+    lines.push(`${INDENT}${INDENT}<node id="${escapeXml(node.id)}">`);
+    for (const [attribute, value] of getAttributeValues(NODE_ATTRIBUTES, node)) {
+      lines.push(`${INDENT}${INDENT}${INDENT}<data key="n_${attribute.id}">${value}</data>`);
+    }
+    lines.push(`${INDENT}${INDENT}</node>`);
+  }
+
+  for (const edge of edges) {
+    lines.push(
+      `${INDENT}${INDENT}<edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">`
+    );
+    for (const [attribute, value] of getAttributeValues(EDGE_ATTRIBUTES, edge)) {
+      lines.push(`${INDENT}${INDENT}${INDENT}<data key="e_${attribute.id}">${value}</data>`);
+    }
+    lines.push(`${INDENT}${INDENT}</edge>`);
+  }
+
+  lines.push(`${INDENT}</graph>`, '</graphml>');
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Writes the graph as GEXF 1.3
+ *
+ * @param nodes - Graph nodes
+ * @param edges - Graph edges
+ * @param options - Graph context recorded in the file
+ * @returns GEXF document
+ */
+export function exportGraphAsGEXF(nodes: GraphNode[], edges: GraphEdge[], options: GraphDataExportOptions): string {
+  const today = new Date().toISOString().slice(0, 10);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+    `${INDENT}<meta lastmodifieddate="${today}">`,
+    `${INDENT}${INDENT}<creator>Model Visualizer</creator>`,
+    `${INDENT}${INDENT}<description>${escapeXml(getGraphLabel(options))}</description>`,
+    `${INDENT}</meta>`,
+    `${INDENT}<graph defaultedgetype="directed" mode="static">`,
+  ];
+
+  // Positions go in viz:position rather than attributes
+  const nodeAttributes = NODE_ATTRIBUTES.filter((attribute) => attribute.id !== 'x' && attribute.id !== 'y');
+  for (const [domain, attributes] of [['node', nodeAttributes], ['edge', EDGE_ATTRIBUTES]] as const) {
+    lines.push(`${INDENT}${INDENT}<attributes class="${domain}">`);
+    for (const attribute of attributes) {
+      lines.push(
+        `${INDENT}${INDENT}${INDENT}<attribute id="${attribute.id}" title="${attribute.id}" type="${GEXF_TYPES[attribute.type]}"/>`
+      );
+    }
+    lines.push(`${INDENT}${INDENT}</attributes>`);
+  }
+
+  lines.push(`${INDENT}${INDENT}<nodes>`);
+  for (const node of nodes) {
+    lines.push(`${INDENT}${INDENT}${INDENT}<node id="${escapeXml(node.id)}" label="${escapeXml(node.data.label)}">`);
+    lines.push(`${INDENT}${INDENT}${INDENT}${INDENT}<attvalues>`);
+    for (const [attribute, value] of getAttributeValues(nodeAttributes, node)) {
+      lines.push(`${INDENT}${INDENT}${INDENT}${INDENT}${INDENT}<attvalue for="${attribute.id}" value="${value}"/>`);
+    }
+    lines.push(`${INDENT}${INDENT}${INDENT}${INDENT}</attvalues>`);
+    // GEXF's y axis points up
+    lines.push(`${INDENT}${INDENT}${INDENT}${INDENT}<viz:position x="${node.position.x}" y="${-node.position.y}" z="0"/>`);
+    lines.push(`${INDENT}${INDENT}${INDENT}</node>`);
+  }
+  lines.push(`${INDENT}${INDENT}</nodes>`);
+
+  lines.push(`${INDENT}${INDENT}<edges>`);
+  for (const edge of edges) {
+    const label = edge.data?.fieldName ?? edge.data?.relation;
+    lines.push(
+      `${INDENT}${INDENT}${INDENT}<edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source)}" ` +
+      `target="${escapeXml(edge.target)}"${label ? ` label="${escapeXml(label)}"` : ''}>`
+    );
+    lines.push(`${INDENT}${INDENT}${INDENT}${INDENT}<attvalues>`);
+    for (const [attribute, value] of getAttributeValues(EDGE_ATTRIBUTES, edge)) {
+      lines.push(`${INDENT}${INDENT}${INDENT}${INDENT}${INDENT}<attvalue for="${attribute.id}" value="${value}"/>`);
+    }
+    lines.push(`${INDENT}${INDENT}${INDENT}${INDENT}</attvalues>`);
+    lines.push(`${INDENT}${INDENT}${INDENT}</edge>`);
+  }
+  lines.push(`${INDENT}${INDENT}</edges>`);
+
+  lines.push(`${INDENT}</graph>`, '</gexf>');
+  return `${lines.join('\n')}\n`;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Writes the graph in a graph data format
+ *
+ * @param nodes - Graph nodes
+ * @param edges - Graph edges
+ * @param format - Output format
+ * @param options - Graph context recorded in the file
+ * @returns File contents
+ */
+export function exportGraphData(
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  format: GraphDataFormat,
+  options: GraphDataExportOptions
+): string {
+  switch (format) {
+    case 'jgf':
+      return exportGraphAsJGF(nodes, edges, options);
+    case 'graphml':
+      return exportGraphAsGraphML(nodes, edges, options);
+    case 'gexf':
+      return exportGraphAsGEXF(nodes, edges, options);
+  }
+}
+
+/**
+ * Reads a graph exported as JSON Graph Format by this app
+ * Edges whose endpoints are missing from the file are dropped
+ *
+ * @param content - File contents
+ * @returns Graph ready to render, with its recorded positions
+ * @throws Error if the file is not a graph exported by this app
+ */
+export function importGraphFromJGF(content: string): ImportedGraph {
+  let parsed: Partial<JGFFile>;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error('Graph file is not valid JSON');
+  }
+
+  const graph = parsed?.graph;
+  if (!isObject(graph) || !isObject(graph.nodes) || !Array.isArray(graph.edges)) {
+    throw new Error('Not a JSON Graph Format file');
+  }
+  if (graph.metadata?.format !== GRAPH_FILE_FORMAT) {
+    throw new Error('Graph file was not exported by this app (node data is missing)');
+  }
+  if ((graph.metadata.version ?? 0) > GRAPH_FILE_VERSION) {
+    throw new Error(`Graph file version ${graph.metadata.version} is newer than this app supports`);
+  }
+
+  const nodes: GraphNode[] = [];
+  for (const [id, jgfNode] of Object.entries(graph.nodes)) {
+    if (!isObject(jgfNode)) {
+      throw new Error(`Graph file node "${id}" is not an object`);
+    }
+    const { position, type, ...data } = jgfNode.metadata ?? {};
+    if (typeof data.typename !== 'string') {
+      continue;
+    }
+    nodes.push({
+      id,
+      type: type ?? 'custom',
+      position: position ?? { x: 0, y: 0 },
+      data: {
+        ...data,
+        label: data.label ?? jgfNode.label ?? data.typename,
+        typename: data.typename,
+        depth: data.depth ?? 0,
+        isRoot: data.isRoot ?? false,
+      },
+    });
+  }
+  if (nodes.length === 0) {
+    throw new Error('Graph file contains no nodes');
+  }
+
+  const nodeIds = new Set(nodes.map((node) => node.id));
+  const edges: GraphEdge[] = [];
+  for (const [index, jgfEdge] of graph.edges.entries()) {
+    if (!isObject(jgfEdge) || typeof jgfEdge.source !== 'string' || typeof jgfEdge.target !== 'string') {
+      throw new Error(`Graph file edge ${index} is not an object with a source and target`);
+    }
+    if (!nodeIds.has(jgfEdge.source) || !nodeIds.has(jgfEdge.target)) {
+      continue;
+    }
+    const { id, type, sourceHandle, targetHandle, ...data } = jgfEdge.metadata ?? {};
+    edges.push({
+      id: id ?? `${jgfEdge.source}-[${jgfEdge.label ?? jgfEdge.relation ?? 'edge'}]-to-${jgfEdge.target}`,
+      source: jgfEdge.source,
+      target: jgfEdge.target,
+      sourceHandle,
+      targetHandle,
+      type: type ?? 'default',
+      data,
+    });
+  }
+
+  return {
+    nodes,
+    edges,
+    rootTypes: graph.metadata.rootTypes ?? nodes.filter((node) => node.data.isRoot).map((node) => node.data.typename),
+    depth: graph.metadata.depth ?? Math.max(...nodes.map((node) => node.data.depth)),
+    exportedAt: graph.metadata.exportedAt,
+  };
+}
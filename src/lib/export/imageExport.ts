@@ -0,0 +1,533 @@
+/**
+ * Image Export - Renders the graph as SVG, PNG or PDF
+ *
+ * The SVG is drawn from a snapshot of the canvas (measured node sizes,
+ * handle positions) with the same colors, strokes and arrow markers as
+ * the canvas, so it stays crisp in documents. PNG and PDF rasterize that
+ * SVG in the browser; the PDF is a single page with the image fit to A4.
+ * The edge legend and FK statistics can be drawn in a side column.
+ */
+
+import { Position } from 'reactflow';
+import { getEdgeStats } from '../graph/edgeEnhancer';
+import { getEdgePath } from '../graph/edgePaths';
+import { EDGE_STYLES, FIELD_BADGE_COLORS, KIND_STYLES, getEdgeStyleKind } from '../graph/graphStyles';
+import { GraphEdge, GraphNode } from '../graph/types';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Connection point of a handle, in flow coordinates
+ */
+export interface SnapshotHandle {
+  id: string | null;
+  x: number;
+  y: number;
+  position: Position;
+}
+
+/**
+ * A node as drawn on the canvas
+ */
+export interface SnapshotNode {
+  id: string;
+  /** Top-left corner in flow coordinates */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  data: GraphNode['data'];
+  /** Handles in DOM order, as ReactFlow resolves them */
+  sourceHandles: SnapshotHandle[];
+  targetHandles: SnapshotHandle[];
+}
+
+/**
+ * What the canvas currently shows
+ */
+export interface GraphSnapshot {
+  nodes: SnapshotNode[];
+  edges: GraphEdge[];
+  /** Visible area in flow coordinates */
+  viewport: { x: number; y: number; width: number; height: number };
+}
+
+export type ExportRegion = 'viewport' | 'full';
+
+export interface ImageExportOptions {
+  /** Export what is on screen, or the whole graph */
+  region: ExportRegion;
+  /** Draw the edge legend beside the graph */
+  includeLegend: boolean;
+  /** Draw the FK statistics beside the graph */
+  includeStats: boolean;
+}
+
+export interface RenderedSVG {
+  svg: string;
+  /** Size in CSS pixels at scale 1 */
+  width: number;
+  height: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const FONT_FAMILY = '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif';
+const MONO_FONT_FAMILY = 'Menlo, Consolas, "Liberation Mono", monospace';
+
+// Margin around the whole graph
+const FULL_GRAPH_PADDING = 60;
+
+// Side column holding the legend and statistics
+const PANEL_WIDTH = 240;
+const PANEL_PADDING = 16;
+const PANEL_ROW_HEIGHT = 20;
+
+// Field rows inside nodes
+const FIELD_ROW_HEIGHT = 17;
+
+// Browsers refuse canvases beyond these limits; larger exports are scaled down
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 16384 * 8192;
+
+// A4 in PDF points, with a print margin
+const PDF_PAGE_SHORT = 595.28;
+const PDF_PAGE_LONG = 841.89;
+const PDF_MARGIN = 36;
+const PDF_RASTER_SCALE = 2;
+const PDF_JPEG_QUALITY = 0.92;
+
+// ============================================================================
+// SVG Helpers
+// ============================================================================
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Arrow markers, one per edge style (mirrors the defs in GraphCanvas)
+ */
+function renderMarkers(): string[] {
+  return Object.values(EDGE_STYLES).map((style) =>
+    `<marker id="${style.markerId}" markerWidth="10" markerHeight="10" refX="9" refY="3" orient="auto" markerUnits="strokeWidth">` +
+    `<path d="M0,0 L0,6 L9,3 z" fill="${style.stroke}"/></marker>`
+  );
+}
+
+/**
+ * Resolves the handle an edge attaches to, the way ReactFlow does:
+ * the first handle unless the edge names one
+ */
+function resolveHandle(handles: SnapshotHandle[], handleId: string | null | undefined): SnapshotHandle | undefined {
+  if (handles.length === 1 || !handleId) {
+    return handles[0];
+  }
+  return handles.find((handle) => handle.id === handleId);
+}
+
+function renderEdge(edge: GraphEdge, nodesById: Map<string, SnapshotNode>): string | null {
+  const source = nodesById.get(edge.source);
+  const target = nodesById.get(edge.target);
+  const sourceHandle = source && resolveHandle(source.sourceHandles, edge.sourceHandle);
+  const targetHandle = target && resolveHandle(target.targetHandles, edge.targetHandle);
+  if (!sourceHandle || !targetHandle) {
+    return null;
+  }
+
+  const path = getEdgePath(
+    {
+      sourceX: sourceHandle.x,
+      sourceY: sourceHandle.y,
+      sourcePosition: sourceHandle.position,
+      targetX: targetHandle.x,
+      targetY: targetHandle.y,
+      targetPosition: targetHandle.position,
+    },
+    edge.data?.isCycle,
+    edge.source === edge.target
+  );
+  const style = EDGE_STYLES[getEdgeStyleKind(edge.data)];
+  const dash = style.strokeDasharray === 'none' ? '' : ` stroke-dasharray="${style.strokeDasharray}"`;
+
+  return `<path d="${path}" fill="none" stroke="${style.stroke}" stroke-width="${style.strokeWidth}"${dash} marker-end="url(#${style.markerId})"/>`;
+}
+
+/**
+ * Draws a node like CustomNode: kind tag, label, path-tree typename,
+ * relationship ports and the (collapsed) field list
+ */
+function renderNode(node: SnapshotNode): string {
+  const { data } = node;
+  const kindStyle = data.kind ? KIND_STYLES[data.kind] : undefined;
+  const borderColor = kindStyle?.color ?? (data.isRoot ? '#2E5C8A' : '#CCCCCC');
+  const textColor = data.isRoot ? '#FFFFFF' : '#333333';
+  const centerX = round(node.x + node.width / 2);
+  const parts: string[] = [];
+
+  const dash = kindStyle?.borderStyle === 'dashed'
+    ? ' stroke-dasharray="6,4"'
+    : kindStyle?.borderStyle === 'dotted' ? ' stroke-dasharray="2,3"' : '';
+  parts.push(
+    `<rect x="${round(node.x)}" y="${round(node.y)}" width="${round(node.width)}" height="${round(node.height)}" ` +
+    `rx="${parseInt(kindStyle?.borderRadius ?? '8px', 10)}" fill="${data.isRoot ? '#4A90E2' : '#FFFFFF'}" ` +
+    `stroke="${borderColor}" stroke-width="${kindStyle?.borderStyle === 'double' ? 4 : 2}"${dash}/>`
+  );
+
+  let y = node.y + 10;
+  if (kindStyle) {
+    y += 12;
+    parts.push(
+      `<text x="${centerX}" y="${round(y)}" text-anchor="middle" font-size="10" font-style="italic" ` +
+      `fill="${data.isRoot ? '#FFFFFF' : kindStyle.color}">«${escapeXml(kindStyle.tag)}»</text>`
+    );
+  }
+
+  y += 16;
+  parts.push(
+    `<text x="${centerX}" y="${round(y)}" text-anchor="middle" font-size="14" ` +
+    `font-weight="${data.isRoot ? 'bold' : 'normal'}" fill="${textColor}">${escapeXml(data.label)}</text>`
+  );
+
+  if (data.path && data.path.length > 0) {
+    y += 15;
+    parts.push(
+      `<text x="${centerX}" y="${round(y)}" text-anchor="middle" font-size="11" font-family='${MONO_FONT_FAMILY}' ` +
+      `fill="${data.isRoot ? '#FFFFFF' : '#64748b'}">${escapeXml(data.typename)}</text>`
+    );
+  }
+
+  const ports = data.fields?.filter((field) => field.isPort) ?? [];
+  const listCount = (data.fields?.length ?? 0) - ports.length;
+  const rowCount = ports.length + (listCount > 0 ? 1 : 0);
+  if (rowCount > 0) {
+    const boxX = node.x + 8;
+    const boxWidth = node.width - 16;
+    let rowY = y + 12;
+    parts.push(
+      `<rect x="${round(boxX)}" y="${round(rowY)}" width="${round(boxWidth)}" height="${rowCount * FIELD_ROW_HEIGHT}" ` +
+      `rx="4" fill="#FFFFFF" stroke="#E2E8F0"/>`
+    );
+
+    for (const field of ports) {
+      const baseline = round(rowY + 12);
+      const badgeWidth = field.typeSignature.length * 6 + 8;
+      const badgeX = boxX + boxWidth - 8 - badgeWidth;
+      parts.push(
+        `<text x="${round(boxX + 8)}" y="${baseline}" font-size="11" font-family='${MONO_FONT_FAMILY}' fill="#333333">${escapeXml(field.name)}</text>`,
+        `<rect x="${round(badgeX)}" y="${round(rowY + 2)}" width="${badgeWidth}" height="13" rx="4" fill="${FIELD_BADGE_COLORS[field.fieldType]}"/>`,
+        `<text x="${round(badgeX + badgeWidth / 2)}" y="${round(rowY + 12)}" text-anchor="middle" font-size="10" ` +
+        `font-family='${MONO_FONT_FAMILY}' fill="#FFFFFF">${escapeXml(field.typeSignature)}</text>`
+      );
+      rowY += FIELD_ROW_HEIGHT;
+    }
+
+    if (listCount > 0) {
+      parts.push(
+        `<text x="${round(boxX + 8)}" y="${round(rowY + 12)}" font-size="11" fill="#64748b">▸ ${listCount} fields</text>`
+      );
+    }
+  }
+
+  return `<g>${parts.join('')}</g>`;
+}
+
+/**
+ * Edge legend rows (mirrors EdgeLegend)
+ *
+ * @returns Markup and height of the panel
+ */
+function renderLegend(): { markup: string; height: number } {
+  const rows = Object.values(EDGE_STYLES).map((style, index) => {
+    const y = 32 + index * PANEL_ROW_HEIGHT;
+    const dash = style.strokeDasharray === 'none' ? '' : ` stroke-dasharray="${style.strokeDasharray}"`;
+    return `<line x1="0" y1="${y}" x2="40" y2="${y}" stroke="${style.stroke}" stroke-width="${style.strokeWidth}"${dash}/>` +
+      `<path d="M40,${y - 4} L50,${y} L40,${y + 4} z" fill="${style.stroke}"/>` +
+      `<text x="60" y="${y + 4}" font-size="11" fill="#333333">${escapeXml(style.label)}</text>`;
+  });
+
+  return {
+    markup: `<text x="0" y="12" font-size="12" font-weight="600" fill="#333333">Edge Types</text>${rows.join('')}`,
+    height: 32 + rows.length * PANEL_ROW_HEIGHT,
+  };
+}
+
+/**
+ * FK statistics rows (mirrors FKStats)
+ *
+ * @returns Markup and height of the panel
+ */
+function renderStats(edges: GraphEdge[]): { markup: string; height: number } {
+  const stats = getEdgeStats(edges);
+  const rows: Array<{ label: string; value: string | number; color?: string; indent?: boolean }> = [
+    { label: 'Total Edges', value: stats.total },
+    { label: 'FK Edges', value: `${stats.fkEdges} (${stats.fkPercentage.toFixed(1)}%)` },
+    { label: 'Forward FKs', value: stats.forwardFKs, color: EDGE_STYLES.forward.stroke, indent: true },
+    { label: 'Reverse', value: stats.reverseFKs, color: EDGE_STYLES.reverse.stroke, indent: true },
+    ...(stats.manyToMany > 0
+      ? [{ label: 'Many-to-Many', value: stats.manyToMany, color: '#8b5cf6', indent: true }]
+      : []),
+    { label: 'Non-FK Edges', value: stats.nonFKEdges, color: EDGE_STYLES.nonFK.stroke },
+    ...(stats.junctionTables > 0 ? [{ label: 'Junction Tables', value: stats.junctionTables }] : []),
+  ];
+
+  const width = PANEL_WIDTH - PANEL_PADDING * 2;
+  const markup = rows.map((row, index) => {
+    const y = 32 + index * PANEL_ROW_HEIGHT;
+    const color = row.color ?? '#64748b';
+    return `<text x="${row.indent ? 16 : 0}" y="${y}" font-size="11" fill="${color}">${escapeXml(row.label)}:</text>` +
+      `<text x="${width}" y="${y}" text-anchor="end" font-size="11" font-weight="500" fill="${row.color ?? '#333333'}">${escapeXml(String(row.value))}</text>`;
+  });
+
+  return {
+    markup: `<text x="0" y="12" font-size="12" font-weight="600" fill="#333333">FK Statistics</text>${markup.join('')}`,
+    height: 24 + rows.length * PANEL_ROW_HEIGHT,
+  };
+}
+
+/**
+ * Bounds of every node, with a margin
+ */
+function getGraphBounds(nodes: SnapshotNode[]): { x: number; y: number; width: number; height: number } {
+  if (nodes.length === 0) {
+    return { x: 0, y: 0, width: 400, height: 300 };
+  }
+
+  const minX = Math.min(...nodes.map((node) => node.x));
+  const minY = Math.min(...nodes.map((node) => node.y));
+  const maxX = Math.max(...nodes.map((node) => node.x + node.width));
+  const maxY = Math.max(...nodes.map((node) => node.y + node.height));
+
+  return {
+    x: minX - FULL_GRAPH_PADDING,
+    y: minY - FULL_GRAPH_PADDING,
+    width: maxX - minX + FULL_GRAPH_PADDING * 2,
+    height: maxY - minY + FULL_GRAPH_PADDING * 2,
+  };
+}
+
+// ============================================================================
+// Raster Helpers
+// ============================================================================
+
+/**
+ * Draws the SVG onto a canvas, scaled down if the browser couldn't hold it
+ *
+ * @param rendered - Rendered SVG
+ * @param scale - Requested pixel ratio
+ * @returns Canvas with a white background
+ * @throws Error if the browser fails to decode the SVG
+ */
+async function rasterize(rendered: RenderedSVG, scale: number): Promise<HTMLCanvasElement> {
+  const { width, height } = rendered;
+  const effectiveScale = Math.min(
+    scale,
+    MAX_CANVAS_SIDE / width,
+    MAX_CANVAS_SIDE / height,
+    Math.sqrt(MAX_CANVAS_AREA / (width * height))
+  );
+  if (effectiveScale < scale) {
+    console.warn(`[Image Export] Graph too large for ${scale}x, exporting at ${effectiveScale.toFixed(2)}x`);
+  }
+
+  const url = URL.createObjectURL(new Blob([rendered.svg], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('Failed to render the graph image'));
+      image.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * effectiveScale);
+    canvas.height = Math.round(height * effectiveScale);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas 2D context is not available');
+    }
+    context.fillStyle = '#FFFFFF';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error(`Failed to encode ${type}`))),
+      type,
+      quality
+    );
+  });
+}
+
+/**
+ * Assembles a one-page PDF showing a JPEG image
+ * The JPEG is embedded as-is (DCTDecode), so no PDF library is needed
+ */
+function buildPdf(
+  jpeg: ArrayBuffer,
+  imageWidth: number,
+  imageHeight: number,
+  page: { width: number; height: number },
+  placement: { x: number; y: number; width: number; height: number }
+): Blob {
+  const encoder = new TextEncoder();
+  const chunks: BlobPart[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (chunk: string | ArrayBuffer) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.byteLength;
+  };
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  const content = `q ${round(placement.width)} 0 0 ${round(placement.height)} ${round(placement.x)} ${round(placement.y)} cm /Im0 Do Q`;
+
+  write('%PDF-1.4\n');
+  beginObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  beginObject(2);
+  write('<< /Type /Pages /Kids [3 0 R] /Count 1 >>\nendobj\n');
+  beginObject(3);
+  write(
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${round(page.width)} ${round(page.height)}] ` +
+    '/Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>\nendobj\n'
+  );
+  beginObject(4);
+  write(
+    `<< /Type /XObject /Subtype /Image /Width ${imageWidth} /Height ${imageHeight} ` +
+    `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.byteLength} >>\nstream\n`
+  );
+  write(jpeg);
+  write('\nendstream\nendobj\n');
+  beginObject(5);
+  write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+  const xrefOffset = length;
+  write(`xref\n0 6\n0000000000 65535 f \n`);
+  for (let id = 1; id <= 5; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size 6 /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Renders the graph snapshot as a standalone SVG document
+ *
+ * @param snapshot - Nodes, edges and viewport of the canvas
+ * @param options - Region and side panels
+ * @returns SVG markup and its size
+ */
+export function renderGraphSVG(snapshot: GraphSnapshot, options: ImageExportOptions): RenderedSVG {
+  const area = options.region === 'full' ? getGraphBounds(snapshot.nodes) : snapshot.viewport;
+
+  const panels = [
+    ...(options.includeLegend ? [renderLegend()] : []),
+    ...(options.includeStats ? [renderStats(snapshot.edges)] : []),
+  ];
+  const panelsHeight = panels.reduce((sum, panel) => sum + panel.height + PANEL_PADDING, PANEL_PADDING);
+
+  const width = Math.ceil(area.width + (panels.length > 0 ? PANEL_WIDTH : 0));
+  const height = Math.ceil(Math.max(area.height, panels.length > 0 ? panelsHeight : 0));
+
+  const nodesById = new Map(snapshot.nodes.map((node) => [node.id, node]));
+  const edgeMarkup = snapshot.edges
+    .map((edge) => renderEdge(edge, nodesById))
+    .filter((markup): markup is string => markup !== null);
+
+  let panelY = PANEL_PADDING;
+  const panelMarkup = panels.map((panel) => {
+    const markup = `<g transform="translate(${round(area.width + PANEL_PADDING)}, ${panelY})">${panel.markup}</g>`;
+    panelY += panel.height + PANEL_PADDING;
+    return markup;
+  });
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family='${FONT_FAMILY}'>`,
+    `<defs>${renderMarkers().join('')}<clipPath id="graph-area"><rect width="${round(area.width)}" height="${round(area.height)}"/></clipPath></defs>`,
+    `<rect width="${width}" height="${height}" fill="#FFFFFF"/>`,
+    `<g clip-path="url(#graph-area)"><g transform="translate(${round(-area.x)}, ${round(-area.y)})">`,
+    ...edgeMarkup,
+    ...snapshot.nodes.map(renderNode),
+    '</g></g>',
+    panels.length > 0
+      ? `<line x1="${round(area.width)}" y1="0" x2="${round(area.width)}" y2="${height}" stroke="#E2E8F0"/>`
+      : '',
+    ...panelMarkup,
+    '</svg>',
+  ].join('\n');
+
+  return { svg, width, height };
+}
+
+/**
+ * Rasterizes a rendered SVG to PNG
+ *
+ * @param rendered - Rendered SVG
+ * @param scale - Pixel ratio (2 = twice the on-screen resolution)
+ * @returns PNG image
+ * @throws Error if the browser fails to render or encode the image
+ */
+export async function exportSVGAsPNG(rendered: RenderedSVG, scale: number): Promise<Blob> {
+  const canvas = await rasterize(rendered, scale);
+  return canvasToBlob(canvas, 'image/png');
+}
+
+/**
+ * Produces a print-friendly single-page A4 PDF of a rendered SVG
+ * The page orientation follows the image; the image is fit inside the margins
+ *
+ * @param rendered - Rendered SVG
+ * @returns PDF document
+ * @throws Error if the browser fails to render or encode the image
+ */
+export async function exportSVGAsPDF(rendered: RenderedSVG): Promise<Blob> {
+  const canvas = await rasterize(rendered, PDF_RASTER_SCALE);
+  const jpeg = await (await canvasToBlob(canvas, 'image/jpeg', PDF_JPEG_QUALITY)).arrayBuffer();
+
+  const landscape = rendered.width > rendered.height;
+  const page = landscape
+    ? { width: PDF_PAGE_LONG, height: PDF_PAGE_SHORT }
+    : { width: PDF_PAGE_SHORT, height: PDF_PAGE_LONG };
+  const fit = Math.min(
+    (page.width - PDF_MARGIN * 2) / rendered.width,
+    (page.height - PDF_MARGIN * 2) / rendered.height
+  );
+  const placedWidth = rendered.width * fit;
+  const placedHeight = rendered.height * fit;
+
+  return buildPdf(jpeg, canvas.width, canvas.height, page, {
+    x: (page.width - placedWidth) / 2,
+    y: (page.height - placedHeight) / 2,
+    width: placedWidth,
+    height: placedHeight,
+  });
+}
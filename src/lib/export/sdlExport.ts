@@ -0,0 +1,316 @@
+/**
+ * SDL Export - Prints the types of the current graph as GraphQL SDL
+ *
+ * Emits exactly the types that have a node in the graph, with their
+ * descriptions, fields, arguments and full type wrappers. Fields whose type
+ * is not part of the graph are kept and annotated with a comment, and the
+ * types they reference are declared as stubs (custom scalars and known enums
+ * in full) so the output parses on its own.
+ */
+
+import {
+  IntrospectionField,
+  IntrospectionInputValue,
+  IntrospectionType,
+} from '../graphql/introspection';
+import { formatTypeRef, unwrapType } from '../graphql/typeRef';
+import { parseSDL } from '../graphql/sdlParser';
+import { GraphNode } from '../graph/types';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface SDLExportOptions {
+  /** Root types of the graph, listed in the header comment */
+  rootTypes?: string[];
+  /** Traversal depth of the graph, listed in the header comment */
+  depth?: number;
+}
+
+export interface SDLExportResult {
+  sdl: string;
+  /** Types printed as definitions */
+  typeCount: number;
+  /** Named types referenced by fields but not part of the graph (stubbed) */
+  externalTypes: string[];
+  /** Why the output does not parse back, or null when it does */
+  parseError: string | null;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const INDENT = '  ';
+
+const BUILT_IN_SCALARS = new Set(['String', 'Int', 'Float', 'Boolean', 'ID']);
+
+const DEFINITION_KEYWORDS: Record<string, string> = {
+  OBJECT: 'type',
+  INTERFACE: 'interface',
+  UNION: 'union',
+  ENUM: 'enum',
+  INPUT_OBJECT: 'input',
+  SCALAR: 'scalar',
+};
+
+// Placeholder field of stubbed object, interface and input types
+const STUB_FIELD = '_: Boolean';
+
+// Characters a block string cannot hold (tab and newline can)
+const CONTROL_CHARACTERS = /[\u0000-\u0008\u000b-\u001f]/g;
+
+// ============================================================================
+// Printing Helpers
+// ============================================================================
+
+/**
+ * Prints a description as a string or block string
+ *
+ * @param description - Description text (may be empty)
+ * @param indent - Indentation prefix
+ * @returns Description lines, or an empty array
+ */
+function printDescription(description: string | undefined | null, indent: string): string[] {
+  if (!description) {
+    return [];
+  }
+
+  // JSON string escapes are all valid GraphQL string escapes
+  if (!/[\r\n]/.test(description)) {
+    return [`${indent}${JSON.stringify(description)}`];
+  }
+
+  const escaped = description
+    .replace(/\r\n?/g, '\n')
+    .replace(CONTROL_CHARACTERS, '')
+    .replace(/"""/g, '\\"""');
+  return [
+    `${indent}"""`,
+    ...escaped.split('\n').map((line) => (line ? `${indent}${line}` : '')),
+    `${indent}"""`,
+  ];
+}
+
+function printDeprecated(isDeprecated?: boolean, reason?: string | null): string {
+  if (!isDeprecated) {
+    return '';
+  }
+  return reason ? ` @deprecated(reason: ${JSON.stringify(reason)})` : ' @deprecated';
+}
+
+function printInputValue(value: IntrospectionInputValue): string {
+  const defaultValue = value.defaultValue != null ? ` = ${value.defaultValue}` : '';
+  return `${value.name}: ${formatTypeRef(value.type)}${defaultValue}`;
+}
+
+/**
+ * Prints field arguments inline, or one per line when any has a description
+ */
+function printArgs(args: IntrospectionInputValue[] | undefined, indent: string): string {
+  if (!args || args.length === 0) {
+    return '';
+  }
+
+  if (args.every((arg) => !arg.description)) {
+    return `(${args.map(printInputValue).join(', ')})`;
+  }
+
+  const argIndent = indent + INDENT;
+  const lines = args.flatMap((arg) => [
+    ...printDescription(arg.description, argIndent),
+    `${argIndent}${printInputValue(arg)}`,
+  ]);
+  return `(\n${lines.join('\n')}\n${indent})`;
+}
+
+/**
+ * Prints a placeholder definition for a type outside the subgraph
+ *
+ * Enums are printed in full when their values are known (they reference no
+ * other types); other kinds get a single placeholder field or value.
+ * Interfaces are only stubbed when a field returns them; no exported type
+ * implements a stub.
+ * Unions are stubbed as object types, since a union needs defined members.
+ */
+function printStub(name: string, kind: string, type: IntrospectionType | undefined): string {
+  switch (kind) {
+    case 'ENUM': {
+      const values = type?.enumValues?.map((value) => value.name) ?? [];
+      return `enum ${name} { ${values.length > 0 ? values.join(' ') : '_'} }`;
+    }
+    case 'SCALAR':
+      return `scalar ${name}`;
+    case 'INTERFACE':
+      return `interface ${name} { ${STUB_FIELD} }`;
+    case 'INPUT_OBJECT':
+      return `input ${name} { ${STUB_FIELD} }`;
+    default:
+      return `type ${name} { ${STUB_FIELD} }`;
+  }
+}
+
+// ============================================================================
+// Main Functions
+// ============================================================================
+
+/**
+ * Exports the types of a graph as SDL
+ *
+ * @param nodes - Graph nodes (one definition per distinct typename)
+ * @param typeData - Introspection data for the graph's types
+ * @param options - Header information
+ * @returns SDL text and summary counts
+ */
+export function exportGraphAsSDL(
+  nodes: GraphNode[],
+  typeData: Map<string, IntrospectionType>,
+  options: SDLExportOptions = {}
+): SDLExportResult {
+  // One definition per type, in graph order (roots first)
+  const typenames = Array.from(new Set(nodes.map((node) => node.data.typename)));
+  const included = new Set(typenames);
+  const types = typenames
+    .map((typename) => typeData.get(typename))
+    .filter((type): type is IntrospectionType => !!type);
+
+  // External typename -> kind, declared as stubs
+  const externalTypes = new Map<string, string>();
+  const customScalars = new Set<string>();
+
+  /**
+   * Classifies a referenced type: declared in the output, built-in,
+   * a custom scalar to declare, or external to the graph
+   */
+  const noteReference = (typename: string, kind: string): boolean => {
+    if (included.has(typename) || BUILT_IN_SCALARS.has(typename)) {
+      return false;
+    }
+    if (kind === 'SCALAR') {
+      customScalars.add(typename);
+      return false;
+    }
+    externalTypes.set(typename, kind);
+    return true;
+  };
+
+  const printField = (field: IntrospectionField): string[] => {
+    const target = unwrapType(field.type);
+    const isExternal = noteReference(target.name, target.kind);
+    field.args?.forEach((arg) => {
+      const argType = unwrapType(arg.type);
+      noteReference(argType.name, argType.kind);
+    });
+
+    return [
+      ...printDescription(field.description, INDENT),
+      ...(isExternal
+        ? [`${INDENT}# ${target.name} (${target.kind.toLowerCase()}) is outside this subgraph, stubbed below`]
+        : []),
+      `${INDENT}${field.name}${printArgs(field.args, INDENT)}: ${formatTypeRef(field.type)}` +
+        printDeprecated(field.isDeprecated, field.deprecationReason),
+    ];
+  };
+
+  const printType = (type: IntrospectionType): string => {
+    const keyword = DEFINITION_KEYWORDS[type.kind] ?? 'type';
+    const lines = printDescription(type.description, '');
+    let header = `${keyword} ${type.name}`;
+
+    switch (type.kind) {
+      case 'UNION': {
+        const members = (type.possibleTypes ?? []).map((member) => {
+          noteReference(member.name ?? 'Unknown', member.kind);
+          return member.name;
+        });
+        lines.push(members.length > 0 ? `${header} = ${members.join(' | ')}` : header);
+        return lines.join('\n');
+      }
+      case 'SCALAR':
+        lines.push(header);
+        return lines.join('\n');
+      case 'ENUM': {
+        const values = (type.enumValues ?? []).flatMap((value) => [
+          ...printDescription(value.description, INDENT),
+          `${INDENT}${value.name}${printDeprecated(value.isDeprecated, value.deprecationReason)}`,
+        ]);
+        lines.push(`${header} {`, ...values, '}');
+        return lines.join('\n');
+      }
+      case 'INPUT_OBJECT': {
+        const fields = (type.inputFields ?? []).flatMap((field) => {
+          const fieldType = unwrapType(field.type);
+          noteReference(fieldType.name, fieldType.kind);
+          return [
+            ...printDescription(field.description, INDENT),
+            `${INDENT}${printInputValue(field)}`,
+          ];
+        });
+        lines.push(`${header} {`, ...fields, '}');
+        return lines.join('\n');
+      }
+      default: {
+        // A stub cannot carry the fields an implementation must share with
+        // its interface, so interfaces outside the subgraph are only noted
+        const interfaces = (type.interfaces ?? []).map((iface) => iface.name ?? 'Unknown');
+        const declared = interfaces.filter((name) => included.has(name));
+        const external = interfaces.filter((name) => !included.has(name));
+        if (external.length > 0) {
+          lines.push(`# implements ${external.join(' & ')} (outside this subgraph)`);
+        }
+        if (declared.length > 0) {
+          header += ` implements ${declared.join(' & ')}`;
+        }
+        const fields = (type.fields ?? []).flatMap(printField);
+        lines.push(`${header} {`, ...fields, '}');
+        return lines.join('\n');
+      }
+    }
+  };
+
+  const definitions = types.map(printType);
+
+  const header = [
+    '# Exported from Nautobot Model Visualizer',
+    ...(options.rootTypes?.length ? [`# Roots: ${options.rootTypes.join(', ')}`] : []),
+    ...(options.depth !== undefined ? [`# Depth: ${options.depth}`] : []),
+    `# Types: ${types.length}`,
+  ];
+
+  const sections = [header.join('\n'), ...definitions];
+
+  if (customScalars.size > 0) {
+    sections.push(
+      Array.from(customScalars).sort().map((name) => `scalar ${name}`).join('\n')
+    );
+  }
+
+  const external = Array.from(externalTypes.keys()).sort();
+  if (external.length > 0) {
+    sections.push(
+      [
+        '# Stubs for referenced types outside this subgraph',
+        ...external.map((name) => printStub(name, externalTypes.get(name)!, typeData.get(name))),
+      ].join('\n')
+    );
+  }
+
+  const sdl = `${sections.join('\n\n')}\n`;
+
+  // Round-trip check - the export should always parse as a schema on its own
+  let parseError: string | null = null;
+  try {
+    parseSDL(sdl);
+  } catch (error) {
+    parseError = error instanceof Error ? error.message : String(error);
+    console.error('[SDL Export] Exported SDL does not parse:', parseError);
+  }
+
+  return {
+    sdl,
+    typeCount: types.length,
+    externalTypes: external,
+    parseError,
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * Edge Paths - SVG path geometry for graph edges
+ *
+ * Shared by the FK-aware edge component and the image exports so exported
+ * diagrams match the canvas. Edges run straight between their handles;
+ * edges closing a cycle of the schema graph are drawn as curves
+ * (self-references as a loop beside the node) so they don't run back over
+ * the tree edges.
+ */
+
+import { getBezierPath, getStraightPath, Position } from 'reactflow';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface EdgeEndpoints {
+  sourceX: number;
+  sourceY: number;
+  sourcePosition: Position;
+  targetX: number;
+  targetY: number;
+  targetPosition: Position;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Build a loop from a node's outgoing handle back to its incoming handle,
+ * bulging out beside the node (below it in horizontal layouts)
+ */
+function getSelfLoopPath({ sourceX, sourceY, targetX, targetY, sourcePosition }: EdgeEndpoints): string {
+  if (sourcePosition === Position.Left || sourcePosition === Position.Right) {
+    const flow = sourcePosition === Position.Right ? 60 : -60;
+    const bulge = Math.max(120, Math.abs(sourceX - targetX) * 0.8);
+    return `M ${sourceX},${sourceY} C ${sourceX + flow},${sourceY + bulge} ${targetX - flow},${targetY + bulge} ${targetX},${targetY}`;
+  }
+
+  const flow = sourcePosition === Position.Bottom ? 60 : -60;
+  const bulge = Math.max(120, Math.abs(sourceY - targetY) * 0.8);
+  return `M ${sourceX},${sourceY} C ${sourceX + bulge},${sourceY + flow} ${targetX + bulge},${targetY - flow} ${targetX},${targetY}`;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Builds the path of an edge between two handles
+ *
+ * @param endpoints - Handle coordinates and sides
+ * @param isCycle - Whether the edge closes a cycle
+ * @param isSelfLoop - Whether source and target are the same node
+ * @returns SVG path data
+ */
+export function getEdgePath(endpoints: EdgeEndpoints, isCycle = false, isSelfLoop = false): string {
+  if (isCycle && isSelfLoop) {
+    return getSelfLoopPath(endpoints);
+  }
+
+  if (isCycle) {
+    return getBezierPath({ ...endpoints, curvature: 0.5 })[0];
+  }
+
+  return getStraightPath(endpoints)[0];
+}
@@ -0,0 +1,102 @@
+/**
+ * Graph Styles - Colors and strokes shared by the canvas and image exports
+ *
+ * Edge styles by relationship:
+ * - Forward FK (many-to-one): Blue (#2563eb), solid, 2px
+ * - Reverse (one-to-many): Green (#10b981), dashed (5,5), 2px
+ * - Non-FK (GraphQL only): Gray (#94a3b8), dotted (3,3), 1px
+ * - Implements (interface): Purple (#8b5cf6), dashed (8,4), 1.5px
+ * - Member of (union): Amber (#d97706), dashed (8,4), 1.5px
+ */
+
+import { FKEdgeData, GraphFieldType, GraphNodeKind } from './types';
+import { DiffState } from './schemaDiff';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type EdgeStyleKind = 'forward' | 'reverse' | 'nonFK' | 'implements' | 'memberOf';
+
+export interface EdgeStyle {
+  stroke: string;
+  strokeWidth: number;
+  strokeDasharray: string;
+  /** Id of the arrow marker (defined in GraphCanvas) */
+  markerId: string;
+  /** Legend label */
+  label: string;
+}
+
+export interface NodeKindStyle {
+  tag: string;
+  color: string;
+  borderStyle: 'solid' | 'dashed' | 'dotted' | 'double';
+  borderRadius: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const EDGE_STYLES: Record<EdgeStyleKind, EdgeStyle> = {
+  forward: { stroke: '#2563eb', strokeWidth: 2, strokeDasharray: 'none', markerId: 'arrow-blue', label: 'Forward FK (many-to-one)' },
+  reverse: { stroke: '#10b981', strokeWidth: 2, strokeDasharray: '5,5', markerId: 'arrow-green', label: 'Reverse (one-to-many)' },
+  nonFK: { stroke: '#94a3b8', strokeWidth: 1, strokeDasharray: '3,3', markerId: 'arrow-gray', label: 'GraphQL field (non-FK)' },
+  implements: { stroke: '#8b5cf6', strokeWidth: 1.5, strokeDasharray: '8,4', markerId: 'arrow-purple', label: 'Implements (interface)' },
+  memberOf: { stroke: '#d97706', strokeWidth: 1.5, strokeDasharray: '8,4', markerId: 'arrow-amber', label: 'Member of (union)' },
+};
+
+/**
+ * Visual treatment for non-object kinds
+ * Objects keep the default white/blue styling
+ */
+export const KIND_STYLES: Partial<Record<GraphNodeKind, NodeKindStyle>> = {
+  INTERFACE: { tag: 'interface', color: '#8b5cf6', borderStyle: 'dashed', borderRadius: '8px' },
+  UNION: { tag: 'union', color: '#d97706', borderStyle: 'double', borderRadius: '8px' },
+  ENUM: { tag: 'enum', color: '#0891b2', borderStyle: 'solid', borderRadius: '20px' },
+  INPUT_OBJECT: { tag: 'input', color: '#64748b', borderStyle: 'dotted', borderRadius: '8px' },
+};
+
+/**
+ * Highlight of path finder results; everything else is faded to the opacity
+ */
+export const PATH_HIGHLIGHT = {
+  color: '#f97316',
+  dimmedOpacity: 0.25,
+};
+
+/**
+ * Schema diff colors for added, removed and changed types, fields and edges
+ */
+export const DIFF_COLORS: Record<DiffState, string> = {
+  added: '#16a34a',
+  removed: '#dc2626',
+  changed: '#ca8a04',
+};
+
+/**
+ * Type badge colors by field shape
+ */
+export const FIELD_BADGE_COLORS: Record<GraphFieldType, string> = {
+  scalar: '#64748b',
+  object: '#2563eb',
+  list: '#10b981',
+};
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Classifies an edge for styling from its FK metadata
+ *
+ * @param data - Edge data
+ * @returns Style kind
+ */
+export function getEdgeStyleKind(data?: FKEdgeData): EdgeStyleKind {
+  if (data?.relation === 'implements') return 'implements';
+  if (data?.relation === 'memberOf') return 'memberOf';
+  if (!data?.isFK) return 'nonFK';
+  return data.direction === 'forward' ? 'forward' : 'reverse';
+}
@@ -1,11 +1,12 @@
 import {
   IntrospectionType,
   IntrospectionField,
-  isScalarType,
-  unwrapType,
+  IntrospectionTypeRef,
 } from '../graphql/introspection';
-import { GraphNode, GraphEdge } from './types';
-import { applyTreeLayout } from './layout';
+import { isScalarType } from '../graphql/typeKinds';
+import { formatTypeRef, unwrapType } from '../graphql/typeRef';
+import { GraphNode, GraphEdge, GraphMode, GraphNodeField, GraphNodeKind, EdgeRelation } from './types';
+import { classifyFieldType, getFieldHandleId } from './nodeFields';
 import { FKLookupMap } from '../../types/fkMetadata';
 import { enhanceEdgeWithFK } from './edgeEnhancer';
 
@@ -15,15 +16,19 @@ import { enhanceEdgeWithFK } from './edgeEnhancer';
 
 export interface TransformOptions {
   maxDepth: number;
-  includeScalars?: boolean; // Default: false (filter out scalar fields)
+  includeScalars?: boolean; // Default: false (no field list inside nodes)
   typeFilter?: (typename: string) => boolean;
-  showFieldNodes?: boolean;
+  showFieldNodes?: boolean; // Default: false (edges start at the node, not at a field port)
   fkLookup?: FKLookupMap | null; // FK lookup map for edge enhancement
+  includeTypeKinds?: boolean; // Default: false (no union/enum nodes, no implements/member-of edges)
+  graphMode?: GraphMode; // Default: 'layered' (one node per typename:depth)
 }
 
 export interface GraphTransformResult {
   nodes: GraphNode[];
   edges: GraphEdge[];
+  /** Introspection data for every type in the graph (roots plus auto-fetched) */
+  typeData: Map<string, IntrospectionType>;
   stats: {
     totalNodes: number;
     totalEdges: number;
@@ -33,12 +38,65 @@ export interface GraphTransformResult {
   };
 }
 
+/**
+ * Progress reported while a graph is built
+ *
+ * - `started`: the build was accepted
+ * - `fetching`: missing types of a depth are being fetched
+ * - `nodes`: all nodes of a depth have been created
+ * - `layout` / `done`: emitted by the build pipeline around the layout step
+ */
+export type GraphBuildProgress =
+  | { stage: 'started' }
+  | { stage: 'fetching'; depth: number; typesRequested: number; typesFetched: number }
+  | { stage: 'nodes'; depth: number; nodesCreated: number; typesFetched: number }
+  | { stage: 'layout'; nodes: number; edges: number }
+  | { stage: 'done'; nodes: number; edges: number; durationMs: number };
+
+export type ProgressCallback = (progress: GraphBuildProgress) => void;
+
 // Type for the fetch function
-export type TypeFetcher = (typenames: string[]) => Promise<Map<string, IntrospectionType>>;
+export type TypeFetcher = (
+  typenames: string[],
+  signal?: AbortSignal
+) => Promise<Map<string, IntrospectionType>>;
+
+/**
+ * A schema relation that is not a field: interface implementation or union membership
+ * When `childIsSource` is set the edge points from the child back to the parent
+ * (e.g., a union's member type -> the union)
+ */
+interface TypeRelation {
+  typename: string;
+  kind: string;
+  relation: EdgeRelation;
+  childIsSource: boolean;
+}
+
+/**
+ * A node to create at the next depth of a path tree
+ * Created only once its type has been loaded
+ */
+interface PendingPathNode {
+  parent: GraphNode;
+  typename: string;
+  /** Path segment: the field name, or the relation for implements/member-of children */
+  segment: string;
+  /** Field type for field edges; absent for relation edges */
+  fieldType?: IntrospectionTypeRef;
+  relation?: TypeRelation;
+}
 
 // Constants
 const MAX_TYPES_PER_DEPTH = 100;
 
+// Path trees grow exponentially with depth; stop adding nodes past this many
+const MAX_PATH_NODES = 500;
+
+// Field target kinds traversed by default, and with `includeTypeKinds` enabled
+const DEFAULT_TARGET_KINDS = new Set(['OBJECT', 'INTERFACE']);
+const EXTENDED_TARGET_KINDS = new Set(['OBJECT', 'INTERFACE', 'UNION', 'ENUM']);
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -86,13 +144,17 @@ function generateNodeId(
  * @param fieldName - Field name (null for root nodes)
  * @param depth - Depth in graph
  * @param isRoot - Whether this is a root node
+ * @param kind - GraphQL kind of the type
+ * @param fields - Fields rendered inside the node (field-level mode only)
  * @returns GraphNode ready for ReactFlow
  */
 function createNode(
   typename: string,
   fieldName: string | null,
   depth: number,
-  isRoot: boolean
+  isRoot: boolean,
+  kind: GraphNodeKind = 'OBJECT',
+  fields?: GraphNodeField[]
 ): GraphNode {
   const id = generateNodeId(typename, fieldName, depth);
   // Clean the typename for display by removing "Type" suffix
@@ -107,42 +169,136 @@ function createNode(
       typename, // Keep original typename for system logic
       depth,
       isRoot,
-      fieldType: 'object', // Can be enhanced later to distinguish scalar/list
+      fieldType: kind === 'ENUM' ? 'scalar' : 'object', // Refined from incoming edges after pass 2
+      kind,
+      fields,
     },
     position: { x: 0, y: 0 }, // Will be calculated by layout algorithm
   };
 }
 
+/**
+ * Creates a path-tree node identified by its field path from the root
+ *
+ * @param parent - Parent node (null for roots)
+ * @param typename - GraphQL type name
+ * @param segment - Field name leading to this node (ignored for roots)
+ * @param type - Introspection data of the node's type
+ * @param options - Transform options
+ * @returns GraphNode whose id is the dotted path (e.g., DeviceType.location.parent)
+ */
+function createPathNode(
+  parent: GraphNode | null,
+  typename: string,
+  segment: string,
+  type: IntrospectionType,
+  options: TransformOptions
+): GraphNode {
+  const depth = parent ? parent.data.depth + 1 : 0;
+  const node = createNode(
+    typename,
+    parent ? segment : null,
+    depth,
+    !parent,
+    type.kind as GraphNodeKind,
+    buildNodeFields(type, options)
+  );
+
+  node.id = parent ? `${parent.id}.${segment}` : typename;
+  node.data.path = parent ? [...(parent.data.path ?? []), segment] : [];
+  return node;
+}
+
 /**
  * Creates an edge between parent and child nodes
  *
  * @param parentId - Source node ID
  * @param childId - Target node ID
- * @param fieldName - Field name for edge label (stored but not displayed by default)
+ * @param fieldName - Field the edge represents (stored on the edge data, not displayed)
+ * @param fieldType - Full (wrapped) type of the field, recorded for cardinality display
+ * @param fromFieldPort - Attach the edge to the field's port instead of the node
  * @returns GraphEdge ready for ReactFlow
  */
 function createEdge(
   parentId: string,
   childId: string,
-  fieldName: string
+  fieldName: string,
+  fieldType: IntrospectionTypeRef,
+  fromFieldPort: boolean = false
 ): GraphEdge {
   return {
     id: `${parentId}-[${fieldName}]-to-${childId}`,
     source: parentId,
     target: childId,
+    sourceHandle: fromFieldPort ? getFieldHandleId(fieldName) : undefined,
     // label: fieldName, // Hidden by default - uncomment to show edge labels
     type: 'default', // Straight edges for tree layout
+    data: {
+      fieldName,
+      fieldTypeSignature: formatTypeRef(fieldType),
+      listDepth: unwrapType(fieldType).listDepth,
+    },
+  };
+}
+
+/**
+ * Creates an edge for a non-field schema relation (implements / member of)
+ *
+ * @param sourceId - Source node ID
+ * @param targetId - Target node ID
+ * @param relation - Relation the edge represents
+ * @returns GraphEdge ready for ReactFlow
+ */
+function createRelationEdge(
+  sourceId: string,
+  targetId: string,
+  relation: EdgeRelation
+): GraphEdge {
+  return {
+    id: `${sourceId}-[${relation}]-to-${targetId}`,
+    source: sourceId,
+    target: targetId,
+    type: 'default',
+    data: {
+      isFK: false,
+      relation,
+    },
   };
 }
 
+/**
+ * Checks whether a referenced type passes the type filter
+ * Interfaces, unions and enums describe the schema rather than data models,
+ * so the model filter is bypassed for them when `includeTypeKinds` is set
+ *
+ * @param typename - Referenced type name
+ * @param kind - GraphQL kind of the referenced type
+ * @param options - Transform options
+ * @returns True if the type should be traversed
+ */
+function isTypeIncluded(
+  typename: string,
+  kind: string,
+  options: TransformOptions
+): boolean {
+  if (options.includeTypeKinds && kind !== 'OBJECT') {
+    return true;
+  }
+  return !options.typeFilter || options.typeFilter(typename);
+}
+
 /**
  * Extracts relationship fields from introspection type
  * Filters out scalars and introspection fields
  *
  * @param type - Introspection type
+ * @param options - Transform options (controls which target kinds count)
  * @returns Array of relationship fields
  */
-function extractRelationshipFields(type: IntrospectionType): IntrospectionField[] {
+function extractRelationshipFields(
+  type: IntrospectionType,
+  options: TransformOptions
+): IntrospectionField[] {
   if (!type.fields) {
     return [];
   }
@@ -161,11 +317,178 @@ function extractRelationshipFields(type: IntrospectionType): IntrospectionField[
       return false;
     }
 
-    // Only include OBJECT and INTERFACE types
-    return unwrapped.kind === 'OBJECT' || unwrapped.kind === 'INTERFACE';
+    // Only include OBJECT and INTERFACE types (plus UNION and ENUM when enabled)
+    const targetKinds = options.includeTypeKinds ? EXTENDED_TARGET_KINDS : DEFAULT_TARGET_KINDS;
+    return targetKinds.has(unwrapped.kind);
   });
 }
 
+/**
+ * Extracts interface implementations and union/interface members of a type
+ *
+ * @param type - Introspection type
+ * @returns Relations to other types (empty if the type has none)
+ */
+function extractTypeRelations(type: IntrospectionType): TypeRelation[] {
+  const relations: TypeRelation[] = [];
+
+  // Object (or interface) implements interfaces: edge points at the interface
+  for (const iface of type.interfaces || []) {
+    if (!iface.name) continue;
+    relations.push({
+      typename: iface.name,
+      kind: 'INTERFACE',
+      relation: 'implements',
+      childIsSource: false,
+    });
+  }
+
+  // Interface implementors / union members: edge points back at this type
+  for (const member of type.possibleTypes || []) {
+    if (!member.name) continue;
+    relations.push({
+      typename: member.name,
+      kind: member.kind,
+      relation: type.kind === 'UNION' ? 'memberOf' : 'implements',
+      childIsSource: true,
+    });
+  }
+
+  return relations;
+}
+
+/**
+ * Builds the field rows shown inside a node
+ * Relationship fields that are traversed become ports (`showFieldNodes`);
+ * every other field goes to the collapsible field list (`includeScalars`)
+ *
+ * @param type - Introspection type
+ * @param options - Transform options
+ * @returns Field rows, or undefined when neither option is enabled
+ */
+function buildNodeFields(
+  type: IntrospectionType,
+  options: TransformOptions
+): GraphNodeField[] | undefined {
+  if (!options.showFieldNodes && !options.includeScalars) {
+    return undefined;
+  }
+
+  const portNames = new Set(
+    extractRelationshipFields(type, options)
+      .filter((field) => {
+        const unwrapped = unwrapType(field.type);
+        return isTypeIncluded(unwrapped.name, unwrapped.kind, options);
+      })
+      .map((field) => field.name)
+  );
+
+  const fields: GraphNodeField[] = [];
+  for (const field of type.fields || []) {
+    if (field.name.startsWith('__')) continue;
+
+    const isPort = portNames.has(field.name);
+    if (isPort ? !options.showFieldNodes : !options.includeScalars) continue;
+
+    fields.push({
+      name: field.name,
+      typename: unwrapType(field.type).name,
+      typeSignature: formatTypeRef(field.type),
+      fieldType: classifyFieldType(field.type),
+      isPort,
+    });
+  }
+
+  return fields;
+}
+
+/**
+ * Marks nodes reached through list fields as 'list'
+ * A type can be reached by several fields; any list field wins
+ *
+ * @param nodes - Nodes to update in place
+ * @param edges - Edges between the nodes
+ */
+function assignNodeFieldTypes(nodes: GraphNode[], edges: GraphEdge[]): void {
+  const listTargets = new Set(
+    edges
+      .filter((edge) => (edge.data?.listDepth ?? 0) > 0)
+      .map((edge) => edge.target)
+  );
+
+  for (const node of nodes) {
+    if (listTargets.has(node.id) && node.data.fieldType === 'object') {
+      node.data.fieldType = 'list';
+    }
+  }
+}
+
+/**
+ * Flags the field edges that close a cycle of the type graph: edges whose ends
+ * share a strongly connected component (Tarjan's algorithm) and that point
+ * back to the same or a shallower depth. Self-references always qualify.
+ *
+ * @param nodes - Graph nodes
+ * @param edges - Graph edges, updated in place
+ */
+function markCycleEdges(nodes: GraphNode[], edges: GraphEdge[]): void {
+  const adjacency = new Map<string, string[]>(nodes.map(node => [node.id, []]));
+  for (const edge of edges) {
+    adjacency.get(edge.source)?.push(edge.target);
+  }
+
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const component = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  let nextIndex = 0;
+  let nextComponent = 0;
+
+  const connect = (id: string): void => {
+    index.set(id, nextIndex);
+    lowLink.set(id, nextIndex);
+    nextIndex++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const target of adjacency.get(id) ?? []) {
+      if (!index.has(target)) {
+        connect(target);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(target)!));
+      } else if (onStack.has(target)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(target)!));
+      }
+    }
+
+    if (lowLink.get(id) === index.get(id)) {
+      let member: string | undefined;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.set(member, nextComponent);
+      } while (member !== id);
+      nextComponent++;
+    }
+  };
+
+  for (const node of nodes) {
+    if (!index.has(node.id)) connect(node.id);
+  }
+
+  const depths = new Map(nodes.map(node => [node.id, node.data.depth]));
+
+  for (const edge of edges) {
+    if (edge.data?.relation) continue;
+    if (
+      component.get(edge.source) === component.get(edge.target) &&
+      depths.get(edge.target)! <= depths.get(edge.source)!
+    ) {
+      edge.data = { ...edge.data, isCycle: true };
+    }
+  }
+}
+
 // ============================================================================
 // Core Transformation Functions
 // ============================================================================
@@ -215,17 +538,25 @@ function createNodeForType(
 
   // Create node for this type
   const isRoot = currentDepth === 0;
-  const node = createNode(typename, null, currentDepth, isRoot);
+  const node = createNode(
+    typename,
+    null,
+    currentDepth,
+    isRoot,
+    typeInfo.kind as GraphNodeKind,
+    buildNodeFields(typeInfo, options)
+  );
   nodes.push(node);
 
   // Update stats
   stats.nodesPerDepth[currentDepth] = (stats.nodesPerDepth[currentDepth] || 0) + 1;
 
-  // Track filtered scalar fields
-  const relationshipFields = extractRelationshipFields(typeInfo);
-  const totalFields = typeInfo.fields?.length || 0;
-  const filteredCount = totalFields - relationshipFields.length;
-  stats.filteredNodes += filteredCount;
+  // Track filtered scalar fields (shown in the node's field list with includeScalars)
+  if (!options.includeScalars) {
+    const relationshipFields = extractRelationshipFields(typeInfo, options);
+    const totalFields = typeInfo.fields?.length || 0;
+    stats.filteredNodes += totalFields - relationshipFields.length;
+  }
 }
 
 /**
@@ -257,7 +588,7 @@ function createEdgesBetweenNodes(
     if (!typeInfo) continue;
 
     // Get relationship fields for this type
-    const relationshipFields = extractRelationshipFields(typeInfo);
+    const relationshipFields = extractRelationshipFields(typeInfo, options);
 
     // Create edge for each relationship field
     for (const field of relationshipFields) {
@@ -265,7 +596,7 @@ function createEdgesBetweenNodes(
       const childTypename = unwrapped.name;
 
       // Apply custom type filter if provided
-      if (options.typeFilter && !options.typeFilter(childTypename)) {
+      if (!isTypeIncluded(childTypename, unwrapped.kind, options)) {
         continue;
       }
 
@@ -277,7 +608,13 @@ function createEdgesBetweenNodes(
       // Only create edge if child node exists
       if (childNode) {
         // Create base edge
-        let edge = createEdge(parentNode.id, childNode.id, field.name);
+        let edge = createEdge(
+          parentNode.id,
+          childNode.id,
+          field.name,
+          field.type,
+          options.showFieldNodes
+        );
 
         // Enhance edge with FK metadata if available
         edge = enhanceEdgeWithFK(
@@ -290,6 +627,25 @@ function createEdgesBetweenNodes(
         edges.push(edge);
       }
     }
+
+    if (!options.includeTypeKinds) continue;
+
+    // Create implements / member-of edges
+    for (const relation of extractTypeRelations(typeInfo)) {
+      if (!isTypeIncluded(relation.typename, relation.kind, options)) {
+        continue;
+      }
+
+      const childKey = `${relation.typename}:${parentNode.data.depth + 1}`;
+      const childNode = nodeMap.get(childKey);
+      if (!childNode) continue;
+
+      edges.push(
+        relation.childIsSource
+          ? createRelationEdge(childNode.id, parentNode.id, relation.relation)
+          : createRelationEdge(parentNode.id, childNode.id, relation.relation)
+      );
+    }
   }
 
   return edges;
@@ -309,17 +665,26 @@ function getReferencedTypes(
     const typeInfo = typeData.get(typename);
     if (!typeInfo) continue;
 
-    const fields = extractRelationshipFields(typeInfo);
+    const fields = extractRelationshipFields(typeInfo, options);
     for (const field of fields) {
       const unwrapped = unwrapType(field.type);
 
       // Apply custom filter if provided
-      if (options.typeFilter && !options.typeFilter(unwrapped.name)) {
+      if (!isTypeIncluded(unwrapped.name, unwrapped.kind, options)) {
         continue;
       }
 
       referenced.add(unwrapped.name);
     }
+
+    if (!options.includeTypeKinds) continue;
+
+    // Follow interface implementations and union/interface members
+    for (const relation of extractTypeRelations(typeInfo)) {
+      if (isTypeIncluded(relation.typename, relation.kind, options)) {
+        referenced.add(relation.typename);
+      }
+    }
   }
 
   return Array.from(referenced);
@@ -327,36 +692,94 @@ function getReferencedTypes(
 
 
 /**
- * Transforms GraphQL introspection data into graph nodes and edges
- * Uses two-pass approach: Pass 1 creates all nodes, Pass 2 creates all edges
+ * Fetches types not yet in the working set and adds them to it
  *
- * @param rootTypes - Array of root type names selected by user
- * @param typeData - Map of typename to introspection data
- * @param options - Transform options including depth and filters
+ * @param typenames - Types needed at this depth
+ * @param depth - Current depth (for logging)
+ * @param allTypeData - Working set of type data, updated in place
+ * @param stats - Statistics accumulator
+ * @param fetchTypes - Function to fetch missing types (no-op if absent)
+ * @param signal - Optional abort signal
+ * @param onProgress - Optional progress callback
+ */
+async function loadMissingTypes(
+  typenames: string[],
+  depth: number,
+  allTypeData: Map<string, IntrospectionType>,
+  stats: { typesFetched: number },
+  fetchTypes?: TypeFetcher,
+  signal?: AbortSignal,
+  onProgress?: ProgressCallback
+): Promise<void> {
+  // Find missing types
+  const missingTypes = Array.from(new Set(typenames)).filter(t => !allTypeData.has(t));
+
+  if (missingTypes.length === 0 || !fetchTypes) {
+    return;
+  }
+
+  let typesToFetch = missingTypes;
+
+  // Limit types per depth
+  if (typesToFetch.length > MAX_TYPES_PER_DEPTH) {
+    console.warn(`Too many types at depth ${depth}: ${typesToFetch.length}, limiting to ${MAX_TYPES_PER_DEPTH}`);
+    typesToFetch = typesToFetch.slice(0, MAX_TYPES_PER_DEPTH);
+  }
+
+  onProgress?.({
+    stage: 'fetching',
+    depth,
+    typesRequested: typesToFetch.length,
+    typesFetched: stats.typesFetched,
+  });
+
+  console.log(`Auto-fetching types at depth ${depth}:`, {
+    typesToFetch,
+    count: typesToFetch.length,
+  });
+
+  const startTime = Date.now();
+  const fetchedTypes = await fetchTypes(typesToFetch, signal);
+  const duration = Date.now() - startTime;
+
+  console.log('Types fetched:', {
+    requested: typesToFetch.length,
+    successful: fetchedTypes.size,
+    duration: `${duration}ms`,
+  });
+
+  // Add fetched types to our working set
+  fetchedTypes.forEach((type, name) => {
+    allTypeData.set(name, type);
+  });
+
+  stats.typesFetched += fetchedTypes.size;
+}
+
+/**
+ * Builds the layered (merged) graph: one node per type per depth
+ * Pass 1 creates all nodes breadth-first, Pass 2 creates all edges
+ *
+ * @param rootTypes - Root type names
+ * @param allTypeData - Working set of type data, updated in place
+ * @param options - Transform options
+ * @param stats - Statistics accumulator
  * @param fetchTypes - Function to fetch missing types
- * @returns Graph nodes, edges, and statistics
+ * @param signal - Optional abort signal
+ * @param onProgress - Optional progress callback
+ * @returns Layered nodes and edges
  */
-export async function buildGraphFromIntrospection(
+async function buildLayeredGraph(
   rootTypes: string[],
-  typeData: Map<string, IntrospectionType>,
+  allTypeData: Map<string, IntrospectionType>,
   options: TransformOptions,
-  fetchTypes?: TypeFetcher
-): Promise<GraphTransformResult> {
-  console.log('Transforming introspection data:', {
-    roots: rootTypes,
-    maxDepth: options.maxDepth,
-    availableTypes: typeData.size,
-    autoFetch: !!fetchTypes,
-  });
-
-  const allTypeData = new Map(typeData);
+  stats: { filteredNodes: number; nodesPerDepth: Record<number, number>; typesFetched: number },
+  fetchTypes?: TypeFetcher,
+  signal?: AbortSignal,
+  onProgress?: ProgressCallback
+): Promise<{ nodes: GraphNode[]; edges: GraphEdge[] }> {
   const nodes: GraphNode[] = [];
   const visited = new Set<string>();
-  const stats = {
-    filteredNodes: 0,
-    nodesPerDepth: {} as Record<number, number>,
-    typesFetched: 0,
-  };
 
   // ============================================================================
   // PASS 1: Create all nodes breadth-first (no edges, no recursion)
@@ -365,46 +788,14 @@ export async function buildGraphFromIntrospection(
   let currentTypes = rootTypes;
 
   for (let depth = 0; depth < options.maxDepth; depth++) {
+    signal?.throwIfAborted();
+
     // Filter out already visited types at this depth
     const typesToProcess = currentTypes.filter(t => !visited.has(`${t}:${depth}`));
 
     if (typesToProcess.length === 0) break;
 
-    // Find missing types
-    const missingTypes = typesToProcess.filter(t => !allTypeData.has(t));
-
-    // Auto-fetch missing types if fetcher is provided
-    if (missingTypes.length > 0 && fetchTypes) {
-      let typesToFetch = missingTypes;
-
-      // Limit types per depth
-      if (typesToFetch.length > MAX_TYPES_PER_DEPTH) {
-        console.warn(`Too many types at depth ${depth}: ${typesToFetch.length}, limiting to ${MAX_TYPES_PER_DEPTH}`);
-        typesToFetch = typesToFetch.slice(0, MAX_TYPES_PER_DEPTH);
-      }
-
-      console.log(`Auto-fetching types at depth ${depth}:`, {
-        typesToFetch,
-        count: typesToFetch.length,
-      });
-
-      const startTime = Date.now();
-      const fetchedTypes = await fetchTypes(typesToFetch);
-      const duration = Date.now() - startTime;
-
-      console.log('Types fetched:', {
-        requested: typesToFetch.length,
-        successful: fetchedTypes.size,
-        duration: `${duration}ms`,
-      });
-
-      // Add fetched types to our working set
-      fetchedTypes.forEach((type, name) => {
-        allTypeData.set(name, type);
-      });
-
-      stats.typesFetched += fetchedTypes.size;
-    }
+    await loadMissingTypes(typesToProcess, depth, allTypeData, stats, fetchTypes, signal, onProgress);
 
     // Create nodes for types at current depth (no recursion)
     for (const typename of typesToProcess) {
@@ -418,6 +809,7 @@ export async function buildGraphFromIntrospection(
         stats
       );
     }
+    onProgress?.({ stage: 'nodes', depth, nodesCreated: nodes.length, typesFetched: stats.typesFetched });
 
     // Get referenced types for next depth
     currentTypes = getReferencedTypes(allTypeData, typesToProcess, options);
@@ -429,15 +821,286 @@ export async function buildGraphFromIntrospection(
 
   const edges = createEdgesBetweenNodes(nodes, allTypeData, options);
 
-  // ============================================================================
-  // PASS 3: Apply tree layout to position nodes
-  // ============================================================================
+  return { nodes, edges };
+}
+
+/**
+ * Builds a path tree: every field traversal gets its own node, so
+ * `Device.location` and `Device.interfaces.device.location` stay distinct
+ * and every edge corresponds to an actual field on its parent
+ *
+ * @param rootTypes - Root type names
+ * @param allTypeData - Working set of type data, updated in place
+ * @param options - Transform options
+ * @param stats - Statistics accumulator
+ * @param fetchTypes - Function to fetch missing types
+ * @param signal - Optional abort signal
+ * @param onProgress - Optional progress callback
+ * @returns Path-tree nodes and edges
+ */
+async function buildPathTree(
+  rootTypes: string[],
+  allTypeData: Map<string, IntrospectionType>,
+  options: TransformOptions,
+  stats: { filteredNodes: number; nodesPerDepth: Record<number, number>; typesFetched: number },
+  fetchTypes?: TypeFetcher,
+  signal?: AbortSignal,
+  onProgress?: ProgressCallback
+): Promise<{ nodes: GraphNode[]; edges: GraphEdge[] }> {
+  const nodes: GraphNode[] = [];
+  const edges: GraphEdge[] = [];
+  let frontier: GraphNode[] = [];
+  let pending: PendingPathNode[] = [];
+
+  for (let depth = 0; depth < options.maxDepth; depth++) {
+    signal?.throwIfAborted();
+
+    const typenames = depth === 0 ? rootTypes : pending.map(p => p.typename);
+    if (typenames.length === 0) break;
+
+    await loadMissingTypes(typenames, depth, allTypeData, stats, fetchTypes, signal, onProgress);
+
+    // Create this depth's nodes (and the edges leading to them)
+    frontier = [];
+    if (depth === 0) {
+      for (const typename of rootTypes) {
+        const type = allTypeData.get(typename);
+        if (!type) {
+          console.warn('Referenced type not available:', { typename, depth });
+          continue;
+        }
+        frontier.push(createPathNode(null, typename, '', type, options));
+      }
+    } else {
+      for (const item of pending) {
+        const type = allTypeData.get(item.typename);
+        if (!type) {
+          console.warn('Referenced type not available:', { typename: item.typename, depth });
+          continue;
+        }
+
+        const child = createPathNode(item.parent, item.typename, item.segment, type, options);
+        if (item.relation) {
+          // Relation segments are not field names - label with the type instead
+          child.data.label = cleanTypenameForDisplay(item.typename);
+        }
+        frontier.push(child);
+
+        if (item.relation) {
+          edges.push(
+            item.relation.childIsSource
+              ? createRelationEdge(child.id, item.parent.id, item.relation.relation)
+              : createRelationEdge(item.parent.id, child.id, item.relation.relation)
+          );
+        } else if (item.fieldType) {
+          edges.push(
+            enhanceEdgeWithFK(
+              createEdge(item.parent.id, child.id, item.segment, item.fieldType, options.showFieldNodes),
+              item.parent.data.typename,
+              item.segment,
+              options.fkLookup ?? null
+            )
+          );
+        }
+      }
+    }
+
+    nodes.push(...frontier);
+    if (frontier.length > 0) {
+      stats.nodesPerDepth[depth] = frontier.length;
+    }
+    onProgress?.({ stage: 'nodes', depth, nodesCreated: nodes.length, typesFetched: stats.typesFetched });
+
+    // Queue children for the next depth
+    pending = [];
+    let budget = MAX_PATH_NODES - nodes.length;
+
+    for (const parent of frontier) {
+      const type = allTypeData.get(parent.data.typename);
+      if (!type) continue;
+
+      for (const field of extractRelationshipFields(type, options)) {
+        const unwrapped = unwrapType(field.type);
+        if (!isTypeIncluded(unwrapped.name, unwrapped.kind, options)) continue;
+        pending.push({ parent, typename: unwrapped.name, segment: field.name, fieldType: field.type });
+      }
+
+      if (options.includeTypeKinds) {
+        for (const relation of extractTypeRelations(type)) {
+          if (!isTypeIncluded(relation.typename, relation.kind, options)) continue;
+          pending.push({
+            parent,
+            typename: relation.typename,
+            segment: `${relation.relation}:${relation.typename}`,
+            relation,
+          });
+        }
+      }
+    }
+
+    if (depth + 1 < options.maxDepth && pending.length > budget) {
+      console.warn(`Path tree limited to ${MAX_PATH_NODES} nodes; dropping ${pending.length - budget} paths at depth ${depth + 1}`);
+      budget = Math.max(budget, 0);
+      pending = pending.slice(0, budget);
+    }
+  }
+
+  return { nodes, edges };
+}
+
+/**
+ * Builds the schema graph: one node per type (at its shortest distance from
+ * a root) and one edge per relationship field, including edges back to
+ * types already placed, so cycles stay visible
+ *
+ * @param rootTypes - Root type names
+ * @param allTypeData - Working set of type data, updated in place
+ * @param options - Transform options
+ * @param stats - Statistics accumulator
+ * @param fetchTypes - Function to fetch missing types
+ * @param signal - Optional abort signal
+ * @param onProgress - Optional progress callback
+ * @returns Schema graph nodes and edges
+ */
+async function buildSchemaGraph(
+  rootTypes: string[],
+  allTypeData: Map<string, IntrospectionType>,
+  options: TransformOptions,
+  stats: { filteredNodes: number; nodesPerDepth: Record<number, number>; typesFetched: number },
+  fetchTypes?: TypeFetcher,
+  signal?: AbortSignal,
+  onProgress?: ProgressCallback
+): Promise<{ nodes: GraphNode[]; edges: GraphEdge[] }> {
+  const nodes: GraphNode[] = [];
+  const nodeMap = new Map<string, GraphNode>();
+  let currentTypes = rootTypes;
+
+  // Pass 1: place each reachable type once, breadth-first
+  for (let depth = 0; depth < options.maxDepth; depth++) {
+    signal?.throwIfAborted();
+
+    const typesToProcess = currentTypes.filter(t => !nodeMap.has(t));
+    if (typesToProcess.length === 0) break;
+
+    await loadMissingTypes(typesToProcess, depth, allTypeData, stats, fetchTypes, signal, onProgress);
+
+    const placed: string[] = [];
+    for (const typename of typesToProcess) {
+      const type = allTypeData.get(typename);
+      if (!type) {
+        console.warn('Referenced type not available:', { typename, depth });
+        continue;
+      }
+
+      const node = createNode(
+        typename,
+        null,
+        depth,
+        depth === 0,
+        type.kind as GraphNodeKind,
+        buildNodeFields(type, options)
+      );
+      node.id = typename;
+      nodes.push(node);
+      nodeMap.set(typename, node);
+      placed.push(typename);
+    }
+
+    if (placed.length > 0) {
+      stats.nodesPerDepth[depth] = placed.length;
+    }
+    onProgress?.({ stage: 'nodes', depth, nodesCreated: nodes.length, typesFetched: stats.typesFetched });
+
+    currentTypes = getReferencedTypes(allTypeData, placed, options);
+  }
+
+  // Pass 2: one edge per field between placed types, in any direction
+  const edges: GraphEdge[] = [];
+  const relationEdgeIds = new Set<string>();
+  for (const parentNode of nodes) {
+    const typeInfo = allTypeData.get(parentNode.data.typename);
+    if (!typeInfo) continue;
+
+    for (const field of extractRelationshipFields(typeInfo, options)) {
+      const childNode = nodeMap.get(unwrapType(field.type).name);
+      if (!childNode) continue;
+
+      edges.push(
+        enhanceEdgeWithFK(
+          createEdge(parentNode.id, childNode.id, field.name, field.type, options.showFieldNodes),
+          parentNode.data.typename,
+          field.name,
+          options.fkLookup ?? null
+        )
+      );
+    }
+
+    if (!options.includeTypeKinds) continue;
+
+    // An implements relation is listed on both types - keep the first edge
+    for (const relation of extractTypeRelations(typeInfo)) {
+      const relatedNode = nodeMap.get(relation.typename);
+      if (!relatedNode) continue;
+
+      const edge = relation.childIsSource
+        ? createRelationEdge(relatedNode.id, parentNode.id, relation.relation)
+        : createRelationEdge(parentNode.id, relatedNode.id, relation.relation);
+      if (!relationEdgeIds.has(edge.id)) {
+        relationEdgeIds.add(edge.id);
+        edges.push(edge);
+      }
+    }
+  }
+
+  markCycleEdges(nodes, edges);
+  return { nodes, edges };
+}
+
+/**
+ * Transforms GraphQL introspection data into graph nodes and edges
+ * Builds a layered graph (default), a path tree or the schema graph depending on `graphMode`
+ *
+ * @param rootTypes - Array of root type names selected by user
+ * @param typeData - Map of typename to introspection data
+ * @param options - Transform options including depth and filters
+ * @param fetchTypes - Function to fetch missing types
+ * @param signal - Aborts auto-fetching and stops the build between depths
+ * @param onProgress - Called as types are fetched and each depth's nodes are created
+ * @returns Graph nodes, edges, and statistics
+ * @throws AbortError if the signal aborts before the build completes
+ */
+export async function buildGraphFromIntrospection(
+  rootTypes: string[],
+  typeData: Map<string, IntrospectionType>,
+  options: TransformOptions,
+  fetchTypes?: TypeFetcher,
+  signal?: AbortSignal,
+  onProgress?: ProgressCallback
+): Promise<GraphTransformResult> {
+  console.log('Transforming introspection data:', {
+    roots: rootTypes,
+    maxDepth: options.maxDepth,
+    availableTypes: typeData.size,
+    autoFetch: !!fetchTypes,
+  });
+
+  const allTypeData = new Map(typeData);
+  const stats = {
+    filteredNodes: 0,
+    nodesPerDepth: {} as Record<number, number>,
+    typesFetched: 0,
+  };
 
-  applyTreeLayout(nodes);
+  const build = options.graphMode === 'paths'
+    ? buildPathTree
+    : options.graphMode === 'schema' ? buildSchemaGraph : buildLayeredGraph;
+  const { nodes, edges } = await build(rootTypes, allTypeData, options, stats, fetchTypes, signal, onProgress);
+  assignNodeFieldTypes(nodes, edges);
 
   const result: GraphTransformResult = {
     nodes,
     edges,
+    typeData: allTypeData,
     stats: {
       totalNodes: nodes.length,
       totalEdges: edges.length,
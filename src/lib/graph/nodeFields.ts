@@ -0,0 +1,77 @@
+import { IntrospectionTypeRef } from '../graphql/introspection';
+import { isScalarType } from '../graphql/typeKinds';
+import { unwrapType } from '../graphql/typeRef';
+import { GraphFieldType, GraphNode } from './types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Kinds that end a selection (no sub-fields) */
+const LEAF_KINDS = new Set(['SCALAR', 'ENUM']);
+
+/** Prefix of per-field source handle ids on field-level nodes */
+const FIELD_HANDLE_PREFIX = 'field:';
+
+/** Estimated node dimensions used to space field-level nodes in layouts */
+const NODE_HEADER_HEIGHT = 44;
+const FIELD_ROW_HEIGHT = 22;
+const FIELD_TOGGLE_HEIGHT = 24;
+const NODE_MIN_WIDTH = 180;
+const FIELD_NODE_WIDTH = 280;
+
+// ============================================================================
+// Main Functions
+// ============================================================================
+
+/**
+ * Classifies a field's (wrapped) type for display
+ * Leaf types (scalars, enums) are 'scalar'; composite types are 'list' when
+ * wrapped in at least one list, otherwise 'object'
+ *
+ * @param typeRef - Field type reference
+ * @returns Field type classification
+ */
+export function classifyFieldType(typeRef: IntrospectionTypeRef): GraphFieldType {
+  const unwrapped = unwrapType(typeRef);
+
+  if (LEAF_KINDS.has(unwrapped.kind) || isScalarType(unwrapped.name)) {
+    return 'scalar';
+  }
+  return unwrapped.isList ? 'list' : 'object';
+}
+
+/**
+ * Returns the ReactFlow handle id for a relationship field's port
+ *
+ * @param fieldName - Field name on the source type
+ * @returns Handle id used as the edge's `sourceHandle`
+ */
+export function getFieldHandleId(fieldName: string): string {
+  return `${FIELD_HANDLE_PREFIX}${fieldName}`;
+}
+
+/**
+ * Estimates the rendered height of a node, accounting for field ports
+ * (the collapsible field list is collapsed by default and not counted)
+ *
+ * @param node - Graph node
+ * @returns Approximate height in pixels
+ */
+export function estimateNodeHeight(node: GraphNode): number {
+  const fields = node.data.fields ?? [];
+  const ports = fields.filter((field) => field.isPort).length;
+  const hasList = fields.length > ports;
+
+  return NODE_HEADER_HEIGHT + ports * FIELD_ROW_HEIGHT + (hasList ? FIELD_TOGGLE_HEIGHT : 0);
+}
+
+/**
+ * Estimates the rendered width of a node (field rows need room for type badges)
+ *
+ * @param node - Graph node
+ * @returns Approximate width in pixels
+ */
+export function estimateNodeWidth(node: GraphNode): number {
+  return node.data.fields?.length ? FIELD_NODE_WIDTH : NODE_MIN_WIDTH;
+}
@@ -0,0 +1,248 @@
+/**
+ * Path Finder - Shortest relationship paths between two types
+ *
+ * Searches the schema's relationship fields breadth-first, fetching types as
+ * the search reaches them, so paths are found independently of the depth
+ * and filters of the rendered graph. Every shortest path is returned (up to
+ * a limit), not just the first one found.
+ */
+
+import { IntrospectionType } from '../graphql/introspection';
+import { isRelationshipField } from '../graphql/typeKinds';
+import { unwrapType } from '../graphql/typeRef';
+import { FKLookupMap } from '../../types/fkMetadata';
+import { isFK } from '../../utils/fkLookup';
+import { TypeFetcher } from './graphqlTransformer';
+import { GraphEdge, GraphNode } from './types';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * One hop of a path: a relationship field from one type to another
+ */
+export interface PathStep {
+  source: string;
+  field: string;
+  target: string;
+  /** Field is backed by a foreign key */
+  isFK: boolean;
+  /** Number of list wrappers on the field type (0 = to-one) */
+  listDepth: number;
+}
+
+export type RelationshipPath = PathStep[];
+
+export interface PathFinderOptions {
+  /** Follow FK-backed fields only */
+  fkOnly?: boolean;
+  /** Longest path searched, in hops */
+  maxHops?: number;
+  /** Types a path may not pass through (the endpoints are always allowed) */
+  excludedTypes?: string[];
+  signal?: AbortSignal;
+}
+
+export interface PathFinderResult {
+  /** Shortest paths, sorted by their field names; empty if none was found */
+  paths: RelationshipPath[];
+  /** Length of the shortest paths, null if none was found */
+  hops: number | null;
+  /** More shortest paths exist than were returned */
+  truncated: boolean;
+  /** Types the search expanded */
+  typesSearched: number;
+}
+
+/**
+ * How a rendered node or edge relates to the highlighted paths
+ */
+export type PathState = 'highlighted' | 'dimmed';
+
+/**
+ * Graph elements lying on a set of paths
+ */
+export interface PathHighlight {
+  nodeIds: Set<string>;
+  edgeIds: Set<string>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_MAX_HOPS = 6;
+
+/** Shortest paths returned at most (their number grows combinatorially) */
+const MAX_PATHS = 50;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Lists every path from the source to `typename`, walking the predecessor
+ * steps back; stops once `limit` paths are collected
+ */
+function collectPaths(
+  typename: string,
+  source: string,
+  predecessors: Map<string, PathStep[]>,
+  limit: number
+): RelationshipPath[] {
+  if (typename === source) {
+    return [[]];
+  }
+
+  const paths: RelationshipPath[] = [];
+  for (const step of predecessors.get(typename) ?? []) {
+    for (const prefix of collectPaths(step.source, source, predecessors, limit - paths.length)) {
+      paths.push([...prefix, step]);
+      if (paths.length >= limit) {
+        return paths;
+      }
+    }
+  }
+  return paths;
+}
+
+/**
+ * Readable form of a path, e.g. `InterfaceType.device → DeviceType.location → LocationType`
+ *
+ * @param path - Path to describe
+ * @returns Path as text
+ */
+export function formatPath(path: RelationshipPath): string {
+  if (path.length === 0) {
+    return '';
+  }
+  return [...path.map((step) => `${step.source}.${step.field}`), path[path.length - 1].target].join(' → ');
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Finds the shortest relationship paths from one type to another
+ *
+ * @param source - Type the paths start at
+ * @param target - Type the paths end at
+ * @param fetchTypes - Fetcher for introspection data of the types reached
+ * @param fkLookup - FK lookup map (null: no field counts as a FK)
+ * @param options - Search constraints
+ * @returns Shortest paths found within the hop limit
+ * @throws AbortError if the signal aborts the search
+ */
+export async function findShortestPaths(
+  source: string,
+  target: string,
+  fetchTypes: TypeFetcher,
+  fkLookup: FKLookupMap | null,
+  options: PathFinderOptions = {}
+): Promise<PathFinderResult> {
+  const { fkOnly = false, maxHops = DEFAULT_MAX_HOPS, excludedTypes = [], signal } = options;
+  const excluded = new Set(excludedTypes.filter((typename) => typename !== source && typename !== target));
+
+  const types = new Map<string, IntrospectionType>();
+  const distances = new Map<string, number>([[source, 0]]);
+  const predecessors = new Map<string, PathStep[]>();
+  let frontier = [source];
+  let hops = 0;
+  let typesSearched = 0;
+
+  while (frontier.length > 0 && hops < maxHops && !distances.has(target)) {
+    signal?.throwIfAborted();
+
+    const missing = frontier.filter((typename) => !types.has(typename));
+    if (missing.length > 0) {
+      const fetched = await fetchTypes(missing, signal);
+      fetched.forEach((type, typename) => types.set(typename, type));
+    }
+
+    hops += 1;
+    const next = new Set<string>();
+    for (const typename of frontier) {
+      const type = types.get(typename);
+      if (!type?.fields) continue;
+      typesSearched += 1;
+
+      for (const field of type.fields) {
+        if (field.name.startsWith('__') || !isRelationshipField(field)) continue;
+
+        const unwrapped = unwrapType(field.type);
+        if (excluded.has(unwrapped.name)) continue;
+
+        const fieldIsFK = fkLookup ? isFK(fkLookup, typename, field.name) : false;
+        if (fkOnly && !fieldIsFK) continue;
+
+        const distance = distances.get(unwrapped.name);
+        if (distance === undefined) {
+          distances.set(unwrapped.name, hops);
+          next.add(unwrapped.name);
+        } else if (distance !== hops) {
+          continue;
+        }
+
+        const steps = predecessors.get(unwrapped.name) ?? [];
+        steps.push({
+          source: typename,
+          field: field.name,
+          target: unwrapped.name,
+          isFK: fieldIsFK,
+          listDepth: unwrapped.listDepth,
+        });
+        predecessors.set(unwrapped.name, steps);
+      }
+    }
+
+    frontier = Array.from(next);
+  }
+
+  if (source === target || !distances.has(target)) {
+    return { paths: [], hops: null, truncated: false, typesSearched };
+  }
+
+  const paths = collectPaths(target, source, predecessors, MAX_PATHS + 1)
+    .sort((a, b) => formatPath(a).localeCompare(formatPath(b)));
+
+  return {
+    paths: paths.slice(0, MAX_PATHS),
+    hops: distances.get(target) ?? null,
+    truncated: paths.length > MAX_PATHS,
+    typesSearched,
+  };
+}
+
+/**
+ * Finds the rendered nodes and edges that lie on the given paths
+ * An edge matches a step when its field and both endpoint types match
+ *
+ * @param paths - Paths to highlight
+ * @param nodes - Rendered nodes
+ * @param edges - Rendered edges
+ * @returns Ids of the matching nodes and edges
+ */
+export function getPathHighlight(
+  paths: RelationshipPath[],
+  nodes: GraphNode[],
+  edges: GraphEdge[]
+): PathHighlight {
+  const stepKeys = new Set(paths.flatMap((path) => path.map((step) => `${step.source}.${step.field}>${step.target}`)));
+  const endpoints = new Set(paths.flatMap((path) => (path.length > 0 ? [path[0].source, path[path.length - 1].target] : [])));
+  const typenameById = new Map(nodes.map((node) => [node.id, node.data.typename]));
+
+  const nodeIds = new Set(nodes.filter((node) => endpoints.has(node.data.typename)).map((node) => node.id));
+  const edgeIds = new Set<string>();
+  for (const edge of edges) {
+    const key = `${typenameById.get(edge.source)}.${edge.data?.fieldName}>${typenameById.get(edge.target)}`;
+    if (stepKeys.has(key)) {
+      edgeIds.add(edge.id);
+      nodeIds.add(edge.source);
+      nodeIds.add(edge.target);
+    }
+  }
+
+  return { nodeIds, edgeIds };
+}
@@ -0,0 +1,246 @@
+/**
+ * Schema Diff - Compares two schema snapshots and their FK exports
+ *
+ * Lists added and removed types, added and removed fields, fields whose
+ * type or nullability changed, and FK constraints that changed, both as raw
+ * `sql_export.json` rows and per GraphQL field. The merged type map keeps
+ * removed types and fields so the graph can draw them alongside the rest.
+ */
+
+import { IntrospectionField, IntrospectionType } from '../graphql/introspection';
+import { formatTypeRef } from '../graphql/typeRef';
+import { FKLookupMap, FKMetadata, PgForeignKey } from '../../types/fkMetadata';
+import { buildNameMapper } from '../../utils/nameMapper';
+import { buildFKLookupMap } from '../../utils/fkLookup';
+import { TypeFetcher } from './graphqlTransformer';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type DiffState = 'added' | 'removed' | 'changed';
+
+/**
+ * One side of a comparison
+ */
+export interface SchemaSnapshot {
+  /** Shown in the diff summary (e.g. "Bundled cache", a file name) */
+  label: string;
+  types: Map<string, IntrospectionType>;
+  foreignKeys: PgForeignKey[];
+}
+
+export interface FieldDiff {
+  field: string;
+  state: DiffState;
+  /** Field type in the newer snapshot (the older one for removed fields) */
+  type: string;
+  /** What changed, e.g. "type String → [String]" (changed fields only) */
+  changes: string[];
+}
+
+export interface TypeDiff {
+  typename: string;
+  kind: string;
+  state: DiffState;
+  /** Field differences (empty for added and removed types) */
+  fields: FieldDiff[];
+}
+
+export interface ForeignKeyDiff {
+  state: 'added' | 'removed';
+  foreignKey: PgForeignKey;
+}
+
+export interface SchemaDiff {
+  beforeLabel: string;
+  afterLabel: string;
+  /** Types that differ, by typename */
+  types: TypeDiff[];
+  /** FK constraints only one export has */
+  foreignKeys: ForeignKeyDiff[];
+  /** Types of the newer snapshot plus removed types and fields of the older one */
+  mergedTypes: Map<string, IntrospectionType>;
+}
+
+/**
+ * Diff states to mark on the graph: per type and per `Type.field`
+ */
+export interface SchemaDiffHighlight {
+  types: Map<string, DiffState>;
+  fields: Map<string, Record<string, DiffState>>;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function buildLookup(snapshot: SchemaSnapshot): FKLookupMap {
+  const typenames = Array.from(snapshot.types.keys());
+  return buildFKLookupMap(snapshot.foreignKeys, buildNameMapper(typenames));
+}
+
+function describeFK(metadata: FKMetadata): string {
+  return `${metadata.sourceTable}.${metadata.sourceColumn} → ${metadata.targetTable} (${metadata.cardinality})`;
+}
+
+/**
+ * Differences between two versions of a field
+ */
+function compareFields(
+  typename: string,
+  before: IntrospectionField,
+  after: IntrospectionField,
+  beforeLookup: FKLookupMap,
+  afterLookup: FKLookupMap
+): string[] {
+  const changes: string[] = [];
+  const beforeType = formatTypeRef(before.type);
+  const afterType = formatTypeRef(after.type);
+
+  if (beforeType.replace(/!/g, '') !== afterType.replace(/!/g, '')) {
+    changes.push(`type ${beforeType} → ${afterType}`);
+  } else if (beforeType !== afterType) {
+    changes.push(`nullability ${beforeType} → ${afterType}`);
+  }
+
+  const key = `${typename}.${after.name}`;
+  const beforeFK = beforeLookup.get(key);
+  const afterFK = afterLookup.get(key);
+  if (beforeFK && !afterFK) {
+    changes.push(`FK removed: ${describeFK(beforeFK)}`);
+  } else if (!beforeFK && afterFK) {
+    changes.push(`FK added: ${describeFK(afterFK)}`);
+  } else if (beforeFK && afterFK && describeFK(beforeFK) !== describeFK(afterFK)) {
+    changes.push(`FK ${describeFK(beforeFK)} → ${describeFK(afterFK)}`);
+  }
+
+  return changes;
+}
+
+// ============================================================================
+// Main Functions
+// ============================================================================
+
+/**
+ * Formats a raw FK constraint as "table.column → table.column"
+ *
+ * @param fk - FK row from sql_export.json
+ * @returns Display text (also identifies the constraint)
+ */
+export function formatForeignKey(fk: PgForeignKey): string {
+  return `${fk.source_table}.${fk.source_column} → ${fk.target_table}.${fk.target_column}`;
+}
+
+/**
+ * Compares two schema snapshots
+ *
+ * @param before - Older snapshot
+ * @param after - Newer snapshot
+ * @returns Differing types and FK constraints, plus the merged type map
+ */
+export function diffSchemas(before: SchemaSnapshot, after: SchemaSnapshot): SchemaDiff {
+  const beforeLookup = buildLookup(before);
+  const afterLookup = buildLookup(after);
+  const types: TypeDiff[] = [];
+  const mergedTypes = new Map<string, IntrospectionType>();
+
+  const typenames = new Set([...before.types.keys(), ...after.types.keys()]);
+  for (const typename of Array.from(typenames).sort()) {
+    const beforeType = before.types.get(typename);
+    const afterType = after.types.get(typename);
+
+    if (!beforeType || !afterType) {
+      const type = (afterType ?? beforeType)!;
+      types.push({ typename, kind: type.kind, state: afterType ? 'added' : 'removed', fields: [] });
+      mergedTypes.set(typename, type);
+      continue;
+    }
+
+    const beforeFields = new Map((beforeType.fields ?? []).map((field) => [field.name, field]));
+    const afterFields = new Map((afterType.fields ?? []).map((field) => [field.name, field]));
+    const fields: FieldDiff[] = [];
+
+    const fieldNames = new Set([...beforeFields.keys(), ...afterFields.keys()]);
+    for (const name of Array.from(fieldNames).sort()) {
+      const beforeField = beforeFields.get(name);
+      const afterField = afterFields.get(name);
+      if (!beforeField || !afterField) {
+        const field = (afterField ?? beforeField)!;
+        fields.push({ field: name, state: afterField ? 'added' : 'removed', type: formatTypeRef(field.type), changes: [] });
+        continue;
+      }
+
+      const changes = compareFields(typename, beforeField, afterField, beforeLookup, afterLookup);
+      if (changes.length > 0) {
+        fields.push({ field: name, state: 'changed', type: formatTypeRef(afterField.type), changes });
+      }
+    }
+
+    const kindChanged = beforeType.kind !== afterType.kind;
+    if (fields.length > 0 || kindChanged) {
+      types.push({ typename, kind: afterType.kind, state: 'changed', fields });
+    }
+
+    // Keep removed fields so their edges can be drawn
+    const removed = (beforeType.fields ?? []).filter((field) => !afterFields.has(field.name));
+    mergedTypes.set(
+      typename,
+      removed.length > 0 ? { ...afterType, fields: [...(afterType.fields ?? []), ...removed] } : afterType
+    );
+  }
+
+  const beforeKeys = new Set(before.foreignKeys.map(formatForeignKey));
+  const afterKeys = new Set(after.foreignKeys.map(formatForeignKey));
+  const foreignKeys: ForeignKeyDiff[] = [
+    ...after.foreignKeys
+      .filter((fk) => !beforeKeys.has(formatForeignKey(fk)))
+      .map((foreignKey) => ({ state: 'added' as const, foreignKey })),
+    ...before.foreignKeys
+      .filter((fk) => !afterKeys.has(formatForeignKey(fk)))
+      .map((foreignKey) => ({ state: 'removed' as const, foreignKey })),
+  ].sort((a, b) => formatForeignKey(a.foreignKey).localeCompare(formatForeignKey(b.foreignKey)));
+
+  return { beforeLabel: before.label, afterLabel: after.label, types, foreignKeys, mergedTypes };
+}
+
+/**
+ * Diff states per type and field, for marking the graph
+ *
+ * @param diff - Schema diff
+ * @returns States keyed by typename, and by typename then field name
+ */
+export function getDiffHighlight(diff: SchemaDiff): SchemaDiffHighlight {
+  const types = new Map<string, DiffState>();
+  const fields = new Map<string, Record<string, DiffState>>();
+
+  for (const typeDiff of diff.types) {
+    types.set(typeDiff.typename, typeDiff.state);
+    if (typeDiff.fields.length > 0) {
+      fields.set(
+        typeDiff.typename,
+        Object.fromEntries(typeDiff.fields.map((fieldDiff) => [fieldDiff.field, fieldDiff.state]))
+      );
+    }
+  }
+
+  return { types, fields };
+}
+
+/**
+ * Type fetcher serving a fixed type map, so the graph can be built from the
+ * merged schema of a diff
+ *
+ * @param types - Types to serve
+ * @returns Fetcher returning the requested types it has
+ */
+export function createTypeMapFetcher(types: Map<string, IntrospectionType>): TypeFetcher {
+  return async (typenames) => {
+    const result = new Map<string, IntrospectionType>();
+    for (const typename of typenames) {
+      const type = types.get(typename);
+      if (type) result.set(typename, type);
+    }
+    return result;
+  };
+}
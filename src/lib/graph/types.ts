@@ -1,13 +1,65 @@
 import { Node, Edge } from 'reactflow';
 import { FKMetadata } from '../../types/fkMetadata';
 
+/**
+ * GraphQL type kinds that can be rendered as graph nodes
+ */
+export type GraphNodeKind = 'OBJECT' | 'INTERFACE' | 'UNION' | 'ENUM' | 'INPUT_OBJECT';
+
+/**
+ * What an edge represents in the schema
+ *
+ * - `field`: A relationship field on the source type
+ * - `implements`: Source object type implements the target interface
+ * - `memberOf`: Source object type is a member of the target union
+ */
+export type EdgeRelation = 'field' | 'implements' | 'memberOf';
+
+/**
+ * How the graph is built from the schema
+ *
+ * - `layered`: one node per type per depth; fields reaching the same type
+ *   at the same depth share a node (compact, but merges unrelated paths)
+ * - `paths`: one node per field path from the root (a true traversal tree)
+ * - `schema`: one node per type and one edge per relationship field, with
+ *   cycles drawn explicitly (the canonical type graph)
+ */
+export type GraphMode = 'layered' | 'paths' | 'schema';
+
+/**
+ * Shape of a field's type: a leaf value, a single related object, or a list
+ */
+export type GraphFieldType = 'scalar' | 'object' | 'list';
+
+/**
+ * A field rendered inside a node (field-level nodes mode)
+ */
+export interface GraphNodeField {
+  /** Field name on the node's type */
+  name: string;
+  /** Named type at the core of the field's wrappers */
+  typename: string;
+  /** Full field type in SDL notation (e.g., "[InterfaceType!]!") */
+  typeSignature: string;
+  fieldType: GraphFieldType;
+  /** Relationship field drawn as a port; its edges start at the field's handle */
+  isPort: boolean;
+}
+
 export interface GraphNode extends Node {
   data: {
     label: string;
     typename: string;
     depth: number;
     isRoot: boolean;
-    fieldType?: 'scalar' | 'object' | 'list';
+    /** How the node's type is reached: via list fields, single-object fields, or a leaf (enum) */
+    fieldType?: GraphFieldType;
+    /** GraphQL kind of the type (defaults to OBJECT when absent) */
+    kind?: GraphNodeKind;
+    /** Fields shown inside the node when `showFieldNodes` / `includeScalars` is enabled */
+    fields?: GraphNodeField[];
+    /** Field names from the root to this node (`paths` mode only; empty for roots) */
+    path?: string[];
   };
 }
 
@@ -15,6 +67,21 @@ export interface GraphNode extends Node {
  * FK metadata that can be attached to edge data
  */
 export interface FKEdgeData {
+  /** Schema relation this edge represents (defaults to `field` when absent) */
+  relation?: EdgeRelation;
+
+  /** Field on the source type this edge represents (`field` relation only) */
+  fieldName?: string;
+
+  /** GraphQL type of the field in SDL notation (e.g., "[InterfaceType!]!") */
+  fieldTypeSignature?: string;
+
+  /** Number of nested list wrappers on the field type (0 = to-one) */
+  listDepth?: number;
+
+  /** Edge closes a cycle, pointing back up the type graph (`schema` mode only) */
+  isCycle?: boolean;
+
   /** Whether this edge represents a foreign key relationship */
   isFK?: boolean;
 
@@ -1,6 +1,13 @@
+import {
+  EndpointProfile,
+  ENV_PROFILE_ID,
+  buildAuthHeaders,
+  getActiveProfile,
+} from './profiles';
+
 interface GraphQLClientConfig {
   url: string;
-  apiToken: string;
+  headers: Record<string, string>;
 }
 
 interface GraphQLRequest {
@@ -8,6 +15,20 @@ interface GraphQLRequest {
   variables?: Record<string, any>;
 }
 
+/**
+ * Per-request options for `executeGraphQLQuery`
+ */
+export interface GraphQLRequestOptions {
+  /** Endpoint profile (defaults to the active profile) */
+  profile?: EndpointProfile;
+  /** Aborts the request, including queued and retrying attempts */
+  signal?: AbortSignal;
+  /** Per-attempt timeout in milliseconds */
+  timeoutMs?: number;
+  /** Maximum retries on 429/5xx, timeouts and network errors */
+  maxRetries?: number;
+}
+
 interface GraphQLResponse<T = any> {
   data?: T;
   errors?: Array<{
@@ -17,101 +38,339 @@ interface GraphQLResponse<T = any> {
   }>;
 }
 
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Global cap on concurrent in-flight requests (mirrors the prefetch script's CONCURRENCY_LIMIT) */
+const MAX_CONCURRENT_REQUESTS = 10;
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 10000;
+
+/** Status codes worth retrying: rate limiting and transient server errors */
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+
+// ============================================================================
+// Module State
+// ============================================================================
+
+let activeRequests = 0;
+const slotQueue: Array<() => void> = [];
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
 /**
- * Builds GraphQL endpoint URL from base Nautobot URL
+ * Checks whether an error was caused by aborting a request
+ *
+ * @param error - Caught error
+ * @returns True for AbortError (caller cancelled)
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function createAbortError(): DOMException {
+  return new DOMException('The request was aborted', 'AbortError');
+}
+
+/**
+ * Lets one caller stop waiting on a shared promise without cancelling it
+ * for other callers (e.g., the memoized schema index load)
+ *
+ * @param promise - Shared promise
+ * @param signal - Caller's abort signal
+ * @returns Promise that rejects with AbortError when the signal aborts first
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(createAbortError());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Waits for a free request slot under the global concurrency cap
+ * Queued waiters are dropped if their signal aborts
+ *
+ * @param signal - Optional abort signal
+ */
+function acquireSlot(signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+
+  if (activeRequests < MAX_CONCURRENT_REQUESTS) {
+    activeRequests++;
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve, reject) => {
+    const grant = () => {
+      signal?.removeEventListener('abort', onAbort);
+      activeRequests++;
+      resolve();
+    };
+    const onAbort = () => {
+      const index = slotQueue.indexOf(grant);
+      if (index >= 0) slotQueue.splice(index, 1);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    slotQueue.push(grant);
+  });
+}
+
+/**
+ * Releases a request slot and wakes the next queued request
+ */
+function releaseSlot(): void {
+  activeRequests--;
+  const next = slotQueue.shift();
+  if (next) next();
+}
+
+/**
+ * Sleeps for a delay, rejecting early if the signal aborts
+ *
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional abort signal
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Computes the wait before a retry: exponential backoff with jitter,
+ * or the server's Retry-After header when present
+ *
+ * @param attempt - Zero-based retry attempt
+ * @param retryAfter - Retry-After header value (seconds)
+ * @returns Delay in milliseconds
+ */
+function getRetryDelay(attempt: number, retryAfter: string | null): number {
+  const retryAfterSeconds = retryAfter ? Number(retryAfter) : NaN;
+  if (!Number.isNaN(retryAfterSeconds)) {
+    return Math.min(retryAfterSeconds * 1000, MAX_RETRY_DELAY_MS);
+  }
+
+  const exponential = BASE_RETRY_DELAY_MS * 2 ** attempt;
+  const jitter = Math.random() * BASE_RETRY_DELAY_MS;
+  return Math.min(exponential + jitter, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Builds GraphQL endpoint URL from a profile's base Nautobot URL
  * Ensures proper URL formatting with trailing slashes
- * In development, uses Vite proxy to avoid CORS issues
+ * In development, the build config profile uses the Vite proxy to avoid CORS issues
  *
- * @param baseUrl - Base Nautobot URL from environment
+ * @param profile - Endpoint profile
  * @returns Full GraphQL endpoint URL
  */
-function buildGraphQLEndpoint(baseUrl: string): string {
-  // In development, use the Vite proxy
-  if (import.meta.env.DEV) {
+function buildGraphQLEndpoint(profile: EndpointProfile): string {
+  // In development, use the Vite proxy for the build config profile
+  if (import.meta.env.DEV && profile.id === ENV_PROFILE_ID) {
     return '/api/graphql/';
   }
 
-  // In production, use the full URL
-  const normalizedUrl = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+  // Otherwise, use the full URL
+  const normalizedUrl = profile.url.endsWith('/') ? profile.url : `${profile.url}/`;
   return `${normalizedUrl}api/graphql/`;
 }
 
 /**
- * Creates GraphQL client configuration from environment variables
- * Validates required environment variables are present
+ * Creates GraphQL client configuration from an endpoint profile
+ * Validates that a profile is configured and its auth is complete
  *
- * @throws Error if required environment variables are missing
+ * @param profile - Profile to connect to
+ * @throws Error if no profile is configured, it is offline, or its token is missing
  * @returns GraphQL client configuration
  */
-function createClientConfig(): GraphQLClientConfig {
-  const url = import.meta.env.VITE_NAUTOBOT_URL;
-  const apiToken = import.meta.env.VITE_NAUTOBOT_API_TOKEN;
-
-  if (!url) {
-    throw new Error('VITE_NAUTOBOT_URL is required. Please set it in your .env file.');
+function createClientConfig(profile: EndpointProfile | null): GraphQLClientConfig {
+  if (!profile) {
+    throw new Error(
+      'No Nautobot endpoint configured. Set VITE_NAUTOBOT_URL in your .env file or add a connection profile.'
+    );
   }
 
-  if (!apiToken) {
-    throw new Error('VITE_NAUTOBOT_API_TOKEN is required. Please set it in your .env file.');
+  if (profile.offline) {
+    throw new Error(`"${profile.name}" is an offline schema and has no endpoint to query.`);
   }
 
   return {
-    url: buildGraphQLEndpoint(url),
-    apiToken,
+    url: buildGraphQLEndpoint(profile),
+    headers: buildAuthHeaders(profile),
   };
 }
 
+/**
+ * Performs one fetch attempt with a timeout linked to the caller's signal
+ *
+ * @param config - Client configuration
+ * @param request - GraphQL request body
+ * @param timeoutMs - Attempt timeout
+ * @param signal - Caller's abort signal
+ * @returns Raw fetch response
+ * @throws AbortError if the caller aborted, Error on timeout or network failure
+ */
+async function fetchWithTimeout(
+  config: GraphQLClientConfig,
+  request: GraphQLRequest,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<Response> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    return await fetch(config.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...config.headers,
+      },
+      body: JSON.stringify(request),
+      signal: controller.signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+    if (isAbortError(error)) {
+      throw new Error(`Request timed out after ${timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
 /**
  * Executes a GraphQL query against Nautobot API
- * Handles authentication via API token in headers
+ * Handles authentication via the profile's auth scheme, per-attempt timeouts,
+ * exponential backoff on 429/5xx, cancellation, and a global in-flight cap
  *
  * @param query - GraphQL query string
  * @param variables - Optional query variables
+ * @param options - Profile, abort signal, timeout and retry settings
  * @returns GraphQL response with data or errors
- * @throws Error if network request fails
+ * @throws AbortError if cancelled, Error if the request ultimately fails
  */
 export async function executeGraphQLQuery<T = any>(
   query: string,
-  variables?: Record<string, any>
+  variables?: Record<string, any>,
+  options: GraphQLRequestOptions = {}
 ): Promise<GraphQLResponse<T>> {
-  const config = createClientConfig();
+  const config = createClientConfig(options.profile ?? getActiveProfile());
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const { signal } = options;
 
   const request: GraphQLRequest = {
     query,
     variables: variables || {},
   };
 
-  try {
-    const response = await fetch(config.url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Token ${config.apiToken}`,
-      },
-      body: JSON.stringify(request),
-    });
+  for (let attempt = 0; ; attempt++) {
+    let response: Response | null = null;
+    let failure: Error;
 
-    // Handle HTTP errors
-    if (!response.ok) {
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed: ${response.status} ${response.statusText}`);
-      }
-      throw new Error(`HTTP error: ${response.status} ${response.statusText}`);
-    }
+    await acquireSlot(signal);
+    try {
+      response = await fetchWithTimeout(config, request, timeoutMs, signal);
+
+      if (response.ok) {
+        let result: GraphQLResponse<T> | null = null;
+        try {
+          result = await response.json();
+        } catch (error) {
+          // A body cut off mid-read is retried like a network error; a
+          // non-JSON body (e.g. a proxy or login page) won't change on retry
+          if (!(error instanceof SyntaxError)) {
+            throw error;
+          }
+        }
+
+        if (result) {
+          // Log errors if present
+          if (result.errors) {
+            console.error('GraphQL error:', { errors: result.errors });
+          }
 
-    const result: GraphQLResponse<T> = await response.json();
+          return result;
+        }
 
-    // Log errors if present
-    if (result.errors) {
-      console.error('GraphQL error:', { errors: result.errors });
+        failure = new Error(
+          `Invalid response: ${response.status} ${response.statusText} is not JSON (is the URL a GraphQL endpoint?)`
+        );
+      } else if (response.status === 401 || response.status === 403) {
+        failure = new Error(`Authentication failed: ${response.status} ${response.statusText}`);
+      } else {
+        failure = new Error(`HTTP error: ${response.status} ${response.statusText}`);
+      }
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      // Timeouts and network errors are retryable
+      response = null;
+      failure = error instanceof Error
+        ? error
+        : new Error('Unknown error occurred during GraphQL request');
+    } finally {
+      releaseSlot();
     }
 
-    return result;
-  } catch (error) {
-    if (error instanceof Error) {
-      console.error('GraphQL request failed:', { error: error.message });
-      throw error;
+    const retryable = !response || RETRYABLE_STATUS.has(response.status);
+    if (!retryable || attempt >= maxRetries) {
+      console.error('GraphQL request failed:', { error: failure.message, attempts: attempt + 1 });
+      throw failure;
     }
-    throw new Error('Unknown error occurred during GraphQL request');
+
+    const wait = getRetryDelay(attempt, response?.headers.get('Retry-After') ?? null);
+    console.warn('GraphQL request failed, retrying:', {
+      error: failure.message,
+      attempt: attempt + 1,
+      retryInMs: Math.round(wait),
+    });
+    await delay(wait, signal);
   }
 }
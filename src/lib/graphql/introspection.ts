@@ -1,4 +1,8 @@
-import { executeGraphQLQuery } from './client';
+import { executeGraphQLQuery, isAbortError } from './client';
+import { buildSchemaIndex, loadSchemaIndex, prefersLiveSchema, reportBundledSchema, SchemaIndex } from './schemaLoader';
+import { getBundledSchema } from './schemaFile';
+import { buildTypeRefSelection } from './typeRef';
+import { ENV_PROFILE_ID, getActiveProfile } from './profiles';
 import schemaCache from '../../data/schema-cache.json';
 
 // ============================================================================
@@ -10,6 +14,8 @@ export interface IntrospectionField {
   description?: string;
   type: IntrospectionTypeRef;
   args?: IntrospectionInputValue[];
+  isDeprecated?: boolean;
+  deprecationReason?: string | null;
 }
 
 export interface IntrospectionTypeRef {
@@ -24,6 +30,19 @@ export interface IntrospectionType {
   description?: string;
   fields?: IntrospectionField[];
   interfaces?: IntrospectionTypeRef[];
+  /** Concrete types implementing an INTERFACE or belonging to a UNION */
+  possibleTypes?: IntrospectionTypeRef[];
+  /** Allowed values of an ENUM */
+  enumValues?: IntrospectionEnumValue[];
+  /** Fields of an INPUT_OBJECT */
+  inputFields?: IntrospectionInputValue[];
+}
+
+export interface IntrospectionEnumValue {
+  name: string;
+  description?: string;
+  isDeprecated?: boolean;
+  deprecationReason?: string | null;
 }
 
 export interface IntrospectionInputValue {
@@ -33,6 +52,13 @@ export interface IntrospectionInputValue {
   defaultValue?: string;
 }
 
+export interface IntrospectionSchema {
+  queryType?: { name: string } | null;
+  mutationType?: { name: string } | null;
+  subscriptionType?: { name: string } | null;
+  types: IntrospectionType[];
+}
+
 interface TypeIntrospectionResult {
   __type: IntrospectionType;
 }
@@ -41,9 +67,15 @@ interface TypeIntrospectionResult {
 // GraphQL Queries
 // ============================================================================
 
+/**
+ * Type reference selection shared by every introspection query
+ */
+const TYPE_REF_SELECTION = buildTypeRefSelection();
+
 /**
  * Standard GraphQL introspection query for a specific type
  * Fetches all fields, their types, and nested type information
+ * Only used as a fallback when full schema introspection is unavailable
  */
 export const TYPE_INTROSPECTION_QUERY = `
   query IntrospectType($typename: String!) {
@@ -54,76 +86,133 @@ export const TYPE_INTROSPECTION_QUERY = `
       fields {
         name
         description
-        type {
-          kind
+        args {
           name
-          ofType {
-            kind
-            name
-            ofType {
-              kind
-              name
-              ofType {
-                kind
-                name
-              }
-            }
-          }
+          description
+          type { ${TYPE_REF_SELECTION} }
+          defaultValue
         }
+        type { ${TYPE_REF_SELECTION} }
       }
-      interfaces {
+      inputFields {
         name
+        description
+        type { ${TYPE_REF_SELECTION} }
+        defaultValue
+      }
+      interfaces { ${TYPE_REF_SELECTION} }
+      possibleTypes { ${TYPE_REF_SELECTION} }
+      enumValues {
+        name
+        description
       }
     }
   }
 `;
 
 // ============================================================================
-// Constants
+// Main Functions
 // ============================================================================
 
 /**
- * Standard GraphQL scalar types plus common custom scalars
+ * Whether the bundled schema cache applies to the active profile
+ * The cache was prefetched from the build config endpoint, so other
+ * profiles always introspect their own schema; a manual refresh also
+ * bypasses it for the rest of the session
+ *
+ * @returns True if the bundled cache may be used
  */
-const SCALAR_TYPES = new Set([
-  'String',
-  'Int',
-  'Float',
-  'Boolean',
-  'ID',
-  'DateTime',
-  'Date',
-  'Time',
-  'JSON',
-  'UUID',
-  'Decimal',
-  'BigInt',
-]);
+function usesBundledCache(): boolean {
+  const profile = getActiveProfile();
+  return (!profile || profile.id === ENV_PROFILE_ID) && !prefersLiveSchema(ENV_PROFILE_ID);
+}
 
-// ============================================================================
-// Main Functions
-// ============================================================================
+// Index over the bundled cache, built on first use
+let bundledIndex: SchemaIndex | null = null;
+
+/**
+ * Loads the full schema index for the active profile
+ * Served from the bundled cache when it applies, so query generation and
+ * dry runs work without a reachable endpoint (production / GitHub Pages)
+ *
+ * @param signal - Optional abort signal
+ * @returns Schema index of the bundled cache or the live schema
+ * @throws Error if the live schema cannot be loaded
+ */
+export async function loadActiveSchemaIndex(signal?: AbortSignal): Promise<SchemaIndex> {
+  if (usesBundledCache() && schemaCache.discoveredTypes.length > 0) {
+    bundledIndex = bundledIndex ?? buildSchemaIndex(getBundledSchema());
+    reportBundledSchema(ENV_PROFILE_ID);
+    return bundledIndex;
+  }
+  return loadSchemaIndex(signal);
+}
 
 /**
  * Fetches introspection data for a specific GraphQL type
+ * Resolution order: bundled cache, full-schema index, per-type query
  *
  * @param typename - Name of the type to introspect (e.g., "DeviceType")
+ * @param signal - Optional abort signal
  * @returns Introspection data for the type including fields and relationships
  * @throws Error if type doesn't exist or introspection fails
  */
 export async function introspectType(
-  typename: string
+  typename: string,
+  signal?: AbortSignal
 ): Promise<IntrospectionType> {
   // Cache-first: return pre-fetched data if available (production / GitHub Pages)
-  const cached = (schemaCache.types as unknown as Record<string, IntrospectionType>)[typename];
+  const cached = usesBundledCache()
+    ? (schemaCache.types as unknown as Record<string, IntrospectionType>)[typename]
+    : undefined;
   if (cached) {
     return cached;
   }
 
-  // Fallback: live API call (local development)
+  // Schema index: one full introspection serves every subsequent lookup
+  let index: SchemaIndex | null = null;
+  try {
+    index = await loadSchemaIndex(signal);
+  } catch (error) {
+    // Offline schemas have no endpoint to fall back to
+    if (isAbortError(error) || getActiveProfile()?.offline) {
+      throw error;
+    }
+    console.warn('[Introspection] Schema index unavailable, falling back to per-type query:', {
+      typename,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  if (index) {
+    const indexed = index.types.get(typename);
+    if (!indexed) {
+      throw new Error(`Type "${typename}" not found in schema`);
+    }
+    return indexed;
+  }
+
+  // Fallback: per-type live API call
+  return introspectSingleType(typename, signal);
+}
+
+/**
+ * Fetches a single type with its own `__type` query
+ * Only used when the full schema introspection is unavailable
+ *
+ * @param typename - Name of the type to introspect
+ * @param signal - Optional abort signal
+ * @returns Introspection data for the type
+ * @throws Error if type doesn't exist or introspection fails
+ */
+async function introspectSingleType(
+  typename: string,
+  signal?: AbortSignal
+): Promise<IntrospectionType> {
   const response = await executeGraphQLQuery<TypeIntrospectionResult>(
     TYPE_INTROSPECTION_QUERY,
-    { typename }
+    { typename },
+    { signal }
   );
 
   // Handle GraphQL errors
@@ -141,77 +230,9 @@ export async function introspectType(
 }
 
 /**
- * Unwraps nested type references to get the actual type name
- * Handles NON_NULL and LIST wrappers
- *
- * @param typeRef - Type reference to unwrap
- * @returns Unwrapped type information
- */
-export function unwrapType(typeRef: IntrospectionTypeRef): {
-  name: string;
-  kind: string;
-  isList: boolean;
-  isNonNull: boolean;
-} {
-  let currentType = typeRef;
-  let isList = false;
-  let isNonNull = false;
-
-  // Track the outermost NON_NULL wrapper
-  if (currentType.kind === 'NON_NULL') {
-    isNonNull = true;
-    currentType = currentType.ofType!;
-  }
-
-  // Check for LIST wrapper
-  if (currentType.kind === 'LIST') {
-    isList = true;
-    currentType = currentType.ofType!;
-  }
-
-  // Skip inner NON_NULL wrapper (for patterns like [Type!])
-  if (currentType.kind === 'NON_NULL') {
-    currentType = currentType.ofType!;
-  }
-
-  // At this point, we should have the actual type
-  return {
-    name: currentType.name || 'Unknown',
-    kind: currentType.kind,
-    isList,
-    isNonNull,
-  };
-}
-
-/**
- * Checks if a type is a GraphQL scalar type
- * Scalars: String, Int, Float, Boolean, ID, custom scalars
- *
- * @param typename - Type name to check
- * @returns True if type is a scalar
- */
-export function isScalarType(typename: string): boolean {
-  return SCALAR_TYPES.has(typename);
-}
-
-/**
- * Checks if a field represents a relationship to another object type
- * Filters out scalars and considers only object/interface types
- *
- * @param field - Field to check
- * @returns True if field is a relationship
+ * Kinds returned by type discovery - every kind that can act as a graph root
  */
-export function isRelationshipField(field: IntrospectionField): boolean {
-  const unwrapped = unwrapType(field.type);
-
-  // A field is a relationship if:
-  // 1. It's not a scalar type
-  // 2. It's an OBJECT or INTERFACE type
-  const isObjectType = unwrapped.kind === 'OBJECT' || unwrapped.kind === 'INTERFACE';
-  const isNotScalar = !isScalarType(unwrapped.name);
-
-  return isObjectType && isNotScalar;
-}
+const DISCOVERABLE_KINDS = ['OBJECT', 'INTERFACE', 'UNION'];
 
 // ============================================================================
 // Type Discovery
@@ -241,21 +262,52 @@ interface DiscoverTypesResult {
   };
 }
 
-export async function discoverAllTypes(): Promise<string[]> {
+/**
+ * Discovers the names of all root-capable types in the schema
+ * Returns OBJECT, INTERFACE and UNION types; introspection types are skipped
+ *
+ * @param signal - Optional abort signal
+ * @returns Array of discovered typenames
+ */
+export async function discoverAllTypes(signal?: AbortSignal): Promise<string[]> {
   // Cache-first: return pre-fetched list if available (production / GitHub Pages)
-  if (schemaCache.discoveredTypes.length > 0) {
+  if (usesBundledCache() && schemaCache.discoveredTypes.length > 0) {
     console.log('[Type Discovery] Using cached data:', {
       objectTypes: schemaCache.discoveredTypes.length,
     });
+    reportBundledSchema(ENV_PROFILE_ID);
     return schemaCache.discoveredTypes;
   }
 
-  // Fallback: live API call (local development)
+  // Schema index: reuse the single full introspection
+  try {
+    const index = await loadSchemaIndex(signal);
+    const discoveredTypes = Array.from(index.types.values())
+      .filter(type => DISCOVERABLE_KINDS.includes(type.kind))
+      .map(type => type.name);
+
+    console.log('[Type Discovery] Using schema index:', {
+      totalTypes: index.types.size,
+      discoveredTypes: discoveredTypes.length,
+    });
+
+    return discoveredTypes;
+  } catch (error) {
+    if (isAbortError(error) || getActiveProfile()?.offline) {
+      throw error;
+    }
+    console.warn('[Type Discovery] Schema index unavailable, falling back to type list query:', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  // Fallback: lightweight type list query
   console.log('[Type Discovery] Starting schema introspection...');
 
   const response = await executeGraphQLQuery<DiscoverTypesResult>(
     DISCOVER_TYPES_QUERY,
-    {}
+    {},
+    { signal }
   );
 
   if (response.errors) {
@@ -269,18 +321,18 @@ export async function discoverAllTypes(): Promise<string[]> {
     throw new Error('Invalid schema introspection response');
   }
 
-  const objectTypes = response.data.__schema.types
+  const discoveredTypes = response.data.__schema.types
     .filter(type =>
-      type.kind === 'OBJECT' &&
+      DISCOVERABLE_KINDS.includes(type.kind) &&
       !type.name.startsWith('__')
     )
     .map(type => type.name);
 
   console.log('[Type Discovery] Complete:', {
     totalTypes: response.data.__schema.types.length,
-    objectTypes: objectTypes.length,
-    sampleTypes: objectTypes.slice(0, 10),
+    discoveredTypes: discoveredTypes.length,
+    sampleTypes: discoveredTypes.slice(0, 10),
   });
 
-  return objectTypes;
+  return discoveredTypes;
 }
@@ -0,0 +1,251 @@
+/**
+ * GraphQL Lexer - Tokenizes GraphQL documents (SDL and executable)
+ *
+ * Shared by the SDL parser and offline query validation. Every token keeps
+ * its 1-based line/column so errors can point at the source text.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type TokenKind = 'Name' | 'Punctuator' | 'Int' | 'Float' | 'String' | 'BlockString' | 'EOF';
+
+export interface Token {
+  kind: TokenKind;
+  /** Token text; decoded contents for strings */
+  value: string;
+  /** Offset of the first character in the source */
+  start: number;
+  /** Offset just past the last character */
+  end: number;
+  /** 1-based line number */
+  line: number;
+  /** 1-based column number */
+  column: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const PUNCTUATORS = new Set(['!', '$', '&', '(', ')', ':', '=', '@', '[', ']', '{', '|', '}']);
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function isNameStart(char: string): boolean {
+  return /[_A-Za-z]/.test(char);
+}
+
+function isNameContinue(char: string): boolean {
+  return /[_0-9A-Za-z]/.test(char);
+}
+
+function isDigit(char: string): boolean {
+  return char >= '0' && char <= '9';
+}
+
+/**
+ * Removes common indentation and blank leading/trailing lines from a block string
+ * (GraphQL spec "BlockStringValue")
+ */
+function dedentBlockString(raw: string): string {
+  const lines = raw.split(/\r\n|[\n\r]/);
+
+  let commonIndent: number | null = null;
+  for (let i = 1; i < lines.length; i++) {
+    const indent = lines[i].length - lines[i].trimStart().length;
+    if (indent < lines[i].length && (commonIndent === null || indent < commonIndent)) {
+      commonIndent = indent;
+    }
+  }
+
+  if (commonIndent) {
+    for (let i = 1; i < lines.length; i++) {
+      lines[i] = lines[i].slice(commonIndent);
+    }
+  }
+
+  while (lines.length > 0 && lines[0].trim() === '') lines.shift();
+  while (lines.length > 0 && lines[lines.length - 1].trim() === '') lines.pop();
+
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Main Functions
+// ============================================================================
+
+/**
+ * Formats a source position for error messages
+ *
+ * @param token - Token (or anything with line/column)
+ * @returns e.g. "line 3, column 7"
+ */
+export function formatPosition(token: { line: number; column: number }): string {
+  return `line ${token.line}, column ${token.column}`;
+}
+
+/**
+ * Splits a GraphQL document into tokens
+ * Whitespace, commas and `#` comments are skipped; the last token is always EOF
+ *
+ * @param source - Document text
+ * @returns Token list
+ * @throws Error with line/column on unterminated strings or unexpected characters
+ */
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const push = (kind: TokenKind, value: string, start: number, end: number, startLine: number, startColumn: number) => {
+    tokens.push({ kind, value, start, end, line: startLine, column: startColumn });
+  };
+
+  const fail = (message: string, at: number): never => {
+    throw new Error(`Syntax error at line ${line}, column ${at - lineStart + 1}: ${message}`);
+  };
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    // Line terminators
+    if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[pos + 1] === '\n') pos++;
+      pos++;
+      line++;
+      lineStart = pos;
+      continue;
+    }
+
+    // Insignificant characters
+    if (char === ' ' || char === '\t' || char === ',' || char === '\uFEFF') {
+      pos++;
+      continue;
+    }
+
+    // Comments run to end of line
+    if (char === '#') {
+      while (pos < source.length && source[pos] !== '\n' && source[pos] !== '\r') pos++;
+      continue;
+    }
+
+    const start = pos;
+    const column = pos - lineStart + 1;
+
+    if (char === '.') {
+      if (source.startsWith('...', pos)) {
+        pos += 3;
+        push('Punctuator', '...', start, pos, line, column);
+        continue;
+      }
+      fail('Unexpected "."', pos);
+    }
+
+    if (PUNCTUATORS.has(char)) {
+      pos++;
+      push('Punctuator', char, start, pos, line, column);
+      continue;
+    }
+
+    if (isNameStart(char)) {
+      while (pos < source.length && isNameContinue(source[pos])) pos++;
+      push('Name', source.slice(start, pos), start, pos, line, column);
+      continue;
+    }
+
+    if (char === '-' || isDigit(char)) {
+      let isFloat = false;
+      if (char === '-') pos++;
+      if (!isDigit(source[pos] ?? '')) fail('Invalid number', pos);
+      while (isDigit(source[pos] ?? '')) pos++;
+      if (source[pos] === '.') {
+        isFloat = true;
+        pos++;
+        if (!isDigit(source[pos] ?? '')) fail('Invalid number', pos);
+        while (isDigit(source[pos] ?? '')) pos++;
+      }
+      if (source[pos] === 'e' || source[pos] === 'E') {
+        isFloat = true;
+        pos++;
+        if (source[pos] === '+' || source[pos] === '-') pos++;
+        if (!isDigit(source[pos] ?? '')) fail('Invalid number', pos);
+        while (isDigit(source[pos] ?? '')) pos++;
+      }
+      push(isFloat ? 'Float' : 'Int', source.slice(start, pos), start, pos, line, column);
+      continue;
+    }
+
+    if (source.startsWith('"""', pos)) {
+      const startLine = line;
+      pos += 3;
+      let raw = '';
+      while (!source.startsWith('"""', pos)) {
+        if (pos >= source.length) fail('Unterminated block string', start);
+        if (source.startsWith('\\"""', pos)) {
+          raw += '"""';
+          pos += 4;
+          continue;
+        }
+        if (source[pos] === '\n' || (source[pos] === '\r' && source[pos + 1] !== '\n')) {
+          line++;
+          lineStart = pos + 1;
+        }
+        raw += source[pos];
+        pos++;
+      }
+      pos += 3;
+      push('BlockString', dedentBlockString(raw), start, pos, startLine, column);
+      continue;
+    }
+
+    if (char === '"') {
+      pos++;
+      let value = '';
+      while (source[pos] !== '"') {
+        if (pos >= source.length || source[pos] === '\n' || source[pos] === '\r') {
+          fail('Unterminated string', start);
+        }
+        if (source[pos] === '\\') {
+          const escape = source[pos + 1];
+          if (escape === 'u') {
+            const hex = source.slice(pos + 2, pos + 6);
+            if (!/^[0-9A-Fa-f]{4}$/.test(hex)) fail('Invalid unicode escape', pos);
+            value += String.fromCharCode(parseInt(hex, 16));
+            pos += 6;
+            continue;
+          }
+          if (!(escape in ESCAPES)) fail(`Invalid escape "\\${escape}"`, pos);
+          value += ESCAPES[escape];
+          pos += 2;
+          continue;
+        }
+        value += source[pos];
+        pos++;
+      }
+      pos++;
+      push('String', value, start, pos, line, column);
+      continue;
+    }
+
+    fail(`Unexpected character "${char}"`, pos);
+  }
+
+  push('EOF', '', pos, pos, line, pos - lineStart + 1);
+  return tokens;
+}
@@ -0,0 +1,325 @@
+/**
+ * Endpoint Profiles - Named Nautobot connections switchable at runtime
+ *
+ * The build-time `VITE_NAUTOBOT_URL` / `VITE_NAUTOBOT_API_TOKEN` pair becomes
+ * the built-in "env" profile; additional profiles are stored in localStorage.
+ * Their API tokens are kept in sessionStorage (gone when the tab closes)
+ * unless the user opts in to remembering a token on this device.
+ * A schema file loaded from disk appears as the read-only "offline" profile.
+ * Every cache keyed by endpoint (schema index, type cache) uses the profile id.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * How requests to a profile's endpoint are authenticated
+ *
+ * - `token`: Nautobot API token (`Authorization: Token <token>`)
+ * - `bearer`: OAuth/OIDC style (`Authorization: Bearer <token>`)
+ * - `none`: No auth header, for public read-only mirrors
+ */
+export type AuthScheme = 'token' | 'bearer' | 'none';
+
+export interface EndpointProfile {
+  /** Stable identifier, used as the cache key */
+  id: string;
+  /** Display name shown in the drawer (e.g., "Staging") */
+  name: string;
+  /** Base Nautobot URL (the GraphQL path is appended) */
+  url: string;
+  /** Authentication scheme for requests */
+  authScheme: AuthScheme;
+  /** API token for `token` and `bearer` schemes */
+  apiToken?: string;
+  /** Whether the token is kept in localStorage (plaintext) across sessions */
+  rememberToken?: boolean;
+  /** Whether this is a read-only profile derived from build-time env or a file */
+  builtIn?: boolean;
+  /** Whether the schema comes from a loaded file rather than a live endpoint */
+  offline?: boolean;
+}
+
+type ProfileListener = () => void;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Id of the profile built from Vite environment variables */
+export const ENV_PROFILE_ID = 'env';
+
+/** Id of the profile backed by a user-supplied schema file */
+export const OFFLINE_PROFILE_ID = 'offline';
+
+const PROFILES_STORAGE_KEY = 'modelVisualizer_profiles';
+const ACTIVE_PROFILE_STORAGE_KEY = 'modelVisualizer_activeProfile';
+const OFFLINE_SCHEMA_STORAGE_KEY = 'modelVisualizer_offlineSchema';
+const SESSION_TOKENS_STORAGE_KEY = 'modelVisualizer_profileTokens';
+
+// ============================================================================
+// Module State
+// ============================================================================
+
+const listeners = new Set<ProfileListener>();
+
+// ============================================================================
+// Storage Helpers
+// ============================================================================
+
+/**
+ * Builds the built-in profile from build-time environment variables
+ *
+ * @returns Env profile, or null if no URL was configured
+ */
+function getEnvProfile(): EndpointProfile | null {
+  const url = import.meta.env.VITE_NAUTOBOT_URL;
+  if (!url) {
+    return null;
+  }
+
+  return {
+    id: ENV_PROFILE_ID,
+    name: 'Default (build config)',
+    url,
+    authScheme: 'token',
+    apiToken: import.meta.env.VITE_NAUTOBOT_API_TOKEN,
+    builtIn: true,
+  };
+}
+
+/**
+ * Builds the offline profile for the most recently loaded schema file
+ * The schema itself lives in the IndexedDB schema cache under the profile id
+ *
+ * @returns Offline profile, or null if no file has been loaded
+ */
+function getOfflineProfile(): EndpointProfile | null {
+  const fileName = localStorage.getItem(OFFLINE_SCHEMA_STORAGE_KEY);
+  if (!fileName) {
+    return null;
+  }
+
+  return {
+    id: OFFLINE_PROFILE_ID,
+    name: `Offline: ${fileName}`,
+    url: fileName,
+    authScheme: 'none',
+    builtIn: true,
+    offline: true,
+  };
+}
+
+/**
+ * Reads the session-only API tokens (profile id -> token) from sessionStorage
+ */
+function readSessionTokens(): Record<string, string> {
+  try {
+    const raw = sessionStorage.getItem(SESSION_TOKENS_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch (error) {
+    console.warn('[Profiles] Failed to read session tokens:', error);
+    return {};
+  }
+}
+
+function writeSessionTokens(tokens: Record<string, string>): void {
+  if (Object.keys(tokens).length === 0) {
+    sessionStorage.removeItem(SESSION_TOKENS_STORAGE_KEY);
+  } else {
+    sessionStorage.setItem(SESSION_TOKENS_STORAGE_KEY, JSON.stringify(tokens));
+  }
+}
+
+/**
+ * Reads user-defined profiles from localStorage, adding their session tokens
+ * Malformed storage is ignored rather than breaking the app
+ */
+function readStoredProfiles(): EndpointProfile[] {
+  let parsed: unknown;
+  try {
+    const raw = localStorage.getItem(PROFILES_STORAGE_KEY);
+    parsed = raw ? JSON.parse(raw) : [];
+  } catch (error) {
+    console.warn('[Profiles] Failed to read stored profiles:', error);
+    return [];
+  }
+  if (!Array.isArray(parsed)) {
+    return [];
+  }
+
+  const sessionTokens = readSessionTokens();
+  const profiles = (parsed as EndpointProfile[]).map((profile) =>
+    profile.rememberToken || !sessionTokens[profile.id]
+      ? profile
+      : { ...profile, apiToken: sessionTokens[profile.id] }
+  );
+
+  // Profiles saved before the opt-in existed hold a plaintext token nobody
+  // agreed to keep - move those tokens to the session
+  if (profiles.some((p) => p.apiToken && p.rememberToken === undefined)) {
+    writeStoredProfiles(profiles);
+  }
+
+  return profiles;
+}
+
+/**
+ * Writes user-defined profiles, keeping tokens out of localStorage unless
+ * the profile opts in to remembering them
+ */
+function writeStoredProfiles(profiles: EndpointProfile[]): void {
+  const sessionTokens = readSessionTokens();
+  const toStore = profiles.map((profile) => {
+    delete sessionTokens[profile.id];
+    if (profile.rememberToken || !profile.apiToken) {
+      return profile;
+    }
+    sessionTokens[profile.id] = profile.apiToken;
+    return { ...profile, apiToken: undefined, rememberToken: false };
+  });
+
+  // Drop tokens of profiles that no longer exist
+  const ids = new Set(profiles.map((p) => p.id));
+  Object.keys(sessionTokens).forEach((id) => {
+    if (!ids.has(id)) {
+      delete sessionTokens[id];
+    }
+  });
+
+  writeSessionTokens(sessionTokens);
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(toStore));
+}
+
+function notifyListeners(): void {
+  listeners.forEach((listener) => listener());
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Returns all available profiles, built-in env and offline profiles first
+ */
+export function getProfiles(): EndpointProfile[] {
+  const builtIn = [getEnvProfile(), getOfflineProfile()].filter(
+    (profile): profile is EndpointProfile => profile !== null
+  );
+  return [...builtIn, ...readStoredProfiles()];
+}
+
+/**
+ * Returns the currently selected profile
+ * Falls back to the first available profile if the stored selection is gone
+ *
+ * @returns Active profile, or null if no profile is configured at all
+ */
+export function getActiveProfile(): EndpointProfile | null {
+  const profiles = getProfiles();
+  const activeId = localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY);
+  return profiles.find((p) => p.id === activeId) ?? profiles[0] ?? null;
+}
+
+/**
+ * Selects the profile used for all subsequent requests
+ *
+ * @param id - Profile id to activate
+ */
+export function setActiveProfile(id: string): void {
+  localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, id);
+  notifyListeners();
+}
+
+/**
+ * Creates or updates a user-defined profile
+ * The built-in env profile cannot be overwritten
+ * The token is only kept past this session when `rememberToken` is set
+ *
+ * @param profile - Profile to save (matched by id)
+ */
+export function saveProfile(profile: EndpointProfile): void {
+  if (profile.id === ENV_PROFILE_ID || profile.id === OFFLINE_PROFILE_ID) {
+    throw new Error(`Profile "${profile.name}" is read-only`);
+  }
+
+  const stored = readStoredProfiles();
+  const index = stored.findIndex((p) => p.id === profile.id);
+  const toStore = { ...profile, builtIn: undefined };
+
+  if (index >= 0) {
+    stored[index] = toStore;
+  } else {
+    stored.push(toStore);
+  }
+
+  writeStoredProfiles(stored);
+  notifyListeners();
+}
+
+/**
+ * Deletes a user-defined profile, or forgets the loaded offline schema file
+ *
+ * @param id - Profile id to delete
+ */
+export function deleteProfile(id: string): void {
+  if (id === OFFLINE_PROFILE_ID) {
+    localStorage.removeItem(OFFLINE_SCHEMA_STORAGE_KEY);
+  } else {
+    writeStoredProfiles(readStoredProfiles().filter((p) => p.id !== id));
+  }
+  notifyListeners();
+}
+
+/**
+ * Registers a loaded schema file as the offline profile and selects it
+ *
+ * @param fileName - Name of the loaded file, shown in the profile name
+ */
+export function activateOfflineProfile(fileName: string): void {
+  localStorage.setItem(OFFLINE_SCHEMA_STORAGE_KEY, fileName);
+  setActiveProfile(OFFLINE_PROFILE_ID);
+}
+
+/**
+ * Generates an id for a new profile
+ */
+export function createProfileId(): string {
+  return `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * Subscribes to profile list / selection changes
+ *
+ * @param listener - Called after any change
+ * @returns Unsubscribe function
+ */
+export function subscribeToProfiles(listener: ProfileListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Builds request headers for a profile's auth scheme
+ *
+ * @param profile - Profile to authenticate as
+ * @returns Authorization header (empty for `none`)
+ * @throws Error if the scheme needs a token and none is set
+ */
+export function buildAuthHeaders(profile: EndpointProfile): Record<string, string> {
+  if (profile.authScheme === 'none') {
+    return {};
+  }
+
+  if (!profile.apiToken) {
+    // Session-only tokens are gone once the browser session ends
+    throw new Error(`Profile "${profile.name}" requires an API token - edit the profile to enter it.`);
+  }
+
+  const prefix = profile.authScheme === 'bearer' ? 'Bearer' : 'Token';
+  return { Authorization: `${prefix} ${profile.apiToken}` };
+}
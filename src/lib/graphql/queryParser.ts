@@ -0,0 +1,426 @@
+/**
+ * Query Parser - Parses executable GraphQL documents (queries, mutations,
+ * subscriptions and fragments) into a small syntax tree
+ *
+ * Every node keeps the 1-based line/column of its first token, so validation
+ * errors and server error `locations`/`path` can point at the query text.
+ */
+
+import { Token, formatPosition, tokenize } from './lexer';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface SourceLocation {
+  line: number;
+  column: number;
+}
+
+export type QueryValue =
+  | { kind: 'Variable'; name: string; loc: SourceLocation }
+  | { kind: 'List'; values: QueryValue[]; loc: SourceLocation }
+  | { kind: 'Object'; fields: QueryArgument[]; loc: SourceLocation }
+  | { kind: 'Literal'; raw: string; loc: SourceLocation };
+
+export interface QueryArgument {
+  name: string;
+  value: QueryValue;
+  loc: SourceLocation;
+}
+
+export interface QueryDirective {
+  name: string;
+  arguments: QueryArgument[];
+  loc: SourceLocation;
+}
+
+export interface FieldSelection {
+  kind: 'Field';
+  alias: string | null;
+  name: string;
+  arguments: QueryArgument[];
+  directives: QueryDirective[];
+  /** Null for leaf fields */
+  selectionSet: QuerySelection[] | null;
+  loc: SourceLocation;
+}
+
+export interface FragmentSpread {
+  kind: 'FragmentSpread';
+  name: string;
+  directives: QueryDirective[];
+  loc: SourceLocation;
+}
+
+export interface InlineFragment {
+  kind: 'InlineFragment';
+  typeCondition: string | null;
+  directives: QueryDirective[];
+  selectionSet: QuerySelection[];
+  loc: SourceLocation;
+}
+
+export type QuerySelection = FieldSelection | FragmentSpread | InlineFragment;
+
+export interface VariableDefinition {
+  name: string;
+  /** Type as written, e.g. "[ID!]!" */
+  type: string;
+  /** Named type inside the list/non-null wrappers */
+  typeName: string;
+  defaultValue: QueryValue | null;
+  loc: SourceLocation;
+}
+
+export type OperationType = 'query' | 'mutation' | 'subscription';
+
+export interface OperationDefinition {
+  kind: 'Operation';
+  operation: OperationType;
+  name: string | null;
+  variableDefinitions: VariableDefinition[];
+  directives: QueryDirective[];
+  selectionSet: QuerySelection[];
+  loc: SourceLocation;
+}
+
+export interface FragmentDefinition {
+  kind: 'Fragment';
+  name: string;
+  typeCondition: string;
+  directives: QueryDirective[];
+  selectionSet: QuerySelection[];
+  loc: SourceLocation;
+}
+
+export interface QueryDocument {
+  operations: OperationDefinition[];
+  fragments: FragmentDefinition[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const OPERATION_TYPES = new Set<string>(['query', 'mutation', 'subscription']);
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function locationOf(token: Token): SourceLocation {
+  return { line: token.line, column: token.column };
+}
+
+// ============================================================================
+// Main Functions
+// ============================================================================
+
+/**
+ * Parses a query document
+ *
+ * @param source - Document text
+ * @returns Operations and fragments in document order
+ * @throws Error with line/column on syntax errors
+ */
+export function parseQuery(source: string): QueryDocument {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const document: QueryDocument = { operations: [], fragments: [] };
+
+  // --------------------------------------------------------------------------
+  // Token helpers
+  // --------------------------------------------------------------------------
+
+  const peek = (): Token => tokens[index];
+  const advance = (): Token => tokens[index++];
+
+  const fail = (message: string, token: Token = peek()): never => {
+    throw new Error(`Syntax error at ${formatPosition(token)}: ${message}`);
+  };
+
+  const describe = (token: Token): string => token.value || token.kind;
+
+  const isPunct = (value: string): boolean =>
+    peek().kind === 'Punctuator' && peek().value === value;
+
+  const skipPunct = (value: string): boolean => {
+    if (isPunct(value)) {
+      index++;
+      return true;
+    }
+    return false;
+  };
+
+  const expectPunct = (value: string): Token => {
+    if (!isPunct(value)) {
+      fail(`Expected "${value}", found "${describe(peek())}"`);
+    }
+    return advance();
+  };
+
+  const expectName = (): Token => {
+    if (peek().kind !== 'Name') {
+      fail(`Expected a name, found "${describe(peek())}"`);
+    }
+    return advance();
+  };
+
+  const isKeyword = (value: string): boolean =>
+    peek().kind === 'Name' && peek().value === value;
+
+  // --------------------------------------------------------------------------
+  // Values, arguments and directives
+  // --------------------------------------------------------------------------
+
+  const parseValue = (): QueryValue => {
+    const first = peek();
+    const loc = locationOf(first);
+
+    if (skipPunct('$')) {
+      return { kind: 'Variable', name: expectName().value, loc };
+    }
+
+    if (skipPunct('[')) {
+      const values: QueryValue[] = [];
+      while (!skipPunct(']')) {
+        if (peek().kind === 'EOF') fail('Expected "]"');
+        values.push(parseValue());
+      }
+      return { kind: 'List', values, loc };
+    }
+
+    if (skipPunct('{')) {
+      const fields: QueryArgument[] = [];
+      while (!skipPunct('}')) {
+        if (peek().kind === 'EOF') fail('Expected "}"');
+        fields.push(parseArgument());
+      }
+      return { kind: 'Object', fields, loc };
+    }
+
+    if (first.kind === 'Punctuator' || first.kind === 'EOF') {
+      fail(`Expected a value, found "${describe(first)}"`);
+    }
+
+    advance();
+    return { kind: 'Literal', raw: source.slice(first.start, first.end), loc };
+  };
+
+  const parseArgument = (): QueryArgument => {
+    const name = expectName();
+    expectPunct(':');
+    return { name: name.value, value: parseValue(), loc: locationOf(name) };
+  };
+
+  const parseArguments = (): QueryArgument[] => {
+    const args: QueryArgument[] = [];
+    if (skipPunct('(')) {
+      do {
+        args.push(parseArgument());
+      } while (!skipPunct(')'));
+    }
+    return args;
+  };
+
+  const parseDirectives = (): QueryDirective[] => {
+    const directives: QueryDirective[] = [];
+    while (isPunct('@')) {
+      const at = advance();
+      const name = expectName().value;
+      directives.push({ name, arguments: parseArguments(), loc: locationOf(at) });
+    }
+    return directives;
+  };
+
+  // --------------------------------------------------------------------------
+  // Selections
+  // --------------------------------------------------------------------------
+
+  const parseSelectionSet = (): QuerySelection[] => {
+    expectPunct('{');
+    const selections: QuerySelection[] = [];
+    do {
+      if (peek().kind === 'EOF') fail('Expected "}"');
+      selections.push(parseSelection());
+    } while (!skipPunct('}'));
+    return selections;
+  };
+
+  const parseSelection = (): QuerySelection => {
+    if (isPunct('...')) {
+      const spread = advance();
+      const loc = locationOf(spread);
+
+      if (peek().kind === 'Name' && !isKeyword('on')) {
+        return { kind: 'FragmentSpread', name: advance().value, directives: parseDirectives(), loc };
+      }
+
+      let typeCondition: string | null = null;
+      if (isKeyword('on')) {
+        advance();
+        typeCondition = expectName().value;
+      }
+      const directives = parseDirectives();
+      return { kind: 'InlineFragment', typeCondition, directives, selectionSet: parseSelectionSet(), loc };
+    }
+
+    const first = expectName();
+    let alias: string | null = null;
+    let name = first.value;
+    if (skipPunct(':')) {
+      alias = first.value;
+      name = expectName().value;
+    }
+
+    const args = parseArguments();
+    const directives = parseDirectives();
+    const selectionSet = isPunct('{') ? parseSelectionSet() : null;
+    return { kind: 'Field', alias, name, arguments: args, directives, selectionSet, loc: locationOf(first) };
+  };
+
+  // --------------------------------------------------------------------------
+  // Definitions
+  // --------------------------------------------------------------------------
+
+  const parseTypeText = (): { type: string; typeName: string } => {
+    if (skipPunct('[')) {
+      const inner = parseTypeText();
+      expectPunct(']');
+      const nonNull = skipPunct('!');
+      return { type: `[${inner.type}]${nonNull ? '!' : ''}`, typeName: inner.typeName };
+    }
+    const name = expectName().value;
+    return { type: skipPunct('!') ? `${name}!` : name, typeName: name };
+  };
+
+  const parseVariableDefinitions = (): VariableDefinition[] => {
+    const definitions: VariableDefinition[] = [];
+    if (skipPunct('(')) {
+      do {
+        const dollar = expectPunct('$');
+        const name = expectName().value;
+        expectPunct(':');
+        const { type, typeName } = parseTypeText();
+        const defaultValue = skipPunct('=') ? parseValue() : null;
+        parseDirectives();
+        definitions.push({ name, type, typeName, defaultValue, loc: locationOf(dollar) });
+      } while (!skipPunct(')'));
+    }
+    return definitions;
+  };
+
+  const parseOperation = (): OperationDefinition => {
+    const first = peek();
+
+    // Query shorthand: a bare selection set
+    if (isPunct('{')) {
+      return {
+        kind: 'Operation',
+        operation: 'query',
+        name: null,
+        variableDefinitions: [],
+        directives: [],
+        selectionSet: parseSelectionSet(),
+        loc: locationOf(first),
+      };
+    }
+
+    const operation = advance().value as OperationType;
+    const name = peek().kind === 'Name' ? advance().value : null;
+    const variableDefinitions = parseVariableDefinitions();
+    const directives = parseDirectives();
+    return {
+      kind: 'Operation',
+      operation,
+      name,
+      variableDefinitions,
+      directives,
+      selectionSet: parseSelectionSet(),
+      loc: locationOf(first),
+    };
+  };
+
+  const parseFragment = (): FragmentDefinition => {
+    const keyword = advance();
+    const name = expectName();
+    if (name.value === 'on') fail('Fragment cannot be named "on"', name);
+    if (!isKeyword('on')) fail('Expected "on"');
+    advance();
+    const typeCondition = expectName().value;
+    const directives = parseDirectives();
+    return {
+      kind: 'Fragment',
+      name: name.value,
+      typeCondition,
+      directives,
+      selectionSet: parseSelectionSet(),
+      loc: locationOf(keyword),
+    };
+  };
+
+  // --------------------------------------------------------------------------
+  // Document
+  // --------------------------------------------------------------------------
+
+  while (peek().kind !== 'EOF') {
+    const token = peek();
+    if (isPunct('{') || (token.kind === 'Name' && OPERATION_TYPES.has(token.value))) {
+      document.operations.push(parseOperation());
+    } else if (isKeyword('fragment')) {
+      document.fragments.push(parseFragment());
+    } else {
+      fail(`Unexpected "${describe(token)}"`);
+    }
+  }
+
+  if (document.operations.length === 0) {
+    fail('Document has no operation', peek());
+  }
+
+  return document;
+}
+
+/**
+ * Finds the field a response path points at, e.g. an error's
+ * `["devices", 0, "interfaces", 2, "name"]`
+ * List indexes are skipped; fragments are searched by response key.
+ *
+ * @param document - Parsed query
+ * @param path - Response path from a GraphQL error
+ * @returns The field's location, or null when the path does not match the query
+ */
+export function findFieldByPath(document: QueryDocument, path: Array<string | number>): SourceLocation | null {
+  const keys = path.filter((segment): segment is string => typeof segment === 'string');
+  const fragments = new Map(document.fragments.map((fragment) => [fragment.name, fragment]));
+
+  const find = (selections: QuerySelection[], key: string, seen: Set<string>): FieldSelection | null => {
+    for (const selection of selections) {
+      if (selection.kind === 'Field') {
+        if ((selection.alias ?? selection.name) === key) return selection;
+      } else if (selection.kind === 'InlineFragment') {
+        const found = find(selection.selectionSet, key, seen);
+        if (found) return found;
+      } else if (!seen.has(selection.name)) {
+        const fragment = fragments.get(selection.name);
+        const found = fragment ? find(fragment.selectionSet, key, new Set(seen).add(selection.name)) : null;
+        if (found) return found;
+      }
+    }
+    return null;
+  };
+
+  for (const operation of document.operations) {
+    let selections: QuerySelection[] | null = operation.selectionSet;
+    let field: FieldSelection | null = null;
+    for (const key of keys) {
+      field = selections ? find(selections, key, new Set()) : null;
+      if (!field) break;
+      selections = field.selectionSet;
+    }
+    if (field && keys.length > 0) return field.loc;
+  }
+  return null;
+}
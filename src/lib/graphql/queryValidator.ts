@@ -0,0 +1,437 @@
+/**
+ * Query Validator - Checks a query document against loaded introspection data
+ *
+ * Works without an endpoint, so queries can be dry-run against the bundled
+ * schema cache, a schema file or a saved snapshot of a given Nautobot
+ * version. Errors carry the line/column of the offending token.
+ */
+
+import { IntrospectionInputValue, IntrospectionType, IntrospectionTypeRef } from './introspection';
+import { formatTypeRef, unwrapType } from './typeRef';
+import { SchemaIndex } from './schemaLoader';
+import {
+  FragmentDefinition,
+  QueryArgument,
+  QueryDirective,
+  QueryDocument,
+  QuerySelection,
+  QueryValue,
+  SourceLocation,
+  parseQuery,
+} from './queryParser';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface QueryValidationError extends SourceLocation {
+  message: string;
+}
+
+export interface QueryValidationResult {
+  /** Parsed document, or null when the query has syntax errors */
+  document: QueryDocument | null;
+  errors: QueryValidationError[];
+}
+
+/** Schema data the validator reads */
+export type ValidationSchema = Pick<SchemaIndex, 'types' | 'queryTypeName'>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Introspection fields only the query root offers */
+const ROOT_META_FIELDS = new Set(['__schema', '__type']);
+
+const LEAF_KINDS = new Set(['SCALAR', 'ENUM']);
+
+const COMPOSITE_KINDS = new Set(['OBJECT', 'INTERFACE', 'UNION']);
+
+/** Scalars usable as variable types even when the schema does not list them */
+const BUILT_IN_SCALARS = new Set(['String', 'Int', 'Float', 'Boolean', 'ID']);
+
+const BOOLEAN_IF_ARGUMENT: IntrospectionInputValue = {
+  name: 'if',
+  type: { kind: 'NON_NULL', ofType: { kind: 'SCALAR', name: 'Boolean' } },
+};
+
+/** Directives allowed in executable documents, with their arguments */
+const EXECUTABLE_DIRECTIVES: Record<string, IntrospectionInputValue[]> = {
+  include: [BOOLEAN_IF_ARGUMENT],
+  skip: [BOOLEAN_IF_ARGUMENT],
+};
+
+const SYNTAX_ERROR_POSITION = /at line (\d+), column (\d+): (.*)$/;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function isRequiredInput(input: IntrospectionInputValue): boolean {
+  return input.type.kind === 'NON_NULL' && (input.defaultValue === undefined || input.defaultValue === null);
+}
+
+/**
+ * Item type of a list type reference (non-null wrapper included)
+ */
+function listItemType(typeRef: IntrospectionTypeRef): IntrospectionTypeRef {
+  const list = typeRef.kind === 'NON_NULL' ? typeRef.ofType : typeRef;
+  return list?.ofType ?? typeRef;
+}
+
+/**
+ * Variables used in a selection set, following fragment spreads
+ */
+function collectVariableUsages(
+  selections: QuerySelection[],
+  directives: QueryDirective[],
+  fragments: Map<string, FragmentDefinition>
+): Array<{ name: string; loc: SourceLocation }> {
+  const usages: Array<{ name: string; loc: SourceLocation }> = [];
+  const visitedFragments = new Set<string>();
+
+  const visitValue = (value: QueryValue) => {
+    if (value.kind === 'Variable') {
+      usages.push({ name: value.name, loc: value.loc });
+    } else if (value.kind === 'List') {
+      value.values.forEach(visitValue);
+    } else if (value.kind === 'Object') {
+      value.fields.forEach((field) => visitValue(field.value));
+    }
+  };
+  const visitDirectives = (list: QueryDirective[]) => {
+    list.forEach((directive) => directive.arguments.forEach((arg) => visitValue(arg.value)));
+  };
+  const visitSelections = (list: QuerySelection[]) => {
+    for (const selection of list) {
+      visitDirectives(selection.directives);
+      if (selection.kind === 'Field') {
+        selection.arguments.forEach((arg) => visitValue(arg.value));
+        if (selection.selectionSet) visitSelections(selection.selectionSet);
+      } else if (selection.kind === 'InlineFragment') {
+        visitSelections(selection.selectionSet);
+      } else if (!visitedFragments.has(selection.name)) {
+        visitedFragments.add(selection.name);
+        const fragment = fragments.get(selection.name);
+        if (fragment) {
+          visitDirectives(fragment.directives);
+          visitSelections(fragment.selectionSet);
+        }
+      }
+    }
+  };
+
+  visitDirectives(directives);
+  visitSelections(selections);
+  return usages;
+}
+
+/**
+ * Turns a lexer/parser error into a positioned validation error
+ */
+function toSyntaxError(error: unknown): QueryValidationError {
+  const message = error instanceof Error ? error.message : String(error);
+  const match = SYNTAX_ERROR_POSITION.exec(message);
+  return match
+    ? { message: `Syntax error: ${match[3]}`, line: Number(match[1]), column: Number(match[2]) }
+    : { message, line: 1, column: 1 };
+}
+
+// ============================================================================
+// Main Functions
+// ============================================================================
+
+/**
+ * Validates a parsed document
+ *
+ * Checks field names against their parent type, argument names (including
+ * input object fields) and required arguments, that leaf fields have no
+ * selection set and composite fields have one, fragment targets and where
+ * they can be spread, and that every variable an operation uses is defined.
+ *
+ * @param document - Parsed query
+ * @param schema - Types and query type name
+ * @returns Errors in document order
+ */
+export function validateDocument(document: QueryDocument, schema: ValidationSchema): QueryValidationError[] {
+  const errors: QueryValidationError[] = [];
+  const fragments = new Map<string, FragmentDefinition>();
+
+  const report = (message: string, loc: SourceLocation) => {
+    errors.push({ message, line: loc.line, column: loc.column });
+  };
+
+  for (const fragment of document.fragments) {
+    if (fragments.has(fragment.name)) {
+      report(`Fragment "${fragment.name}" is defined more than once`, fragment.loc);
+    }
+    fragments.set(fragment.name, fragment);
+  }
+
+  // --------------------------------------------------------------------------
+  // Arguments and values
+  // --------------------------------------------------------------------------
+
+  const validateValue = (value: QueryValue, typeRef: IntrospectionTypeRef) => {
+    const unwrapped = unwrapType(typeRef);
+    if (value.kind === 'List') {
+      value.values.forEach((item) => validateValue(item, unwrapped.isList ? listItemType(typeRef) : typeRef));
+      return;
+    }
+    if (value.kind !== 'Object') return;
+
+    const inputType = schema.types.get(unwrapped.name);
+    if (!inputType?.inputFields) return;
+    validateArguments(value.fields, inputType.inputFields, `input type "${inputType.name}"`, 'Field', value.loc);
+  };
+
+  const validateArguments = (
+    args: QueryArgument[],
+    definitions: IntrospectionInputValue[],
+    owner: string,
+    noun: 'Argument' | 'Field',
+    loc: SourceLocation
+  ) => {
+    const seen = new Set<string>();
+    for (const arg of args) {
+      if (seen.has(arg.name)) {
+        report(`${noun} "${arg.name}" is given more than once`, arg.loc);
+      }
+      seen.add(arg.name);
+
+      const definition = definitions.find((candidate) => candidate.name === arg.name);
+      if (!definition) {
+        report(`Unknown ${noun.toLowerCase()} "${arg.name}" on ${owner}`, arg.loc);
+        continue;
+      }
+      validateValue(arg.value, definition.type);
+    }
+
+    for (const definition of definitions) {
+      if (isRequiredInput(definition) && !seen.has(definition.name)) {
+        report(`${noun} "${definition.name}" of type "${formatTypeRef(definition.type)}" is required on ${owner}`, loc);
+      }
+    }
+  };
+
+  const validateDirectives = (directives: QueryDirective[]) => {
+    for (const directive of directives) {
+      const definitions = EXECUTABLE_DIRECTIVES[directive.name];
+      if (!definitions) {
+        report(`Unknown directive "@${directive.name}"`, directive.loc);
+        continue;
+      }
+      validateArguments(directive.arguments, definitions, `directive "@${directive.name}"`, 'Argument', directive.loc);
+    }
+  };
+
+  // --------------------------------------------------------------------------
+  // Selections
+  // --------------------------------------------------------------------------
+
+  /**
+   * Object types a composite type can be at runtime, or null when the
+   * schema does not list them (e.g. a partial cache)
+   */
+  const getPossibleTypeNames = (type: IntrospectionType): Set<string> | null => {
+    if (type.kind === 'OBJECT') {
+      return new Set([type.name]);
+    }
+    const names = (type.possibleTypes ?? []).map((possible) => possible.name ?? '');
+    return names.length > 0 ? new Set(names) : null;
+  };
+
+  // A fragment applies when its type and the parent share a possible type
+  const canSpread = (fragmentType: IntrospectionType, parent: IntrospectionType): boolean => {
+    if (fragmentType.name === parent.name) return true;
+    const fragmentPossible = getPossibleTypeNames(fragmentType);
+    const parentPossible = getPossibleTypeNames(parent);
+    if (!fragmentPossible || !parentPossible) return true;
+    return Array.from(fragmentPossible).some((name) => parentPossible.has(name));
+  };
+
+  const validateSelections = (selections: QuerySelection[], parent: IntrospectionType, isRoot: boolean) => {
+    for (const selection of selections) {
+      validateDirectives(selection.directives);
+
+      if (selection.kind === 'FragmentSpread') {
+        const fragment = fragments.get(selection.name);
+        if (!fragment) {
+          report(`Unknown fragment "${selection.name}"`, selection.loc);
+          continue;
+        }
+        const fragmentType = schema.types.get(fragment.typeCondition);
+        if (fragmentType && COMPOSITE_KINDS.has(fragmentType.kind) && !canSpread(fragmentType, parent)) {
+          report(
+            `Fragment "${fragment.name}" cannot be spread here as objects of type "${parent.name}" can never be of type "${fragmentType.name}"`,
+            selection.loc
+          );
+        }
+        continue;
+      }
+
+      if (selection.kind === 'InlineFragment') {
+        const type = selection.typeCondition ? schema.types.get(selection.typeCondition) : parent;
+        if (!type) {
+          report(`Unknown type "${selection.typeCondition}"`, selection.loc);
+          continue;
+        }
+        if (!COMPOSITE_KINDS.has(type.kind)) {
+          report(`Fragment cannot condition on non-composite type "${type.name}"`, selection.loc);
+          continue;
+        }
+        if (!canSpread(type, parent)) {
+          report(
+            `Fragment cannot be spread here as objects of type "${parent.name}" can never be of type "${type.name}"`,
+            selection.loc
+          );
+          continue;
+        }
+        validateSelections(selection.selectionSet, type, isRoot);
+        continue;
+      }
+
+      if (selection.name === '__typename' || (isRoot && ROOT_META_FIELDS.has(selection.name))) {
+        if (selection.name === '__typename' && selection.selectionSet) {
+          report('Field "__typename" must not have a selection since type "String" has no subfields', selection.loc);
+        }
+        continue;
+      }
+
+      const field = parent.fields?.find((candidate) => candidate.name === selection.name);
+      if (!field) {
+        report(`Cannot query field "${selection.name}" on type "${parent.name}"`, selection.loc);
+        continue;
+      }
+
+      // Schemas without argument definitions (the bundled cache) cannot
+      // verify arguments, so none are reported as unknown or missing
+      if (field.args) {
+        validateArguments(
+          selection.arguments,
+          field.args,
+          `field "${parent.name}.${field.name}"`,
+          'Argument',
+          selection.loc
+        );
+      }
+
+      const unwrapped = unwrapType(field.type);
+      const fieldType = schema.types.get(unwrapped.name);
+      const kind = fieldType?.kind ?? unwrapped.kind;
+      if (LEAF_KINDS.has(kind)) {
+        if (selection.selectionSet) {
+          report(
+            `Field "${field.name}" must not have a selection since type "${unwrapped.name}" has no subfields`,
+            selection.loc
+          );
+        }
+      } else if (!selection.selectionSet) {
+        report(
+          `Field "${field.name}" of type "${formatTypeRef(field.type)}" must have a selection of subfields`,
+          selection.loc
+        );
+      } else if (fieldType) {
+        validateSelections(selection.selectionSet, fieldType, false);
+      }
+    }
+  };
+
+  for (const fragment of fragments.values()) {
+    validateDirectives(fragment.directives);
+    const type = schema.types.get(fragment.typeCondition);
+    if (!type) {
+      report(`Unknown type "${fragment.typeCondition}"`, fragment.loc);
+      continue;
+    }
+    if (!COMPOSITE_KINDS.has(type.kind)) {
+      report(`Fragment "${fragment.name}" cannot condition on non-composite type "${type.name}"`, fragment.loc);
+      continue;
+    }
+    validateSelections(fragment.selectionSet, type, false);
+  }
+
+  // --------------------------------------------------------------------------
+  // Operations
+  // --------------------------------------------------------------------------
+
+  const queryType = schema.queryTypeName ? schema.types.get(schema.queryTypeName) : undefined;
+  for (const operation of document.operations) {
+    validateDirectives(operation.directives);
+
+    const defined = new Set<string>();
+    for (const definition of operation.variableDefinitions) {
+      if (defined.has(definition.name)) {
+        report(`Variable "$${definition.name}" is defined more than once`, definition.loc);
+      }
+      defined.add(definition.name);
+      if (!schema.types.has(definition.typeName) && !BUILT_IN_SCALARS.has(definition.typeName)) {
+        report(`Unknown type "${definition.typeName}"`, definition.loc);
+      }
+    }
+    for (const usage of collectVariableUsages(operation.selectionSet, operation.directives, fragments)) {
+      if (!defined.has(usage.name)) {
+        const name = operation.name ? ` by operation "${operation.name}"` : '';
+        report(`Variable "$${usage.name}" is not defined${name}`, usage.loc);
+      }
+    }
+
+    if (operation.operation !== 'query') {
+      report(`Cannot validate a ${operation.operation}: the schema cache only covers queries`, operation.loc);
+      continue;
+    }
+    if (!queryType) {
+      report('Schema has no query type', operation.loc);
+      continue;
+    }
+    validateSelections(operation.selectionSet, queryType, true);
+  }
+
+  return errors.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/**
+ * Checks that every required variable of the document's operations has a value
+ *
+ * @param document - Parsed query
+ * @param variables - Variable values that would be sent with the query
+ * @returns Errors for missing required variables
+ */
+export function validateVariables(
+  document: QueryDocument,
+  variables: Record<string, unknown>
+): QueryValidationError[] {
+  const errors: QueryValidationError[] = [];
+  for (const operation of document.operations) {
+    for (const definition of operation.variableDefinitions) {
+      const required = definition.type.endsWith('!') && definition.defaultValue === null;
+      const value = variables[definition.name];
+      if (required && (value === undefined || value === null)) {
+        errors.push({
+          message: `Variable "$${definition.name}" of required type "${definition.type}" has no value`,
+          line: definition.loc.line,
+          column: definition.loc.column,
+        });
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Parses and validates a query document
+ *
+ * @param source - Query text
+ * @param schema - Types and query type name
+ * @returns Parsed document (null on syntax errors) and errors
+ */
+export function validateQuery(source: string, schema: ValidationSchema): QueryValidationResult {
+  let document: QueryDocument;
+  try {
+    document = parseQuery(source);
+  } catch (error) {
+    return { document: null, errors: [toSyntaxError(error)] };
+  }
+  return { document, errors: validateDocument(document, schema) };
+}
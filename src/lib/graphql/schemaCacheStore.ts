@@ -0,0 +1,203 @@
+/**
+ * Schema Cache Store - Persists full introspection results in IndexedDB
+ *
+ * Entries are keyed by endpoint profile id and carry a fingerprint of the
+ * schema's types and field signatures, so an upgraded Nautobot (new, removed
+ * or retyped types and fields) is detected with one cheap query instead of a
+ * full re-introspection.
+ *
+ * All operations degrade to a cache miss when IndexedDB is unavailable
+ * (e.g., private browsing), so callers never need to handle storage errors.
+ */
+
+import { IntrospectionSchema, IntrospectionTypeRef } from './introspection';
+import { formatTypeRef } from './typeRef';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface PersistedSchemaEntry {
+  /** Endpoint profile id the schema belongs to */
+  profileId: string;
+  /** Hash of the schema's sorted types and field signatures */
+  fingerprint: string;
+  /** When the full introspection was fetched (epoch ms) */
+  fetchedAt: number;
+  /** When the fingerprint was last confirmed against the server (epoch ms) */
+  verifiedAt: number;
+  /** Full `__schema` introspection result */
+  schema: IntrospectionSchema;
+}
+
+/**
+ * Field or input field as far as the fingerprint reads it
+ */
+export interface FingerprintField {
+  name: string;
+  type: IntrospectionTypeRef;
+}
+
+/**
+ * Type as far as the fingerprint reads it (a full introspection type fits)
+ */
+export interface FingerprintType {
+  name: string;
+  kind: string;
+  fields?: FingerprintField[] | null;
+  inputFields?: FingerprintField[] | null;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** How long an entry is trusted without re-checking its fingerprint */
+export const SCHEMA_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+const DB_NAME = 'modelVisualizer';
+const DB_VERSION = 1;
+const STORE_NAME = 'schemas';
+
+// ============================================================================
+// Module State
+// ============================================================================
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Opens (and on first use creates) the cache database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'profileId' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Runs a single request against the schema store
+ *
+ * @param mode - Transaction mode
+ * @param run - Creates the request from the object store
+ * @returns The request's result
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Reads the persisted schema for a profile
+ *
+ * @param profileId - Endpoint profile id
+ * @returns Stored entry, or null on miss or storage failure
+ */
+export async function readSchemaEntry(profileId: string): Promise<PersistedSchemaEntry | null> {
+  try {
+    const entry = await withStore<PersistedSchemaEntry | undefined>('readonly', (store) =>
+      store.get(profileId)
+    );
+    return entry ?? null;
+  } catch (error) {
+    console.warn('[Schema Cache] Read failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Persists (or replaces) the schema for a profile
+ *
+ * @param entry - Entry to store
+ */
+export async function writeSchemaEntry(entry: PersistedSchemaEntry): Promise<void> {
+  try {
+    await withStore('readwrite', (store) => store.put(entry));
+  } catch (error) {
+    console.warn('[Schema Cache] Write failed:', error);
+  }
+}
+
+/**
+ * Removes the persisted schema for a profile
+ *
+ * @param profileId - Endpoint profile id
+ */
+export async function deleteSchemaEntry(profileId: string): Promise<void> {
+  try {
+    await withStore('readwrite', (store) => store.delete(profileId));
+  } catch (error) {
+    console.warn('[Schema Cache] Delete failed:', error);
+  }
+}
+
+/**
+ * Checks whether an entry is past its TTL and must be re-verified
+ *
+ * @param entry - Persisted entry
+ * @param now - Current time (epoch ms)
+ * @returns True if the fingerprint should be re-checked before use
+ */
+export function isEntryExpired(entry: PersistedSchemaEntry, now: number = Date.now()): boolean {
+  return now - entry.verifiedAt > SCHEMA_CACHE_TTL_MS;
+}
+
+/**
+ * Computes a cheap fingerprint of a schema's types and their field
+ * signatures (FNV-1a, 32-bit)
+ * Order-independent: types and fields are sorted before hashing
+ *
+ * @param types - Types with at least `name kind` and the name and type of
+ *   their fields and input fields
+ * @returns Hex fingerprint
+ */
+export function computeSchemaFingerprint(types: FingerprintType[]): string {
+  const printFields = (fields: FingerprintField[] | null | undefined) =>
+    (fields ?? [])
+      .map((field) => `${field.name}:${formatTypeRef(field.type)}`)
+      .sort()
+      .join(',');
+
+  const signature = types
+    .map((type) => `${type.kind}:${type.name}{${printFields(type.fields)}}{${printFields(type.inputFields)}}`)
+    .sort()
+    .join('|');
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < signature.length; i++) {
+    hash ^= signature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return `${(hash >>> 0).toString(16).padStart(8, '0')}-${types.length}`;
+}
@@ -0,0 +1,182 @@
+/**
+ * Schema Files - Loads a user-supplied schema as the offline data source
+ *
+ * Accepted formats:
+ * - Standard introspection JSON (`{ data: { __schema } }` or `{ __schema }`)
+ * - SDL (`.graphql`, `.gql`, `.graphqls`)
+ * - The prefetch script's `{ discoveredTypes, types }` cache format
+ */
+
+import { IntrospectionSchema, IntrospectionType } from './introspection';
+import { parseSDL } from './sdlParser';
+import { installSchema, resetSchemaIndex } from './schemaLoader';
+import { deleteSchemaEntry } from './schemaCacheStore';
+import { OFFLINE_PROFILE_ID, activateOfflineProfile, deleteProfile } from './profiles';
+import schemaCache from '../../data/schema-cache.json';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type SchemaFileFormat = 'introspection' | 'sdl' | 'prefetch';
+
+export interface ParsedSchemaFile {
+  format: SchemaFileFormat;
+  schema: IntrospectionSchema;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SDL_EXTENSIONS = ['.graphql', '.gql', '.graphqls'];
+
+/** Value for a file input's `accept` attribute */
+export const SCHEMA_FILE_ACCEPT = ['.json', ...SDL_EXTENSIONS].join(',');
+
+// ============================================================================
+// Type Guards
+// ============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * A type entry: string `name` and `kind`, and `fields` a list or null
+ * (absent on types without fields in trimmed caches)
+ */
+function isIntrospectionType(value: unknown): value is IntrospectionType {
+  return (
+    isRecord(value) &&
+    typeof value.name === 'string' &&
+    typeof value.kind === 'string' &&
+    (value.fields === undefined || value.fields === null || Array.isArray(value.fields))
+  );
+}
+
+function isIntrospectionSchema(value: unknown): value is IntrospectionSchema {
+  return isRecord(value) && Array.isArray(value.types) && value.types.every(isIntrospectionType);
+}
+
+/**
+ * The prefetch script's cache: `{ discoveredTypes: [...], types: { [name]: type } }`
+ */
+function isPrefetchCache(
+  value: Record<string, unknown>
+): value is { discoveredTypes: unknown[]; types: Record<string, IntrospectionType> } {
+  return (
+    Array.isArray(value.discoveredTypes) &&
+    isRecord(value.types) &&
+    Object.values(value.types).every(isIntrospectionType)
+  );
+}
+
+// ============================================================================
+// Main Functions
+// ============================================================================
+
+/**
+ * Converts a JSON document in any supported shape into a schema
+ *
+ * @param json - Parsed JSON
+ * @returns Parsed schema and the detected format
+ * @throws Error if the JSON is not an object or matches no supported format
+ */
+function parseSchemaJson(json: unknown): ParsedSchemaFile {
+  if (!isRecord(json)) {
+    throw new Error(`Invalid JSON schema: expected an object, found ${Array.isArray(json) ? 'an array' : typeof json}`);
+  }
+
+  const introspection = isRecord(json.data) ? json.data.__schema : json.__schema;
+  if (isIntrospectionSchema(introspection)) {
+    return { format: 'introspection', schema: introspection };
+  }
+  if (isRecord(introspection) && Array.isArray(introspection.types)) {
+    const index = introspection.types.findIndex((type) => !isIntrospectionType(type));
+    throw new Error(`Invalid introspection result: type ${index} needs a string "name" and "kind" and a "fields" list or null`);
+  }
+
+  if (isPrefetchCache(json)) {
+    return {
+      format: 'prefetch',
+      schema: {
+        queryType: json.types.Query ? { name: 'Query' } : null,
+        mutationType: null,
+        subscriptionType: null,
+        types: Object.values(json.types),
+      },
+    };
+  }
+
+  throw new Error(
+    'Unrecognized JSON schema. Expected an introspection result ({ "__schema": ... }) or a schema-cache.json file.'
+  );
+}
+
+/**
+ * Parses schema file contents, detecting the format from name and content
+ *
+ * @param fileName - File name (extension selects SDL or JSON)
+ * @param text - File contents
+ * @returns Parsed schema and the detected format
+ * @throws Error if the contents cannot be parsed
+ */
+export function parseSchemaFile(fileName: string, text: string): ParsedSchemaFile {
+  const lowerName = fileName.toLowerCase();
+  const isSdl = SDL_EXTENSIONS.some((ext) => lowerName.endsWith(ext));
+  const isJson = lowerName.endsWith('.json') || /^[[{]/.test(text.trimStart());
+
+  if (!isSdl && isJson) {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : 'parse error'}`);
+    }
+    return parseSchemaJson(json);
+  }
+
+  return { format: 'sdl', schema: parseSDL(text) };
+}
+
+/**
+ * Returns the prefetched `schema-cache.json` shipped with the build as a schema
+ *
+ * @returns Schema built from the bundled cache
+ */
+export function getBundledSchema(): IntrospectionSchema {
+  return parseSchemaJson(schemaCache).schema;
+}
+
+/**
+ * Reads a schema file and makes it the active (offline) data source
+ *
+ * @param file - File from a file picker or drop event
+ * @returns Detected format and number of named types loaded
+ * @throws Error if the file cannot be read or parsed
+ */
+export async function loadSchemaFile(
+  file: File
+): Promise<{ format: SchemaFileFormat; typeCount: number }> {
+  const { format, schema } = parseSchemaFile(file.name, await file.text());
+  const index = await installSchema(OFFLINE_PROFILE_ID, schema);
+
+  console.log('[Schema File] Loaded offline schema:', {
+    file: file.name,
+    format,
+    types: index.types.size,
+  });
+
+  activateOfflineProfile(file.name);
+  return { format, typeCount: index.types.size };
+}
+
+/**
+ * Removes the loaded schema file and its offline profile
+ */
+export async function unloadSchemaFile(): Promise<void> {
+  resetSchemaIndex(OFFLINE_PROFILE_ID);
+  await deleteSchemaEntry(OFFLINE_PROFILE_ID);
+  deleteProfile(OFFLINE_PROFILE_ID);
+}
@@ -0,0 +1,529 @@
+import { abortable, executeGraphQLQuery } from './client';
+import { IntrospectionSchema, IntrospectionType } from './introspection';
+import { buildTypeRefSelection } from './typeRef';
+import { EndpointProfile, ENV_PROFILE_ID, getActiveProfile } from './profiles';
+import {
+  FingerprintType,
+  PersistedSchemaEntry,
+  computeSchemaFingerprint,
+  deleteSchemaEntry,
+  isEntryExpired,
+  readSchemaEntry,
+  writeSchemaEntry,
+} from './schemaCacheStore';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * In-memory index over a full `__schema` introspection result
+ * Provides O(1) type lookups so callers never need per-type round trips
+ */
+export interface SchemaIndex {
+  /** All named types keyed by typename (introspection types excluded) */
+  types: Map<string, IntrospectionType>;
+  /** Name of the schema's root query type (e.g., "Query") */
+  queryTypeName: string | null;
+  /** When the underlying introspection result was fetched */
+  loadedAt: Date;
+  /** Fingerprint of the types and field signatures, used to detect schema changes */
+  fingerprint: string;
+}
+
+/**
+ * Where the active profile's schema currently comes from
+ *
+ * - `bundled`: prefetched `schema-cache.json` shipped with the build
+ * - `persisted`: IndexedDB copy of an earlier introspection
+ * - `network`: introspected from the endpoint in this session
+ * - `file`: user-supplied schema file (offline profile)
+ */
+export type SchemaSource = 'bundled' | 'persisted' | 'network' | 'file';
+
+export interface SchemaCacheStatus {
+  /** Current source, or null until the schema has been loaded */
+  source: SchemaSource | null;
+  /** When the schema was fetched from the server (null for bundled/unloaded) */
+  loadedAt: Date | null;
+  /** True when the server's types or fields no longer match the loaded schema */
+  stale: boolean;
+  /** Incremented on every manual refresh; consumers reload when it changes */
+  revision: number;
+}
+
+type SchemaCacheListener = () => void;
+
+interface FullSchemaIntrospectionResult {
+  __schema: IntrospectionSchema;
+}
+
+interface SchemaFingerprintResult {
+  __schema: {
+    types: FingerprintType[];
+  };
+}
+
+// ============================================================================
+// GraphQL Queries
+// ============================================================================
+
+/**
+ * Standard full-schema introspection query (directives omitted)
+ * Fetches every type in one round trip; used to build the in-memory
+ * schema index that serves `introspectType` and `discoverAllTypes`
+ */
+export const FULL_SCHEMA_INTROSPECTION_QUERY = `
+  query IntrospectionQuery {
+    __schema {
+      queryType { name }
+      mutationType { name }
+      subscriptionType { name }
+      types {
+        ...FullType
+      }
+    }
+  }
+
+  fragment FullType on __Type {
+    kind
+    name
+    description
+    fields(includeDeprecated: true) {
+      name
+      description
+      args {
+        ...InputValue
+      }
+      type {
+        ...TypeRef
+      }
+      isDeprecated
+      deprecationReason
+    }
+    inputFields {
+      ...InputValue
+    }
+    interfaces {
+      ...TypeRef
+    }
+    enumValues(includeDeprecated: true) {
+      name
+      description
+      isDeprecated
+      deprecationReason
+    }
+    possibleTypes {
+      ...TypeRef
+    }
+  }
+
+  fragment InputValue on __InputValue {
+    name
+    description
+    type { ...TypeRef }
+    defaultValue
+  }
+
+  fragment TypeRef on __Type {
+    ${buildTypeRefSelection()}
+  }
+`;
+
+/**
+ * Type list with field signatures, used to check a persisted schema is
+ * still current (descriptions, arguments and enum values are left out)
+ */
+const SCHEMA_FINGERPRINT_QUERY = `
+  query SchemaFingerprint {
+    __schema {
+      types {
+        name
+        kind
+        fields(includeDeprecated: true) {
+          name
+          type { ...TypeRef }
+        }
+        inputFields {
+          name
+          type { ...TypeRef }
+        }
+      }
+    }
+  }
+
+  fragment TypeRef on __Type {
+    ${buildTypeRefSelection()}
+  }
+`;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Full introspection of a large Nautobot schema can take a while */
+const SCHEMA_TIMEOUT_MS = 120000;
+
+const EMPTY_STATUS: SchemaCacheStatus = {
+  source: null,
+  loadedAt: null,
+  stale: false,
+  revision: 0,
+};
+
+// ============================================================================
+// Module State
+// ============================================================================
+
+/**
+ * Shared in-flight/settled loads keyed by profile id - concurrent callers reuse
+ * the same promise, so a burst of `introspectType` calls results in a single request
+ */
+const schemaIndexPromises = new Map<string, Promise<SchemaIndex>>();
+
+/** Cache status per profile id, surfaced in the drawer */
+const schemaStatuses = new Map<string, SchemaCacheStatus>();
+const statusListeners = new Set<SchemaCacheListener>();
+
+/**
+ * Profiles whose bundled snapshot was bypassed by a manual refresh
+ * Lasts for the session; a reload goes back to the bundled cache
+ */
+const liveSchemaProfiles = new Set<string>();
+
+// ============================================================================
+// Cache Status
+// ============================================================================
+
+/**
+ * Returns the schema cache status for a profile
+ *
+ * @param profileId - Endpoint profile id
+ */
+export function getSchemaCacheStatus(profileId: string): SchemaCacheStatus {
+  return schemaStatuses.get(profileId) ?? EMPTY_STATUS;
+}
+
+/**
+ * Subscribes to schema cache status changes
+ *
+ * @param listener - Called after any status change
+ * @returns Unsubscribe function
+ */
+export function subscribeToSchemaCache(listener: SchemaCacheListener): () => void {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+function updateSchemaStatus(profileId: string, patch: Partial<SchemaCacheStatus>): void {
+  schemaStatuses.set(profileId, { ...getSchemaCacheStatus(profileId), ...patch });
+  statusListeners.forEach((listener) => listener());
+}
+
+/**
+ * Records that a profile is being served from the bundled snapshot
+ *
+ * @param profileId - Endpoint profile id
+ */
+export function reportBundledSchema(profileId: string): void {
+  if (getSchemaCacheStatus(profileId).source !== 'bundled') {
+    updateSchemaStatus(profileId, { source: 'bundled', loadedAt: null, stale: false });
+  }
+}
+
+/**
+ * Whether a profile should skip the bundled snapshot and introspect live
+ *
+ * @param profileId - Endpoint profile id
+ */
+export function prefersLiveSchema(profileId: string): boolean {
+  return liveSchemaProfiles.has(profileId);
+}
+
+// ============================================================================
+// Main Functions
+// ============================================================================
+
+/**
+ * Builds a type index from a full schema introspection result
+ * Skips GraphQL's own `__*` introspection types
+ *
+ * @param schema - The `__schema` object from an introspection response
+ * @param loadedAt - When the introspection was fetched
+ * @returns Schema index keyed by typename
+ */
+export function buildSchemaIndex(
+  schema: IntrospectionSchema,
+  loadedAt: Date = new Date()
+): SchemaIndex {
+  const types = new Map<string, IntrospectionType>();
+
+  for (const type of schema.types) {
+    if (!type.name || type.name.startsWith('__')) {
+      continue;
+    }
+    types.set(type.name, type);
+  }
+
+  return {
+    types,
+    queryTypeName: schema.queryType?.name ?? null,
+    loadedAt,
+    fingerprint: computeSchemaFingerprint(schema.types),
+  };
+}
+
+/**
+ * Fetches the complete schema with one standard introspection query
+ *
+ * @param profile - Endpoint profile to introspect
+ * @returns The `__schema` object from the response
+ * @throws Error if the request fails or the response has no `__schema`
+ */
+export async function fetchFullSchema(profile: EndpointProfile | null): Promise<IntrospectionSchema> {
+  console.log('[Schema Loader] Fetching full schema introspection...', {
+    profile: profile?.name,
+  });
+  const startTime = Date.now();
+
+  const response = await executeGraphQLQuery<FullSchemaIntrospectionResult>(
+    FULL_SCHEMA_INTROSPECTION_QUERY,
+    {},
+    { profile: profile ?? undefined, timeoutMs: SCHEMA_TIMEOUT_MS }
+  );
+
+  if (response.errors) {
+    const errorMessages = response.errors.map(e => e.message).join(', ');
+    throw new Error(`Schema introspection failed: ${errorMessages}`);
+  }
+
+  if (!response.data?.__schema?.types) {
+    throw new Error('Invalid schema introspection response');
+  }
+
+  console.log('[Schema Loader] Complete:', {
+    types: response.data.__schema.types.length,
+    duration: `${Date.now() - startTime}ms`,
+  });
+
+  return response.data.__schema;
+}
+
+/**
+ * Fetches only the type list and field signatures and fingerprints them
+ *
+ * @param profile - Endpoint profile to check
+ * @returns Current server-side schema fingerprint
+ * @throws Error if the request fails
+ */
+async function fetchSchemaFingerprint(profile: EndpointProfile | null): Promise<string> {
+  const response = await executeGraphQLQuery<SchemaFingerprintResult>(
+    SCHEMA_FINGERPRINT_QUERY,
+    {},
+    { profile: profile ?? undefined }
+  );
+
+  if (response.errors || !response.data?.__schema?.types) {
+    throw new Error('Schema fingerprint query failed');
+  }
+
+  return computeSchemaFingerprint(response.data.__schema.types);
+}
+
+/**
+ * Checks a persisted schema against the server without blocking its use
+ * On mismatch the entry is dropped and the status is flagged stale, so the
+ * drawer can prompt for a refresh (and the next reload re-introspects)
+ *
+ * @param profile - Endpoint profile the entry belongs to
+ * @param entry - Persisted entry being served
+ */
+async function verifyInBackground(
+  profile: EndpointProfile | null,
+  entry: PersistedSchemaEntry
+): Promise<void> {
+  const revision = getSchemaCacheStatus(entry.profileId).revision;
+
+  try {
+    const fingerprint = await fetchSchemaFingerprint(profile);
+    if (getSchemaCacheStatus(entry.profileId).revision !== revision) {
+      return;
+    }
+
+    if (fingerprint === entry.fingerprint) {
+      await writeSchemaEntry({ ...entry, verifiedAt: Date.now() });
+      return;
+    }
+
+    console.log('[Schema Loader] Server schema changed since it was cached', {
+      profile: entry.profileId,
+    });
+    await deleteSchemaEntry(entry.profileId);
+    updateSchemaStatus(entry.profileId, { stale: true });
+  } catch (error) {
+    console.warn('[Schema Loader] Background schema check failed:', error);
+  }
+}
+
+/**
+ * Loads a profile's schema, preferring the persisted copy
+ *
+ * - Fresh entry (within TTL): used immediately, verified in the background
+ * - Expired entry: fingerprint checked first; re-used if unchanged
+ * - Missing or changed: full introspection, then persisted
+ *
+ * @param profile - Endpoint profile to load
+ * @param profileId - Cache key for the profile
+ * @returns Schema index for the profile
+ */
+async function fetchSchemaIndex(
+  profile: EndpointProfile | null,
+  profileId: string
+): Promise<SchemaIndex> {
+  const entry = await readSchemaEntry(profileId);
+
+  // Offline schemas have no endpoint to verify against or re-fetch from
+  if (profile?.offline) {
+    if (!entry) {
+      throw new Error(`No schema file stored for "${profile.name}". Load the file again.`);
+    }
+    const loadedAt = new Date(entry.fetchedAt);
+    updateSchemaStatus(profileId, { source: 'file', loadedAt, stale: false });
+    return buildSchemaIndex(entry.schema, loadedAt);
+  }
+
+  if (entry) {
+    let reuse = !isEntryExpired(entry);
+
+    if (reuse) {
+      void verifyInBackground(profile, entry);
+    } else {
+      try {
+        reuse = (await fetchSchemaFingerprint(profile)) === entry.fingerprint;
+        if (reuse) {
+          await writeSchemaEntry({ ...entry, verifiedAt: Date.now() });
+        }
+      } catch (error) {
+        // Endpoint unreachable - an old schema beats no schema
+        console.warn('[Schema Loader] Could not verify expired schema, using it anyway:', error);
+        reuse = true;
+      }
+    }
+
+    if (reuse) {
+      console.log('[Schema Loader] Using persisted schema', {
+        profile: profileId,
+        fetchedAt: new Date(entry.fetchedAt).toISOString(),
+      });
+      const loadedAt = new Date(entry.fetchedAt);
+      updateSchemaStatus(profileId, { source: 'persisted', loadedAt });
+      return buildSchemaIndex(entry.schema, loadedAt);
+    }
+  }
+
+  const schema = await fetchFullSchema(profile);
+  const index = buildSchemaIndex(schema);
+
+  await writeSchemaEntry({
+    profileId,
+    fingerprint: index.fingerprint,
+    fetchedAt: index.loadedAt.getTime(),
+    verifiedAt: index.loadedAt.getTime(),
+    schema,
+  });
+  updateSchemaStatus(profileId, { source: 'network', loadedAt: index.loadedAt, stale: false });
+
+  return index;
+}
+
+/**
+ * Returns the schema index for the active profile, loading it on first use
+ * Each profile has its own index, persisted across reloads in IndexedDB
+ * A failed load is not memoized, so the next call retries
+ * Aborting only stops this caller from waiting - the shared load keeps running
+ *
+ * @param signal - Optional abort signal for this caller
+ * @returns Schema index for the active endpoint
+ * @throws AbortError if cancelled, Error if the schema cannot be introspected
+ */
+export function loadSchemaIndex(signal?: AbortSignal): Promise<SchemaIndex> {
+  const profile = getActiveProfile();
+  const key = profile?.id ?? ENV_PROFILE_ID;
+
+  let promise = schemaIndexPromises.get(key);
+  if (!promise) {
+    promise = fetchSchemaIndex(profile, key).catch((error) => {
+      schemaIndexPromises.delete(key);
+      throw error;
+    });
+    schemaIndexPromises.set(key, promise);
+  }
+  return abortable(promise, signal);
+}
+
+/**
+ * Drops memoized schema indexes so the next lookup re-introspects
+ *
+ * @param profileId - Profile to reset (all profiles when omitted)
+ */
+export function resetSchemaIndex(profileId?: string): void {
+  if (profileId) {
+    schemaIndexPromises.delete(profileId);
+  } else {
+    schemaIndexPromises.clear();
+  }
+}
+
+/**
+ * Installs an already-parsed schema for a profile (e.g., a loaded file)
+ * Persists it, replaces any memoized index and bumps the revision
+ *
+ * @param profileId - Profile the schema belongs to
+ * @param schema - Full schema
+ * @returns Index built from the schema
+ */
+export async function installSchema(
+  profileId: string,
+  schema: IntrospectionSchema
+): Promise<SchemaIndex> {
+  const index = buildSchemaIndex(schema);
+
+  await writeSchemaEntry({
+    profileId,
+    fingerprint: index.fingerprint,
+    fetchedAt: index.loadedAt.getTime(),
+    verifiedAt: index.loadedAt.getTime(),
+    schema,
+  });
+  schemaIndexPromises.set(profileId, Promise.resolve(index));
+
+  updateSchemaStatus(profileId, {
+    source: 'file',
+    loadedAt: index.loadedAt,
+    stale: false,
+    revision: getSchemaCacheStatus(profileId).revision + 1,
+  });
+
+  return index;
+}
+
+/**
+ * Discards every cached copy of a profile's schema and forces live introspection
+ * Bumps the status revision so discovery and the graph reload
+ *
+ * @param profileId - Profile to refresh
+ */
+export async function refreshSchemaCache(profileId: string): Promise<void> {
+  liveSchemaProfiles.add(profileId);
+  schemaIndexPromises.delete(profileId);
+  await deleteSchemaEntry(profileId);
+
+  updateSchemaStatus(profileId, {
+    source: null,
+    loadedAt: null,
+    stale: false,
+    revision: getSchemaCacheStatus(profileId).revision + 1,
+  });
+}
@@ -0,0 +1,437 @@
+/**
+ * SDL Parser - Converts a GraphQL schema definition (`.graphql`) into the
+ * introspection shape the rest of the app works with
+ *
+ * Supports type, interface, union, enum, input and scalar definitions,
+ * `extend` on all of them, schema definitions and descriptions. Directive
+ * definitions are skipped; `@deprecated` on fields and enum values is honored.
+ */
+
+import {
+  IntrospectionEnumValue,
+  IntrospectionField,
+  IntrospectionInputValue,
+  IntrospectionSchema,
+  IntrospectionType,
+  IntrospectionTypeRef,
+} from './introspection';
+import { Token, formatPosition, tokenize } from './lexer';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+type TypeKind = IntrospectionTypeRef['kind'];
+
+interface DirectiveInfo {
+  deprecated: boolean;
+  deprecationReason: string | null;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Scalars every GraphQL schema has, whether or not the SDL declares them */
+const BUILT_IN_SCALARS = ['String', 'Int', 'Float', 'Boolean', 'ID'];
+
+const DEFINITION_KINDS: Record<string, TypeKind> = {
+  type: 'OBJECT',
+  interface: 'INTERFACE',
+  union: 'UNION',
+  enum: 'ENUM',
+  input: 'INPUT_OBJECT',
+  scalar: 'SCALAR',
+};
+
+const DEFAULT_DEPRECATION_REASON = 'No longer supported';
+
+// ============================================================================
+// Main Functions
+// ============================================================================
+
+/**
+ * Parses SDL text into an introspection-style schema
+ *
+ * @param source - SDL document text
+ * @returns Schema with every named type, interface implementations resolved
+ * @throws Error with line/column on syntax errors or references to undefined types
+ */
+export function parseSDL(source: string): IntrospectionSchema {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const types = new Map<string, IntrospectionType>();
+  const namedRefs: Array<{ ref: IntrospectionTypeRef; token: Token }> = [];
+  const operations: Record<string, string> = {};
+
+  // --------------------------------------------------------------------------
+  // Token helpers
+  // --------------------------------------------------------------------------
+
+  const peek = (): Token => tokens[index];
+  const advance = (): Token => tokens[index++];
+
+  const fail = (message: string, token: Token = peek()): never => {
+    throw new Error(`SDL error at ${formatPosition(token)}: ${message}`);
+  };
+
+  const isPunct = (value: string): boolean =>
+    peek().kind === 'Punctuator' && peek().value === value;
+
+  const skipPunct = (value: string): boolean => {
+    if (isPunct(value)) {
+      index++;
+      return true;
+    }
+    return false;
+  };
+
+  const expectPunct = (value: string): Token => {
+    if (!isPunct(value)) {
+      fail(`Expected "${value}", found "${peek().value || peek().kind}"`);
+    }
+    return advance();
+  };
+
+  const expectName = (): Token => {
+    if (peek().kind !== 'Name') {
+      fail(`Expected a name, found "${peek().value || peek().kind}"`);
+    }
+    return advance();
+  };
+
+  const isKeyword = (value: string): boolean =>
+    peek().kind === 'Name' && peek().value === value;
+
+  const parseDescription = (): string | undefined => {
+    const token = peek();
+    if (token.kind === 'String' || token.kind === 'BlockString') {
+      index++;
+      return token.value;
+    }
+    return undefined;
+  };
+
+  // --------------------------------------------------------------------------
+  // Values and directives
+  // --------------------------------------------------------------------------
+
+  /**
+   * Consumes a constant value
+   * @returns The value's source text (and decoded string contents if a string)
+   */
+  const parseValue = (): { raw: string; stringValue?: string } => {
+    const first = peek();
+
+    if (isPunct('[') || isPunct('{')) {
+      const close = first.value === '[' ? ']' : '}';
+      advance();
+      while (!isPunct(close)) {
+        if (peek().kind === 'EOF') fail(`Expected "${close}"`);
+        if (first.value === '{') {
+          expectName();
+          expectPunct(':');
+        }
+        parseValue();
+      }
+      const last = advance();
+      return { raw: source.slice(first.start, last.end) };
+    }
+
+    if (skipPunct('$')) {
+      const name = expectName();
+      return { raw: `$${name.value}` };
+    }
+
+    if (first.kind === 'Punctuator' || first.kind === 'EOF') {
+      fail(`Unexpected "${first.value || first.kind}"`);
+    }
+
+    advance();
+    const isString = first.kind === 'String' || first.kind === 'BlockString';
+    return {
+      raw: source.slice(first.start, first.end),
+      stringValue: isString ? first.value : undefined,
+    };
+  };
+
+  const parseDirectives = (): DirectiveInfo => {
+    const info: DirectiveInfo = { deprecated: false, deprecationReason: null };
+
+    while (skipPunct('@')) {
+      const name = expectName().value;
+      const isDeprecated = name === 'deprecated';
+      if (isDeprecated) {
+        info.deprecated = true;
+        info.deprecationReason = DEFAULT_DEPRECATION_REASON;
+      }
+
+      if (skipPunct('(')) {
+        while (!skipPunct(')')) {
+          const argName = expectName().value;
+          expectPunct(':');
+          const value = parseValue();
+          if (isDeprecated && argName === 'reason' && value.stringValue !== undefined) {
+            info.deprecationReason = value.stringValue;
+          }
+        }
+      }
+    }
+
+    return info;
+  };
+
+  // --------------------------------------------------------------------------
+  // Type references and members
+  // --------------------------------------------------------------------------
+
+  const parseTypeRef = (): IntrospectionTypeRef => {
+    let ref: IntrospectionTypeRef;
+
+    if (skipPunct('[')) {
+      ref = { kind: 'LIST', ofType: parseTypeRef() };
+      expectPunct(']');
+    } else {
+      const token = expectName();
+      ref = { kind: 'SCALAR', name: token.value };
+      namedRefs.push({ ref, token });
+    }
+
+    if (skipPunct('!')) {
+      ref = { kind: 'NON_NULL', ofType: ref };
+    }
+    return ref;
+  };
+
+  const parseInputValue = (): IntrospectionInputValue => {
+    const description = parseDescription();
+    const name = expectName().value;
+    expectPunct(':');
+    const type = parseTypeRef();
+    const defaultValue = skipPunct('=') ? parseValue().raw : undefined;
+    parseDirectives();
+
+    return { name, description, type, defaultValue };
+  };
+
+  const parseArgumentDefinitions = (): IntrospectionInputValue[] => {
+    const args: IntrospectionInputValue[] = [];
+    if (skipPunct('(')) {
+      while (!skipPunct(')')) {
+        args.push(parseInputValue());
+      }
+    }
+    return args;
+  };
+
+  const parseField = (): IntrospectionField => {
+    const description = parseDescription();
+    const name = expectName().value;
+    const args = parseArgumentDefinitions();
+    expectPunct(':');
+    const type = parseTypeRef();
+    const directives = parseDirectives();
+
+    return {
+      name,
+      description,
+      args,
+      type,
+      isDeprecated: directives.deprecated,
+      deprecationReason: directives.deprecationReason,
+    };
+  };
+
+  const parseEnumValue = (): IntrospectionEnumValue => {
+    const description = parseDescription();
+    const name = expectName().value;
+    const directives = parseDirectives();
+
+    return {
+      name,
+      description,
+      isDeprecated: directives.deprecated,
+      deprecationReason: directives.deprecationReason,
+    };
+  };
+
+  const parseNamedList = (separator: string): IntrospectionTypeRef[] => {
+    const refs: IntrospectionTypeRef[] = [];
+    skipPunct(separator);
+    do {
+      const token = expectName();
+      const ref: IntrospectionTypeRef = { kind: 'OBJECT', name: token.value };
+      namedRefs.push({ ref, token });
+      refs.push(ref);
+    } while (skipPunct(separator));
+    return refs;
+  };
+
+  // --------------------------------------------------------------------------
+  // Definitions
+  // --------------------------------------------------------------------------
+
+  const parseTypeDefinition = (keyword: Token, description: string | undefined, extend: boolean) => {
+    const kind = DEFINITION_KINDS[keyword.value];
+    const nameToken = expectName();
+    const name = nameToken.value;
+
+    let type = types.get(name);
+    if (type && !extend) {
+      fail(`Type "${name}" is defined more than once`, nameToken);
+    }
+    if (type && type.kind !== kind) {
+      fail(`Cannot extend ${type.kind} "${name}" as ${kind}`, nameToken);
+    }
+    if (!type) {
+      type = { name, kind, description };
+      types.set(name, type);
+    }
+
+    switch (kind) {
+      case 'OBJECT':
+      case 'INTERFACE': {
+        type.interfaces = type.interfaces ?? [];
+        type.fields = type.fields ?? [];
+        if (isKeyword('implements')) {
+          advance();
+          type.interfaces.push(...parseNamedList('&'));
+        }
+        parseDirectives();
+        if (skipPunct('{')) {
+          while (!skipPunct('}')) {
+            type.fields.push(parseField());
+          }
+        }
+        break;
+      }
+      case 'UNION': {
+        type.possibleTypes = type.possibleTypes ?? [];
+        parseDirectives();
+        if (skipPunct('=')) {
+          type.possibleTypes.push(...parseNamedList('|'));
+        }
+        break;
+      }
+      case 'ENUM': {
+        type.enumValues = type.enumValues ?? [];
+        parseDirectives();
+        if (skipPunct('{')) {
+          while (!skipPunct('}')) {
+            type.enumValues.push(parseEnumValue());
+          }
+        }
+        break;
+      }
+      case 'INPUT_OBJECT': {
+        type.inputFields = type.inputFields ?? [];
+        parseDirectives();
+        if (skipPunct('{')) {
+          while (!skipPunct('}')) {
+            type.inputFields.push(parseInputValue());
+          }
+        }
+        break;
+      }
+      default:
+        parseDirectives();
+    }
+  };
+
+  const parseSchemaDefinition = () => {
+    parseDirectives();
+    if (skipPunct('{')) {
+      while (!skipPunct('}')) {
+        const operation = expectName().value;
+        expectPunct(':');
+        operations[operation] = expectName().value;
+      }
+    }
+  };
+
+  const skipDirectiveDefinition = () => {
+    expectPunct('@');
+    expectName();
+    parseArgumentDefinitions();
+    if (isKeyword('repeatable')) advance();
+    if (!isKeyword('on')) fail('Expected "on"');
+    advance();
+    skipPunct('|');
+    do {
+      expectName();
+    } while (skipPunct('|'));
+  };
+
+  // --------------------------------------------------------------------------
+  // Document
+  // --------------------------------------------------------------------------
+
+  while (peek().kind !== 'EOF') {
+    const description = parseDescription();
+    const keyword = expectName();
+
+    if (keyword.value === 'schema') {
+      parseSchemaDefinition();
+    } else if (keyword.value === 'directive') {
+      skipDirectiveDefinition();
+    } else if (keyword.value === 'extend') {
+      const extended = expectName();
+      if (extended.value === 'schema') {
+        parseSchemaDefinition();
+      } else if (DEFINITION_KINDS[extended.value]) {
+        parseTypeDefinition(extended, undefined, true);
+      } else {
+        fail(`Cannot extend "${extended.value}"`, extended);
+      }
+    } else if (DEFINITION_KINDS[keyword.value]) {
+      parseTypeDefinition(keyword, description, false);
+    } else {
+      fail(`Unexpected "${keyword.value}"`, keyword);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Resolution
+  // --------------------------------------------------------------------------
+
+  for (const scalar of BUILT_IN_SCALARS) {
+    if (!types.has(scalar)) {
+      types.set(scalar, { name: scalar, kind: 'SCALAR' });
+    }
+  }
+
+  for (const { ref, token } of namedRefs) {
+    const target = types.get(ref.name ?? '');
+    if (!target) {
+      fail(`Unknown type "${ref.name}"`, token);
+    }
+    ref.kind = target!.kind as TypeKind;
+  }
+
+  // Interfaces list their implementations as possibleTypes, as in introspection
+  for (const type of types.values()) {
+    if (type.kind === 'INTERFACE') {
+      type.possibleTypes = [];
+    }
+  }
+  for (const type of types.values()) {
+    for (const iface of type.interfaces ?? []) {
+      if (type.kind === 'OBJECT') {
+        types.get(iface.name ?? '')?.possibleTypes?.push({ kind: 'OBJECT', name: type.name });
+      }
+    }
+  }
+
+  const rootType = (operation: string, conventional: string) => {
+    const name = operations[operation] ?? (types.has(conventional) ? conventional : null);
+    return name ? { name } : null;
+  };
+
+  return {
+    queryType: rootType('query', 'Query'),
+    mutationType: rootType('mutation', 'Mutation'),
+    subscriptionType: rootType('subscription', 'Subscription'),
+    types: Array.from(types.values()),
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Type Kinds - Classifies schema types and fields
+ *
+ * Pure helpers shared by the main thread and the graph worker. Kept apart
+ * from `introspection.ts`, which imports the bundled schema cache, so the
+ * worker bundle does not carry a copy of it.
+ */
+
+import { IntrospectionField } from './introspection';
+import { unwrapType } from './typeRef';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Standard GraphQL scalar types plus common custom scalars
+ */
+const SCALAR_TYPES = new Set([
+  'String',
+  'Int',
+  'Float',
+  'Boolean',
+  'ID',
+  'DateTime',
+  'Date',
+  'Time',
+  'JSON',
+  'UUID',
+  'Decimal',
+  'BigInt',
+]);
+
+/**
+ * Kinds that have fields (or member types) and can be traversed as relationships
+ */
+export const COMPOSITE_KINDS = new Set(['OBJECT', 'INTERFACE', 'UNION']);
+
+// ============================================================================
+// Main Functions
+// ============================================================================
+
+/**
+ * Checks if a type is a GraphQL scalar type
+ * Scalars: String, Int, Float, Boolean, ID, custom scalars
+ *
+ * @param typename - Type name to check
+ * @returns True if type is a scalar
+ */
+export function isScalarType(typename: string): boolean {
+  return SCALAR_TYPES.has(typename);
+}
+
+/**
+ * Checks if a field represents a relationship to another object type
+ * Filters out scalars and considers only object/interface types
+ *
+ * @param field - Field to check
+ * @returns True if field is a relationship
+ */
+export function isRelationshipField(field: IntrospectionField): boolean {
+  const unwrapped = unwrapType(field.type);
+
+  // A field is a relationship if:
+  // 1. It's not a scalar type
+  // 2. It's an OBJECT, INTERFACE or UNION type
+  const isCompositeType = COMPOSITE_KINDS.has(unwrapped.kind);
+  const isNotScalar = !isScalarType(unwrapped.name);
+
+  return isCompositeType && isNotScalar;
+}
@@ -0,0 +1,138 @@
+import { IntrospectionTypeRef } from './introspection';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Fully unwrapped type reference
+ * Tracks every list level and the nullability at each level, so types like
+ * `[[String!]!]!` survive unwrapping intact
+ */
+export interface UnwrappedType {
+  /** Named type at the core of the wrappers ('Unknown' if the reference was truncated) */
+  name: string;
+  /** Kind of the named type (e.g., OBJECT, SCALAR) */
+  kind: string;
+  /** Whether the type has at least one LIST wrapper */
+  isList: boolean;
+  /** Whether the outermost level is NON_NULL */
+  isNonNull: boolean;
+  /** Number of nested LIST wrappers (0 = not a list) */
+  listDepth: number;
+  /**
+   * Nullability per level, outermost first
+   * One entry per list level plus one for the named type, e.g.
+   * `[[String!]]!` -> [true, false, true]
+   */
+  nonNullLevels: boolean[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Number of nested `ofType` levels requested by introspection queries
+ * Eight levels cover four list dimensions with non-null at every level
+ */
+export const TYPE_REF_DEPTH = 8;
+
+// ============================================================================
+// Query Helpers
+// ============================================================================
+
+/**
+ * Builds a nested `kind name ofType { ... }` selection
+ * GraphQL queries cannot recurse, so the nesting is generated to a fixed depth
+ *
+ * @param depth - Number of nested `ofType` levels
+ * @returns Selection set body for a `__Type` reference
+ */
+export function buildTypeRefSelection(depth: number = TYPE_REF_DEPTH): string {
+  let selection = 'kind name';
+  for (let i = 0; i < depth; i++) {
+    selection = `kind name ofType { ${selection} }`;
+  }
+  return selection;
+}
+
+// ============================================================================
+// Unwrapping
+// ============================================================================
+
+/**
+ * Walks wrapper levels recursively, recording nullability per level
+ *
+ * @param typeRef - Current (possibly wrapped) reference
+ * @param nonNull - Whether the current level was wrapped in NON_NULL
+ * @param levels - Accumulator for per-level nullability
+ * @returns The named type, or undefined if the reference was truncated
+ */
+function collectLevels(
+  typeRef: IntrospectionTypeRef | undefined,
+  nonNull: boolean,
+  levels: boolean[]
+): IntrospectionTypeRef | undefined {
+  if (!typeRef) {
+    return undefined;
+  }
+
+  if (typeRef.kind === 'NON_NULL') {
+    return collectLevels(typeRef.ofType, true, levels);
+  }
+
+  levels.push(nonNull);
+
+  if (typeRef.kind === 'LIST') {
+    return collectLevels(typeRef.ofType, false, levels);
+  }
+
+  return typeRef;
+}
+
+/**
+ * Unwraps nested type references to get the actual type name
+ * Handles any combination of NON_NULL and LIST wrappers
+ *
+ * @param typeRef - Type reference to unwrap
+ * @returns Unwrapped type information
+ */
+export function unwrapType(typeRef: IntrospectionTypeRef): UnwrappedType {
+  const nonNullLevels: boolean[] = [];
+  const named = collectLevels(typeRef, false, nonNullLevels);
+
+  // Every recorded level except the named type's own is a list
+  const listDepth = named ? nonNullLevels.length - 1 : nonNullLevels.length;
+
+  return {
+    name: named?.name || 'Unknown',
+    kind: named?.kind || 'Unknown',
+    isList: listDepth > 0,
+    isNonNull: nonNullLevels[0] ?? false,
+    listDepth,
+    nonNullLevels,
+  };
+}
+
+/**
+ * Formats a type reference in GraphQL SDL notation
+ * Examples: `String`, `[InterfaceType!]!`, `[[String!]!]!`
+ *
+ * @param typeRef - Type reference to format
+ * @returns SDL type string
+ */
+export function formatTypeRef(typeRef: IntrospectionTypeRef | undefined): string {
+  if (!typeRef) {
+    return 'Unknown';
+  }
+
+  switch (typeRef.kind) {
+    case 'NON_NULL':
+      return `${formatTypeRef(typeRef.ofType)}!`;
+    case 'LIST':
+      return `[${formatTypeRef(typeRef.ofType)}]`;
+    default:
+      return typeRef.name || 'Unknown';
+  }
+}
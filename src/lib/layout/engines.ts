@@ -0,0 +1,164 @@
+import { calculateForceLayout } from './forceLayout';
+import { calculateLayeredLayout } from './layeredLayout';
+import { calculateTreeLayout } from './treeLayout';
+import {
+  LayoutAlgorithm,
+  LayoutDirection,
+  LayoutEngine,
+  LayoutInput,
+  LayoutNode,
+  LayoutOptions,
+  LayoutPositions,
+} from './types';
+
+/**
+ * Default direction and spacing
+ */
+export const DEFAULT_LAYOUT_OPTIONS: LayoutOptions = {
+  direction: 'TB',
+  nodeSpacing: 50,
+  layerSpacing: 100,
+};
+
+// Passes of sliding free nodes off pinned ones
+const MAX_NUDGE_PASSES = 10;
+
+const LAYOUT_ENGINES: Record<LayoutAlgorithm, LayoutEngine> = {
+  tree: calculateTreeLayout,
+  layered: calculateLayeredLayout,
+  force: calculateForceLayout,
+};
+
+/**
+ * Whether layers run along the x axis
+ *
+ * @param direction - Layout direction
+ * @returns True for left-to-right and right-to-left layouts
+ */
+export function isHorizontal(direction: LayoutDirection): boolean {
+  return direction === 'LR' || direction === 'RL';
+}
+
+/**
+ * Maps a top-left corner from the top-to-bottom engine space to the
+ * requested direction. Horizontal engines see nodes with width and height
+ * swapped, so corners transpose directly; reversed directions mirror the
+ * flow axis.
+ */
+function orientPoint(
+  point: { x: number; y: number },
+  node: LayoutNode,
+  direction: LayoutDirection
+): { x: number; y: number } {
+  switch (direction) {
+    case 'TB':
+      return point;
+    case 'BT':
+      return { x: point.x, y: -(point.y + node.height) };
+    case 'LR':
+      return { x: point.y, y: point.x };
+    case 'RL':
+      return { x: -(point.y + node.width), y: point.x };
+  }
+}
+
+/**
+ * Inverse of `orientPoint`: maps a top-left corner back to engine space
+ */
+function toEngineSpace(
+  point: { x: number; y: number },
+  node: LayoutNode,
+  direction: LayoutDirection
+): { x: number; y: number } {
+  switch (direction) {
+    case 'TB':
+      return point;
+    case 'BT':
+      return { x: point.x, y: -(point.y + node.height) };
+    case 'LR':
+      return { x: point.y, y: point.x };
+    case 'RL':
+      return { x: point.y, y: -(point.x + node.width) };
+  }
+}
+
+/**
+ * Puts fixed nodes at their pinned positions and slides free nodes that
+ * now overlap one sideways within their layer (engine space)
+ */
+function applyFixedNodes(positions: LayoutPositions, nodes: LayoutNode[], spacing: number): void {
+  const fixed = nodes.filter(node => node.fixed);
+  if (fixed.length === 0) return;
+
+  for (const node of fixed) {
+    positions[node.id] = { ...node.fixed! };
+  }
+
+  const free = nodes.filter(node => !node.fixed);
+
+  for (let pass = 0; pass < MAX_NUDGE_PASSES; pass++) {
+    let moved = false;
+
+    for (const node of free) {
+      const position = positions[node.id];
+
+      for (const pinned of fixed) {
+        const anchor = positions[pinned.id];
+        const overlapsX = position.x < anchor.x + pinned.width + spacing && anchor.x < position.x + node.width + spacing;
+        const overlapsY = position.y < anchor.y + pinned.height && anchor.y < position.y + node.height;
+        if (!overlapsX || !overlapsY) continue;
+
+        // Slide to whichever side of the pinned node is closer
+        const toLeft = anchor.x - spacing - node.width - position.x;
+        const toRight = anchor.x + pinned.width + spacing - position.x;
+        position.x += Math.abs(toLeft) < Math.abs(toRight) ? toLeft : toRight;
+        moved = true;
+      }
+    }
+
+    if (!moved) break;
+  }
+}
+
+/**
+ * Runs a layout engine synchronously
+ *
+ * @param algorithm - Layout algorithm to use
+ * @param input - Nodes and edges to lay out
+ * @param options - Direction and spacing
+ * @returns Top-left position of every node
+ */
+export function runLayout(
+  algorithm: LayoutAlgorithm,
+  input: LayoutInput,
+  options: LayoutOptions = DEFAULT_LAYOUT_OPTIONS
+): LayoutPositions {
+  const startTime = Date.now();
+
+  // Engines lay out top to bottom; horizontal flows swap node extents
+  const horizontal = isHorizontal(options.direction);
+  const engineNodes = input.nodes.map(node => ({
+    ...node,
+    width: horizontal ? node.height : node.width,
+    height: horizontal ? node.width : node.height,
+    fixed: node.fixed && toEngineSpace(node.fixed, node, options.direction),
+  }));
+
+  const enginePositions = LAYOUT_ENGINES[algorithm]({ ...input, nodes: engineNodes }, options);
+  applyFixedNodes(enginePositions, engineNodes, options.nodeSpacing);
+
+  const positions: LayoutPositions = {};
+  for (const node of input.nodes) {
+    positions[node.id] = orientPoint(enginePositions[node.id], node, options.direction);
+  }
+
+  console.log(`[Layout] ${algorithm} layout complete:`, {
+    nodes: input.nodes.length,
+    fixed: input.nodes.filter(node => node.fixed).length,
+    edges: input.edges.length,
+    direction: options.direction,
+    duration: `${Date.now() - startTime}ms`,
+  });
+
+  return positions;
+}
@@ -0,0 +1,178 @@
+/**
+ * Force Layout - Fruchterman-Reingold placement
+ *
+ * Nodes repel each other, edges pull their ends together and a weak
+ * gravity keeps disconnected parts close. Starts from the layered layout
+ * so results are deterministic, then removes any remaining overlaps.
+ * Pinned nodes never move; the rest settle around them.
+ */
+
+import { calculateLayeredLayout } from './layeredLayout';
+import { LayoutEngine, LayoutPositions } from './types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Simulation steps; large graphs get fewer (each step is quadratic)
+const ITERATIONS = 300;
+const LARGE_GRAPH_ITERATIONS = 120;
+const LARGE_GRAPH_NODES = 250;
+
+// Pull toward the origin, relative to the spring force
+const GRAVITY = 0.05;
+
+// Passes of pairwise overlap removal after the simulation
+const OVERLAP_PASSES = 20;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Pushes overlapping node boxes apart along the axis of least overlap
+ * A pinned node stays put and its neighbour takes the whole shift
+ */
+function removeOverlaps(
+  centers: Array<{ x: number; y: number }>,
+  sizes: Array<{ width: number; height: number }>,
+  pinned: boolean[],
+  spacing: number
+): void {
+  for (let pass = 0; pass < OVERLAP_PASSES; pass++) {
+    let moved = false;
+
+    for (let i = 0; i < centers.length; i++) {
+      for (let j = i + 1; j < centers.length; j++) {
+        const dx = centers[j].x - centers[i].x;
+        const dy = centers[j].y - centers[i].y;
+        const overlapX = (sizes[i].width + sizes[j].width) / 2 + spacing - Math.abs(dx);
+        const overlapY = (sizes[i].height + sizes[j].height) / 2 + spacing - Math.abs(dy);
+        if (overlapX <= 0 || overlapY <= 0 || (pinned[i] && pinned[j])) continue;
+
+        // Share of the shift each node takes
+        const shareI = pinned[i] ? 0 : pinned[j] ? 1 : 0.5;
+        const shareJ = 1 - shareI;
+
+        moved = true;
+        if (overlapX < overlapY) {
+          const shift = overlapX * (dx < 0 ? -1 : 1);
+          centers[i].x -= shift * shareI;
+          centers[j].x += shift * shareJ;
+        } else {
+          const shift = overlapY * (dy < 0 ? -1 : 1);
+          centers[i].y -= shift * shareI;
+          centers[j].y += shift * shareJ;
+        }
+      }
+    }
+
+    if (!moved) break;
+  }
+}
+
+// ============================================================================
+// Main Functions
+// ============================================================================
+
+/**
+ * Calculates a force-directed layout
+ *
+ * @param input - Nodes and edges
+ * @param options - Spacing; `layerSpacing` sets the ideal edge length
+ * @returns Top-left position of every node
+ */
+export const calculateForceLayout: LayoutEngine = (input, options) => {
+  const { nodes } = input;
+  if (nodes.length === 0) return {};
+
+  const initial = calculateLayeredLayout(input, options);
+  const indexOf = new Map(nodes.map((node, index) => [node.id, index]));
+  const sizes = nodes.map(node => ({ width: node.width, height: node.height }));
+  // Pinned nodes start (and stay) at their fixed position
+  const centers = nodes.map(node => {
+    const start = node.fixed ?? initial[node.id];
+    return { x: start.x + node.width / 2, y: start.y + node.height / 2 };
+  });
+
+  const springs = input.edges
+    .map(edge => [indexOf.get(edge.source), indexOf.get(edge.target)])
+    .filter((pair): pair is [number, number] =>
+      pair[0] !== undefined && pair[1] !== undefined && pair[0] !== pair[1]);
+
+  // Ideal distance between connected node centers
+  const averageSize = sizes.reduce((sum, size) => sum + (size.width + size.height) / 2, 0) / nodes.length;
+  const k = averageSize + options.layerSpacing;
+
+  const iterations = nodes.length > LARGE_GRAPH_NODES ? LARGE_GRAPH_ITERATIONS : ITERATIONS;
+  let temperature = k * 2;
+  const cooling = temperature / iterations;
+
+  const forces = nodes.map(() => ({ x: 0, y: 0 }));
+
+  for (let step = 0; step < iterations; step++) {
+    for (const force of forces) {
+      force.x = 0;
+      force.y = 0;
+    }
+
+    // Repulsion between every pair
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        let dx = centers[i].x - centers[j].x;
+        let dy = centers[i].y - centers[j].y;
+        if (dx === 0 && dy === 0) {
+          // Coincident nodes: separate deterministically
+          dx = (i - j) * 0.1;
+          dy = 0.1;
+        }
+        const distanceSq = dx * dx + dy * dy;
+        const factor = (k * k) / distanceSq;
+        forces[i].x += dx * factor;
+        forces[i].y += dy * factor;
+        forces[j].x -= dx * factor;
+        forces[j].y -= dy * factor;
+      }
+    }
+
+    // Attraction along edges
+    for (const [source, target] of springs) {
+      const dx = centers[source].x - centers[target].x;
+      const dy = centers[source].y - centers[target].y;
+      const distance = Math.sqrt(dx * dx + dy * dy) || 0.1;
+      const factor = distance / k;
+      forces[source].x -= dx * factor;
+      forces[source].y -= dy * factor;
+      forces[target].x += dx * factor;
+      forces[target].y += dy * factor;
+    }
+
+    // Move each node along its net force, capped by the temperature
+    for (let i = 0; i < nodes.length; i++) {
+      if (nodes[i].fixed) continue;
+
+      forces[i].x -= centers[i].x * GRAVITY;
+      forces[i].y -= centers[i].y * GRAVITY;
+
+      const magnitude = Math.sqrt(forces[i].x * forces[i].x + forces[i].y * forces[i].y);
+      if (magnitude === 0) continue;
+      const displacement = Math.min(magnitude, temperature);
+      centers[i].x += (forces[i].x / magnitude) * displacement;
+      centers[i].y += (forces[i].y / magnitude) * displacement;
+    }
+
+    temperature = Math.max(temperature - cooling, 1);
+  }
+
+  removeOverlaps(centers, sizes, nodes.map(node => !!node.fixed), options.nodeSpacing / 2);
+
+  const positions: LayoutPositions = {};
+  nodes.forEach((node, index) => {
+    positions[node.id] = {
+      x: centers[index].x - node.width / 2,
+      y: centers[index].y - node.height / 2,
+    };
+  });
+
+  return positions;
+};
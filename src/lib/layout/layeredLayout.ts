@@ -0,0 +1,274 @@
+/**
+ * Layered Layout - Sugiyama-style placement with crossing minimization
+ *
+ * 1. Layers come from node depth; edges pointing up are reversed, edges
+ *    spanning several layers get a chain of dummy nodes
+ * 2. Node order within each layer is improved by barycenter sweeps,
+ *    keeping the order with the fewest crossings
+ * 3. Each node is pulled toward its neighbours' centers while keeping
+ *    the order and the minimum spacing of its layer
+ */
+
+import { calculateLevelOffsets, groupNodesByDepth } from './treeLayout';
+import { LayoutEngine, LayoutInput, LayoutNode, LayoutPositions } from './types';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+interface LayeredGraph {
+  /** Node ids per layer, in their current order */
+  layers: string[][];
+  /** Neighbours in the layer above / below, per node id (dummies included) */
+  up: Map<string, string[]>;
+  down: Map<string, string[]>;
+  widths: Map<string, number>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Barycenter sweeps (one down + one up each)
+const ORDERING_ITERATIONS = 12;
+
+// Coordinate refinement passes
+const POSITIONING_ITERATIONS = 8;
+
+// Width reserved for an edge passing through a layer
+const DUMMY_WIDTH = 20;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Builds the proper layered graph: every edge connects adjacent layers
+ */
+function buildLayeredGraph(input: LayoutInput): LayeredGraph {
+  const layerOf = new Map(input.nodes.map(node => [node.id, node.depth]));
+  const depths = Array.from(new Set(input.nodes.map(node => node.depth))).sort((a, b) => a - b);
+  const layerIndex = new Map(depths.map((depth, index) => [depth, index]));
+
+  const layers: string[][] = depths.map(() => []);
+  const up = new Map<string, string[]>();
+  const down = new Map<string, string[]>();
+  const widths = new Map<string, number>();
+
+  const addNode = (id: string, layer: number, width: number) => {
+    layers[layer].push(id);
+    up.set(id, []);
+    down.set(id, []);
+    widths.set(id, width);
+  };
+
+  for (const node of input.nodes) {
+    addNode(node.id, layerIndex.get(node.depth)!, node.width);
+  }
+
+  const seen = new Set<string>();
+  for (const edge of input.edges) {
+    const sourceDepth = layerOf.get(edge.source);
+    const targetDepth = layerOf.get(edge.target);
+    if (sourceDepth === undefined || targetDepth === undefined || sourceDepth === targetDepth) {
+      continue;
+    }
+
+    // Point every edge downward; parallel edges only count once
+    const [top, bottom] = sourceDepth < targetDepth
+      ? [edge.source, edge.target]
+      : [edge.target, edge.source];
+    const key = `${top}\u0000${bottom}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const topLayer = layerIndex.get(layerOf.get(top)!)!;
+    const bottomLayer = layerIndex.get(layerOf.get(bottom)!)!;
+
+    let previous = top;
+    for (let layer = topLayer + 1; layer <= bottomLayer; layer++) {
+      const current = layer === bottomLayer ? bottom : `${key}\u0000${layer}`;
+      if (layer !== bottomLayer) {
+        addNode(current, layer, DUMMY_WIDTH);
+      }
+      down.get(previous)!.push(current);
+      up.get(current)!.push(previous);
+      previous = current;
+    }
+  }
+
+  return { layers, up, down, widths };
+}
+
+/**
+ * Counts edge crossings between two adjacent layers (Fenwick tree over
+ * the lower layer's positions)
+ */
+function countCrossings(upper: string[], lower: string[], down: Map<string, string[]>): number {
+  const lowerIndex = new Map(lower.map((id, index) => [id, index]));
+  const tree = new Array<number>(lower.length + 1).fill(0);
+  let crossings = 0;
+  let inserted = 0;
+
+  for (const id of upper) {
+    const targets = down.get(id)!.map(target => lowerIndex.get(target)!).sort((a, b) => a - b);
+
+    for (const target of targets) {
+      // Edges already inserted that end to the right of this one cross it
+      let atOrBefore = 0;
+      for (let i = target + 1; i > 0; i -= i & -i) atOrBefore += tree[i];
+      crossings += inserted - atOrBefore;
+    }
+    for (const target of targets) {
+      for (let i = target + 1; i <= lower.length; i += i & -i) tree[i]++;
+      inserted++;
+    }
+  }
+
+  return crossings;
+}
+
+function countAllCrossings(graph: LayeredGraph): number {
+  let total = 0;
+  for (let layer = 0; layer < graph.layers.length - 1; layer++) {
+    total += countCrossings(graph.layers[layer], graph.layers[layer + 1], graph.down);
+  }
+  return total;
+}
+
+/**
+ * Reorders a layer by the mean position of each node's neighbours in the
+ * fixed layer; nodes without neighbours keep their place
+ */
+function reorderByBarycenter(layer: string[], fixed: string[], neighbours: Map<string, string[]>): string[] {
+  const fixedIndex = new Map(fixed.map((id, index) => [id, index]));
+
+  const weighted = layer.map((id, index) => {
+    const adjacent = neighbours.get(id)!;
+    const barycenter = adjacent.length > 0
+      ? adjacent.reduce((sum, other) => sum + fixedIndex.get(other)!, 0) / adjacent.length
+      : index * (fixed.length / Math.max(layer.length, 1));
+    return { id, barycenter, index };
+  });
+
+  weighted.sort((a, b) => a.barycenter - b.barycenter || a.index - b.index);
+  return weighted.map(entry => entry.id);
+}
+
+/**
+ * Minimizes crossings with alternating down/up barycenter sweeps
+ */
+function minimizeCrossings(graph: LayeredGraph): void {
+  let best = graph.layers.map(layer => [...layer]);
+  let bestCrossings = countAllCrossings(graph);
+
+  for (let iteration = 0; iteration < ORDERING_ITERATIONS && bestCrossings > 0; iteration++) {
+    for (let layer = 1; layer < graph.layers.length; layer++) {
+      graph.layers[layer] = reorderByBarycenter(graph.layers[layer], graph.layers[layer - 1], graph.up);
+    }
+    for (let layer = graph.layers.length - 2; layer >= 0; layer--) {
+      graph.layers[layer] = reorderByBarycenter(graph.layers[layer], graph.layers[layer + 1], graph.down);
+    }
+
+    const crossings = countAllCrossings(graph);
+    if (crossings < bestCrossings) {
+      bestCrossings = crossings;
+      best = graph.layers.map(layer => [...layer]);
+    }
+  }
+
+  graph.layers = best;
+}
+
+/**
+ * Moves the nodes of a layer as close as possible to their desired centers
+ * without reordering them or breaking the minimum spacing
+ *
+ * Packing left-to-right and right-to-left each satisfy the spacing; their
+ * average does too and is balanced around the desired centers.
+ */
+function placeLayer(
+  layer: string[],
+  desired: number[],
+  widths: Map<string, number>,
+  nodeSpacing: number
+): number[] {
+  const gap = (i: number) => (widths.get(layer[i - 1])! + widths.get(layer[i])!) / 2 + nodeSpacing;
+
+  const fromLeft = [...desired];
+  for (let i = 1; i < layer.length; i++) {
+    fromLeft[i] = Math.max(desired[i], fromLeft[i - 1] + gap(i));
+  }
+
+  const fromRight = [...desired];
+  for (let i = layer.length - 2; i >= 0; i--) {
+    fromRight[i] = Math.min(desired[i], fromRight[i + 1] - gap(i + 1));
+  }
+
+  return fromLeft.map((x, i) => (x + fromRight[i]) / 2);
+}
+
+/**
+ * Assigns x centers: packed layers first, then neighbour-pulling passes
+ */
+function assignCoordinates(graph: LayeredGraph, nodeSpacing: number): Map<string, number> {
+  const centers = new Map<string, number>();
+
+  for (const layer of graph.layers) {
+    const packed = placeLayer(layer, layer.map(() => 0), graph.widths, nodeSpacing);
+    layer.forEach((id, index) => centers.set(id, packed[index]));
+  }
+
+  const pull = (layer: string[], neighbours: Map<string, string[]>) => {
+    const desired = layer.map(id => {
+      const adjacent = neighbours.get(id)!;
+      if (adjacent.length === 0) return centers.get(id)!;
+      return adjacent.reduce((sum, other) => sum + centers.get(other)!, 0) / adjacent.length;
+    });
+    const placed = placeLayer(layer, desired, graph.widths, nodeSpacing);
+    layer.forEach((id, index) => centers.set(id, placed[index]));
+  };
+
+  for (let iteration = 0; iteration < POSITIONING_ITERATIONS; iteration++) {
+    for (let layer = 1; layer < graph.layers.length; layer++) {
+      pull(graph.layers[layer], graph.up);
+    }
+    for (let layer = graph.layers.length - 2; layer >= 0; layer--) {
+      pull(graph.layers[layer], graph.down);
+    }
+  }
+
+  return centers;
+}
+
+// ============================================================================
+// Main Functions
+// ============================================================================
+
+/**
+ * Calculates a layered (Sugiyama) layout
+ *
+ * @param input - Nodes (layered by depth) and edges
+ * @param options - Spacing between nodes and layers
+ * @returns Top-left position of every node
+ */
+export const calculateLayeredLayout: LayoutEngine = (input, options) => {
+  if (input.nodes.length === 0) return {};
+
+  const graph = buildLayeredGraph(input);
+  minimizeCrossings(graph);
+  const centers = assignCoordinates(graph, options.nodeSpacing);
+
+  const nodesByDepth = groupNodesByDepth(input.nodes);
+  const levelOffsets = calculateLevelOffsets(nodesByDepth, options);
+
+  const positions: LayoutPositions = {};
+  input.nodes.forEach((node: LayoutNode) => {
+    positions[node.id] = {
+      x: centers.get(node.id)! - node.width / 2,
+      y: levelOffsets.get(node.depth) ?? 0,
+    };
+  });
+
+  return positions;
+};
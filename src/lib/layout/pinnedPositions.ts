@@ -0,0 +1,58 @@
+/**
+ * Pinned Positions - Node positions placed by hand, persisted in localStorage
+ *
+ * Keyed by node id, which identifies a node across rebuilds: the typename in
+ * the schema graph, the dotted field path in path trees (e.g.
+ * `DeviceType.location.parent`) and `typename:root:depth` in the layered mode
+ * (e.g. `LocationType:root:1`). Positions are top-left corners in canvas
+ * coordinates.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type PinnedPositions = Record<string, { x: number; y: number }>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const PINNED_POSITIONS_STORAGE_KEY = 'modelVisualizer_pinnedPositions';
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Reads pinned positions from localStorage
+ * Malformed storage is ignored rather than breaking the app
+ *
+ * @returns Pinned positions by node id (empty if none)
+ */
+export function readPinnedPositions(): PinnedPositions {
+  try {
+    const raw = localStorage.getItem(PINNED_POSITIONS_STORAGE_KEY);
+    if (!raw) {
+      return {};
+    }
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch (error) {
+    console.warn('[Pinned Positions] Failed to read stored positions:', error);
+    return {};
+  }
+}
+
+/**
+ * Writes pinned positions to localStorage, removing the key when empty
+ *
+ * @param pins - Pinned positions by node id
+ */
+export function writePinnedPositions(pins: PinnedPositions): void {
+  if (Object.keys(pins).length === 0) {
+    localStorage.removeItem(PINNED_POSITIONS_STORAGE_KEY);
+  } else {
+    localStorage.setItem(PINNED_POSITIONS_STORAGE_KEY, JSON.stringify(pins));
+  }
+}
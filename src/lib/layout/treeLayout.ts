@@ -0,0 +1,68 @@
+import { LayoutEngine, LayoutNode, LayoutOptions } from './types';
+
+/**
+ * Groups nodes by their depth level
+ */
+export function groupNodesByDepth(nodes: LayoutNode[]): Map<number, LayoutNode[]> {
+  const nodesByDepth = new Map<number, LayoutNode[]>();
+
+  for (const node of nodes) {
+    const nodesAtDepth = nodesByDepth.get(node.depth) || [];
+    nodesAtDepth.push(node);
+    nodesByDepth.set(node.depth, nodesAtDepth);
+  }
+
+  return nodesByDepth;
+}
+
+/**
+ * Calculates the y offset of each depth level from the heights of the levels above
+ */
+export function calculateLevelOffsets(
+  nodesByDepth: Map<number, LayoutNode[]>,
+  options: LayoutOptions
+): Map<number, number> {
+  const depths = Array.from(nodesByDepth.keys()).sort((a, b) => a - b);
+  const offsets = new Map<number, number>();
+  let y = 0;
+
+  for (const depth of depths) {
+    offsets.set(depth, y);
+    const levelHeight = Math.max(...nodesByDepth.get(depth)!.map(node => node.height));
+    y += levelHeight + options.layerSpacing;
+  }
+
+  return offsets;
+}
+
+/**
+ * Calculates tree layout positions for nodes
+ * Uses a simple hierarchical algorithm: roots at top, children distributed below
+ * Levels are spaced by their tallest/widest node, so field-level nodes don't overlap
+ *
+ * @param input - Nodes and edges to lay out (edges are ignored)
+ * @param options - Spacing between nodes and levels
+ * @returns Top-left position of every node
+ */
+export const calculateTreeLayout: LayoutEngine = (input, options) => {
+  const nodesByDepth = groupNodesByDepth(input.nodes);
+  const levelOffsets = calculateLevelOffsets(nodesByDepth, options);
+  const positions: ReturnType<LayoutEngine> = {};
+
+  nodesByDepth.forEach((nodesAtDepth, depth) => {
+    // X position: distribute nodes evenly across width
+    const nodeWidth = Math.max(...nodesAtDepth.map(node => node.width));
+    const totalWidth = nodesAtDepth.length * nodeWidth +
+                       (nodesAtDepth.length - 1) * options.nodeSpacing;
+    const startX = -totalWidth / 2; // Center the layout
+
+    nodesAtDepth.forEach((node, index) => {
+      positions[node.id] = {
+        x: startX + index * (nodeWidth + options.nodeSpacing),
+        y: levelOffsets.get(depth) ?? 0,
+      };
+    });
+  });
+
+  return positions;
+};
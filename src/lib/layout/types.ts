@@ -0,0 +1,64 @@
+/**
+ * Layout algorithms available for positioning the graph
+ *
+ * - `tree`: rows by depth, nodes spread evenly in input order
+ * - `layered`: Sugiyama-style layers with crossing minimization
+ * - `force`: force-directed placement, edges as springs
+ */
+export type LayoutAlgorithm = 'tree' | 'layered' | 'force';
+
+/**
+ * Direction the graph flows from the roots
+ *
+ * - `TB`: top to bottom (roots at the top)
+ * - `BT`: bottom to top
+ * - `LR`: left to right
+ * - `RL`: right to left
+ */
+export type LayoutDirection = 'TB' | 'BT' | 'LR' | 'RL';
+
+/**
+ * A node as seen by the layout engines - only what affects placement
+ */
+export interface LayoutNode {
+  id: string;
+  /** Estimated rendered size in pixels */
+  width: number;
+  height: number;
+  /** Depth from the roots; the layer for `tree` and `layered` layouts */
+  depth: number;
+  /** Pinned top-left position; the layout keeps the node there and places the rest around it */
+  fixed?: { x: number; y: number };
+}
+
+export interface LayoutEdge {
+  source: string;
+  target: string;
+}
+
+export interface LayoutInput {
+  nodes: LayoutNode[];
+  edges: LayoutEdge[];
+}
+
+/**
+ * Direction and spacing shared by all layout engines
+ */
+export interface LayoutOptions {
+  direction: LayoutDirection;
+  /** Gap between neighbouring nodes in the same layer, in pixels */
+  nodeSpacing: number;
+  /** Gap between consecutive layers (ranks), in pixels */
+  layerSpacing: number;
+}
+
+/**
+ * Top-left position of each node, keyed by node id
+ */
+export type LayoutPositions = Record<string, { x: number; y: number }>;
+
+/**
+ * A layout engine: a pure function so it can run inside a worker
+ * Engines always lay out top to bottom; `runLayout` applies the direction
+ */
+export type LayoutEngine = (input: LayoutInput, options: LayoutOptions) => LayoutPositions;
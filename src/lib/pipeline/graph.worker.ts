@@ -0,0 +1,120 @@
+/**
+ * Graph Worker - Runs the graph pipeline off the main thread
+ *
+ * Protocol (see GraphWorkerRequest / GraphWorkerResponse):
+ * - `build` starts a build; progress events follow, then `result` or `error`
+ * - missing types are requested with `fetchTypes` and answered with `types`
+ * - `cancel` aborts a build; nothing more is sent for it
+ */
+
+import { IntrospectionType } from '../graphql/introspection';
+import { TypeFetcher } from '../graph/graphqlTransformer';
+import { runGraphPipeline } from './graphPipeline';
+import { GraphWorkerRequest, GraphWorkerResponse } from './types';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+interface PendingFetch {
+  resolve: (types: Map<string, IntrospectionType>) => void;
+  reject: (error: Error) => void;
+}
+
+// ============================================================================
+// Module State
+// ============================================================================
+
+const buildControllers = new Map<number, AbortController>();
+const pendingFetches = new Map<number, PendingFetch>();
+let nextFetchId = 0;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function post(message: GraphWorkerResponse): void {
+  self.postMessage(message);
+}
+
+function createAbortError(): DOMException {
+  return new DOMException('The build was cancelled', 'AbortError');
+}
+
+/**
+ * Creates a type fetcher that asks the main thread for types
+ */
+function createRemoteFetcher(buildId: number): TypeFetcher {
+  return (typenames, signal) => new Promise((resolve, reject) => {
+    const fetchId = ++nextFetchId;
+    pendingFetches.set(fetchId, { resolve, reject });
+
+    signal?.addEventListener('abort', () => {
+      if (pendingFetches.delete(fetchId)) {
+        reject(createAbortError());
+      }
+    }, { once: true });
+
+    post({ type: 'fetchTypes', buildId, fetchId, typenames });
+  });
+}
+
+async function startBuild(buildId: number, message: Extract<GraphWorkerRequest, { type: 'build' }>): Promise<void> {
+  const controller = new AbortController();
+  buildControllers.set(buildId, controller);
+
+  try {
+    const result = await runGraphPipeline(
+      message.request,
+      createRemoteFetcher(buildId),
+      controller.signal,
+      (progress) => {
+        if (!controller.signal.aborted) {
+          post({ type: 'progress', buildId, progress });
+        }
+      }
+    );
+
+    if (!controller.signal.aborted) {
+      post({ type: 'result', buildId, result });
+    }
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      post({ type: 'error', buildId, error: error instanceof Error ? error.message : String(error) });
+    }
+  } finally {
+    buildControllers.delete(buildId);
+  }
+}
+
+// ============================================================================
+// Message Handling
+// ============================================================================
+
+self.addEventListener('message', (event: MessageEvent<GraphWorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'build':
+      startBuild(message.buildId, message);
+      break;
+
+    case 'cancel':
+      buildControllers.get(message.buildId)?.abort();
+      break;
+
+    case 'types': {
+      const pending = pendingFetches.get(message.fetchId);
+      pendingFetches.delete(message.fetchId);
+      pending?.resolve(message.types);
+      break;
+    }
+
+    case 'typesError': {
+      const pending = pendingFetches.get(message.fetchId);
+      pendingFetches.delete(message.fetchId);
+      pending?.reject(message.aborted ? createAbortError() : new Error(message.error));
+      break;
+    }
+  }
+});
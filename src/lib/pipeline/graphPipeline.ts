@@ -0,0 +1,135 @@
+/**
+ * Graph Pipeline - Builds the visible graph: transform, FK enhancement,
+ * edge filtering and layout
+ *
+ * Runs inside the graph worker, or on the main thread as a fallback.
+ */
+
+import {
+  buildGraphFromIntrospection,
+  ProgressCallback,
+  TypeFetcher,
+} from '../graph/graphqlTransformer';
+import { filterByDepth } from '../graph/depthFilter';
+import { filterFKEdges } from '../graph/edgeEnhancer';
+import { estimateNodeHeight, estimateNodeWidth } from '../graph/nodeFields';
+import { GraphEdge, GraphNode } from '../graph/types';
+import { runLayout } from '../layout/engines';
+import { PinnedPositions } from '../layout/pinnedPositions';
+import { LayoutInput } from '../layout/types';
+import { GraphBuildRequest, GraphBuildResult } from './types';
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Remove nodes that have no edges connecting to them
+ *
+ * When filtering edges (e.g., FK-only mode), some nodes may become orphaned.
+ * This function removes nodes that aren't connected by any of the provided edges.
+ *
+ * @param nodes - All nodes
+ * @param edges - Filtered edges
+ * @returns Nodes that are connected by at least one edge
+ */
+function removeOrphanedNodes(nodes: GraphNode[], edges: GraphEdge[]): GraphNode[] {
+  // Build set of node IDs that are connected by edges
+  const connectedNodeIds = new Set<string>();
+
+  for (const edge of edges) {
+    connectedNodeIds.add(edge.source);
+    connectedNodeIds.add(edge.target);
+  }
+
+  // Keep root nodes (depth 0) even if they have no edges
+  // This ensures the graph always has starting points
+  return nodes.filter(
+    (node) => node.data.isRoot || connectedNodeIds.has(node.id)
+  );
+}
+
+/**
+ * Converts graph nodes and edges to layout input, with estimated node sizes
+ * Pinned nodes become fixed constraints
+ */
+function toLayoutInput(nodes: GraphNode[], edges: GraphEdge[], pins: PinnedPositions): LayoutInput {
+  return {
+    nodes: nodes.map(node => ({
+      id: node.id,
+      width: estimateNodeWidth(node),
+      height: estimateNodeHeight(node),
+      depth: node.data.depth,
+      fixed: pins[node.id],
+    })),
+    edges: edges.map(edge => ({ source: edge.source, target: edge.target })),
+  };
+}
+
+// ============================================================================
+// Main Functions
+// ============================================================================
+
+/**
+ * Builds, filters and lays out the graph described by a request
+ *
+ * @param request - Roots, loaded types, transform options, filters and layout
+ * @param fetchTypes - Function to fetch missing types
+ * @param signal - Aborts the build between depths and before the layout
+ * @param onProgress - Progress callback
+ * @returns Visible nodes (positioned) and edges, plus all type data
+ * @throws AbortError if the signal aborts before the build completes
+ */
+export async function runGraphPipeline(
+  request: GraphBuildRequest,
+  fetchTypes?: TypeFetcher,
+  signal?: AbortSignal,
+  onProgress?: ProgressCallback
+): Promise<GraphBuildResult> {
+  const startTime = Date.now();
+  const { filterTypes } = request;
+  onProgress?.({ stage: 'started' });
+
+  const transformed = await buildGraphFromIntrospection(
+    request.rootTypes,
+    request.typeData,
+    {
+      ...request.options,
+      // If no filter types are selected, include all types
+      typeFilter: (typename) => filterTypes.length === 0 || filterTypes.includes(typename),
+    },
+    fetchTypes,
+    signal,
+    onProgress
+  );
+
+  const { filteredNodes, filteredEdges } = filterByDepth(
+    transformed.nodes,
+    transformed.edges,
+    request.options.maxDepth
+  );
+
+  // Apply FK filtering if enabled, dropping nodes it orphans
+  const edges = request.fkOnly ? filterFKEdges(filteredEdges) : filteredEdges;
+  const nodes = request.fkOnly ? removeOrphanedNodes(filteredNodes, edges) : filteredNodes;
+
+  signal?.throwIfAborted();
+  onProgress?.({ stage: 'layout', nodes: nodes.length, edges: edges.length });
+
+  const positions = runLayout(
+    request.layoutAlgorithm,
+    toLayoutInput(nodes, edges, request.pinnedPositions),
+    request.layoutOptions
+  );
+  for (const node of nodes) {
+    node.position = positions[node.id] ?? node.position;
+  }
+
+  onProgress?.({ stage: 'done', nodes: nodes.length, edges: edges.length, durationMs: Date.now() - startTime });
+
+  return {
+    ...transformed,
+    nodes,
+    edges,
+  };
+}
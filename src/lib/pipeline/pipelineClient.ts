@@ -0,0 +1,174 @@
+/**
+ * Pipeline Client - Runs graph builds in the graph worker
+ *
+ * Answers the worker's type requests with the caller's fetcher, forwards
+ * progress, and cancels the build in the worker when the caller aborts.
+ * Falls back to the main thread when workers are unavailable.
+ */
+
+import { isAbortError } from '../graphql/client';
+import { ProgressCallback, TypeFetcher } from '../graph/graphqlTransformer';
+import { runGraphPipeline } from './graphPipeline';
+import { GraphBuildRequest, GraphBuildResult, GraphWorkerRequest, GraphWorkerResponse } from './types';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+interface BuildHandlers {
+  fetchTypes?: TypeFetcher;
+  onProgress?: ProgressCallback;
+  signal?: AbortSignal;
+}
+
+interface PendingBuild extends BuildHandlers {
+  resolve: (result: GraphBuildResult) => void;
+  reject: (error: Error) => void;
+}
+
+// ============================================================================
+// Module State
+// ============================================================================
+
+// undefined = not started yet, null = unavailable (build on the main thread)
+let worker: Worker | null | undefined;
+let nextBuildId = 0;
+const pendingBuilds = new Map<number, PendingBuild>();
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function createAbortError(): DOMException {
+  return new DOMException('The build was cancelled', 'AbortError');
+}
+
+function send(message: GraphWorkerRequest): void {
+  worker?.postMessage(message);
+}
+
+/**
+ * Fails every pending build and switches to main-thread builds
+ */
+function disableWorker(reason: string): void {
+  console.warn('[Pipeline] Worker unavailable, building on the main thread:', reason);
+  worker?.terminate();
+  worker = null;
+
+  pendingBuilds.forEach(({ reject }) => reject(new Error(`Graph worker failed: ${reason}`)));
+  pendingBuilds.clear();
+}
+
+/**
+ * Fetches types for the worker and sends back the result
+ */
+async function answerFetch(buildId: number, fetchId: number, typenames: string[], build: PendingBuild): Promise<void> {
+  try {
+    const types = build.fetchTypes ? await build.fetchTypes(typenames, build.signal) : new Map();
+    send({ type: 'types', buildId, fetchId, types });
+  } catch (error) {
+    send({
+      type: 'typesError',
+      buildId,
+      fetchId,
+      error: error instanceof Error ? error.message : String(error),
+      aborted: isAbortError(error),
+    });
+  }
+}
+
+function handleMessage(message: GraphWorkerResponse): void {
+  const build = pendingBuilds.get(message.buildId);
+  if (!build) return; // Cancelled meanwhile
+
+  switch (message.type) {
+    case 'progress':
+      build.onProgress?.(message.progress);
+      break;
+
+    case 'fetchTypes':
+      answerFetch(message.buildId, message.fetchId, message.typenames, build);
+      break;
+
+    case 'result':
+      pendingBuilds.delete(message.buildId);
+      build.resolve(message.result);
+      break;
+
+    case 'error':
+      pendingBuilds.delete(message.buildId);
+      build.reject(new Error(message.error));
+      break;
+  }
+}
+
+/**
+ * Returns the shared graph worker, starting it on first use
+ */
+function getWorker(): Worker | null {
+  if (worker !== undefined) {
+    return worker;
+  }
+
+  if (typeof Worker === 'undefined') {
+    worker = null;
+    return worker;
+  }
+
+  try {
+    worker = new Worker(new URL('./graph.worker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    disableWorker(error instanceof Error ? error.message : String(error));
+    return null;
+  }
+
+  worker.addEventListener('message', (event: MessageEvent<GraphWorkerResponse>) => handleMessage(event.data));
+  worker.addEventListener('error', (event) => {
+    event.preventDefault();
+    disableWorker(event.message || 'worker error');
+  });
+
+  return worker;
+}
+
+// ============================================================================
+// Main Functions
+// ============================================================================
+
+/**
+ * Builds and lays out the visible graph, in the graph worker when available
+ *
+ * @param request - Roots, loaded types, transform options, filters and layout
+ * @param handlers - Type fetcher, progress callback and abort signal
+ * @returns Visible nodes (positioned) and edges, plus all type data
+ * @throws AbortError if the signal aborts first, Error if the build fails
+ */
+export function buildGraph(
+  request: GraphBuildRequest,
+  handlers: BuildHandlers = {}
+): Promise<GraphBuildResult> {
+  const { fetchTypes, onProgress, signal } = handlers;
+
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+
+  if (!getWorker()) {
+    return runGraphPipeline(request, fetchTypes, signal, onProgress);
+  }
+
+  const buildId = ++nextBuildId;
+
+  return new Promise<GraphBuildResult>((resolve, reject) => {
+    pendingBuilds.set(buildId, { ...handlers, resolve, reject });
+
+    signal?.addEventListener('abort', () => {
+      if (pendingBuilds.delete(buildId)) {
+        send({ type: 'cancel', buildId });
+        reject(createAbortError());
+      }
+    }, { once: true });
+
+    send({ type: 'build', buildId, request });
+  });
+}
@@ -0,0 +1,64 @@
+import { IntrospectionType } from '../graphql/introspection';
+import { GraphBuildProgress, GraphTransformResult, TransformOptions } from '../graph/graphqlTransformer';
+import { PinnedPositions } from '../layout/pinnedPositions';
+import { LayoutAlgorithm, LayoutOptions } from '../layout/types';
+
+// ============================================================================
+// Pipeline Request / Result
+// ============================================================================
+
+/**
+ * Everything needed to build and lay out the visible graph
+ * Must survive structured cloning, so it carries no functions
+ */
+export interface GraphBuildRequest {
+  rootTypes: string[];
+  /** Introspection data already loaded (at least the roots) */
+  typeData: Map<string, IntrospectionType>;
+  options: Omit<TransformOptions, 'typeFilter'>;
+  /** Types kept during traversal (empty = all); stands in for `TransformOptions.typeFilter` */
+  filterTypes: string[];
+  /** Keep only FK edges (and the nodes they connect) */
+  fkOnly: boolean;
+  layoutAlgorithm: LayoutAlgorithm;
+  /** Direction and spacing, applied to whichever algorithm is active */
+  layoutOptions: LayoutOptions;
+  /** Hand-placed node positions, kept fixed by the layout */
+  pinnedPositions: PinnedPositions;
+}
+
+/**
+ * The visible graph with laid-out positions
+ */
+export type GraphBuildResult = GraphTransformResult;
+
+// ============================================================================
+// Worker Protocol
+// ============================================================================
+
+/**
+ * Messages from the main thread to the graph worker
+ *
+ * - `build`: start a build
+ * - `cancel`: abort a build; no further messages are sent for it
+ * - `types` / `typesError`: answer to a `fetchTypes` message
+ */
+export type GraphWorkerRequest =
+  | { type: 'build'; buildId: number; request: GraphBuildRequest }
+  | { type: 'cancel'; buildId: number }
+  | { type: 'types'; buildId: number; fetchId: number; types: Map<string, IntrospectionType> }
+  | { type: 'typesError'; buildId: number; fetchId: number; error: string; aborted: boolean };
+
+/**
+ * Messages from the graph worker to the main thread
+ *
+ * - `progress`: incremental progress of a build
+ * - `fetchTypes`: the build needs types; fetching stays on the main thread
+ *   where the type cache and the endpoint client live
+ * - `result` / `error`: the build finished
+ */
+export type GraphWorkerResponse =
+  | { type: 'progress'; buildId: number; progress: GraphBuildProgress }
+  | { type: 'fetchTypes'; buildId: number; fetchId: number; typenames: string[] }
+  | { type: 'result'; buildId: number; result: GraphBuildResult }
+  | { type: 'error'; buildId: number; error: string };
@@ -0,0 +1,318 @@
+/**
+ * Query Generator - Turns part of the graph into a GraphQL query document
+ *
+ * The selected nodes form a tree through the fields their edges represent
+ * (`FKEdgeData.fieldName`). Each tree root is queried through a field of the
+ * schema's query type returning it, preferring list fields without required
+ * arguments. Required arguments anywhere in the query become variables.
+ */
+
+import { IntrospectionField, IntrospectionType } from '../graphql/introspection';
+import { formatTypeRef, unwrapType } from '../graphql/typeRef';
+import { GraphEdge, GraphNode } from '../graph/types';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * A type in the query tree and the relationship fields selected below it
+ */
+export interface QueryTreeNode {
+  typename: string;
+  /** GraphQL kind of the node, when the graph knows it */
+  kind?: string;
+  children: Array<{ field: string; node: QueryTreeNode }>;
+}
+
+/**
+ * Schema data the generator reads: every type in the query plus the query type
+ */
+export interface QuerySchema {
+  types: Map<string, IntrospectionType>;
+  queryTypeName: string | null;
+}
+
+export interface QueryGeneratorOptions {
+  /** Leaf fields selected per typename (defaults from `getDefaultLeafFields`) */
+  leafFields?: Record<string, string[]>;
+  operationName?: string;
+}
+
+export interface GeneratedQuery {
+  query: string;
+  /** Variables for the required arguments, with null placeholders */
+  variables: Record<string, null>;
+  /** Parts of the selection that could not be queried */
+  warnings: string[];
+}
+
+interface VariableDefinition {
+  name: string;
+  type: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const INDENT = '  ';
+
+const LEAF_KINDS = new Set(['SCALAR', 'ENUM']);
+
+/** Leaf fields selected by default, when the type has them */
+const DEFAULT_LEAF_FIELDS = ['id', 'name', 'display'];
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function isRequiredArgument(arg: { type: { kind: string }; defaultValue?: string | null }): boolean {
+  return arg.type.kind === 'NON_NULL' && (arg.defaultValue === undefined || arg.defaultValue === null);
+}
+
+/**
+ * Finds the query field that returns a type, preferring lists without
+ * required arguments (e.g. `devices` over `device(id: ID!)`)
+ */
+function findRootField(typename: string, schema: QuerySchema): IntrospectionField | undefined {
+  const queryType = schema.queryTypeName ? schema.types.get(schema.queryTypeName) : undefined;
+  const candidates = (queryType?.fields ?? []).filter((field) => unwrapType(field.type).name === typename);
+
+  const score = (field: IntrospectionField) =>
+    (unwrapType(field.type).isList ? 0 : 2) + ((field.args ?? []).some(isRequiredArgument) ? 1 : 0);
+  return candidates.sort((a, b) => score(a) - score(b) || a.name.localeCompare(b.name))[0];
+}
+
+function toPascalCase(text: string): string {
+  return text.replace(/(^|[^A-Za-z0-9]+)([A-Za-z0-9])/g, (_, __, char: string) => char.toUpperCase());
+}
+
+// ============================================================================
+// Tree Building
+// ============================================================================
+
+/**
+ * Builds query trees from selected graph nodes
+ * Field edges between selected nodes become nested selections; selected
+ * nodes no other selected node points at become roots. A node reached
+ * twice (a cycle) is selected once.
+ *
+ * @param nodes - Rendered nodes
+ * @param edges - Rendered edges
+ * @param selectedIds - Ids of the selected nodes
+ * @returns One tree per root
+ */
+export function buildQueryTrees(nodes: GraphNode[], edges: GraphEdge[], selectedIds: Set<string>): QueryTreeNode[] {
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  const fieldEdges = edges.filter((edge) =>
+    selectedIds.has(edge.source) &&
+    selectedIds.has(edge.target) &&
+    edge.source !== edge.target &&
+    (edge.data?.relation ?? 'field') === 'field' &&
+    edge.data?.fieldName
+  );
+
+  const targets = new Set(fieldEdges.map((edge) => edge.target));
+  let rootIds = nodes
+    .filter((node) => selectedIds.has(node.id) && !targets.has(node.id))
+    .map((node) => node.id);
+  // Selection forming a cycle: start at the shallowest node
+  if (rootIds.length === 0 && fieldEdges.length > 0) {
+    const shallowest = nodes
+      .filter((node) => selectedIds.has(node.id))
+      .sort((a, b) => a.data.depth - b.data.depth)[0];
+    rootIds = [shallowest.id];
+  }
+
+  const visited = new Set<string>();
+  const build = (id: string): QueryTreeNode => {
+    visited.add(id);
+    const graphNode = nodesById.get(id);
+    const node: QueryTreeNode = { typename: graphNode?.data.typename ?? id, kind: graphNode?.data.kind, children: [] };
+    for (const edge of fieldEdges) {
+      const field = edge.data?.fieldName;
+      if (edge.source !== id || !field || visited.has(edge.target)) continue;
+      if (node.children.some((child) => child.field === field)) continue;
+      node.children.push({ field, node: build(edge.target) });
+    }
+    return node;
+  };
+
+  return rootIds.filter((id) => !visited.has(id)).map(build);
+}
+
+/**
+ * Ids of a node and every node below it through field edges
+ *
+ * @param rootId - Node at the top of the subtree
+ * @param edges - Rendered edges
+ * @returns Ids in the subtree, the root included
+ */
+export function getSubtreeIds(rootId: string, edges: GraphEdge[]): Set<string> {
+  const ids = new Set([rootId]);
+  const queue = [rootId];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const edge of edges) {
+      if (edge.source === id && (edge.data?.relation ?? 'field') === 'field' && !ids.has(edge.target)) {
+        ids.add(edge.target);
+        queue.push(edge.target);
+      }
+    }
+  }
+  return ids;
+}
+
+/**
+ * Typenames in query trees, in tree order
+ *
+ * @param trees - Query trees
+ * @returns Distinct typenames
+ */
+export function getQueryTreeTypenames(trees: QueryTreeNode[]): string[] {
+  const typenames = new Set<string>();
+  const visit = (node: QueryTreeNode) => {
+    typenames.add(node.typename);
+    node.children.forEach((child) => visit(child.node));
+  };
+  trees.forEach(visit);
+  return Array.from(typenames);
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Leaf (scalar and enum) fields a type offers for selection
+ *
+ * @param type - Introspection type
+ * @returns Leaf fields without required arguments
+ */
+export function getLeafFields(type: IntrospectionType | undefined): IntrospectionField[] {
+  return (type?.fields ?? []).filter((field) =>
+    !field.name.startsWith('__') &&
+    LEAF_KINDS.has(unwrapType(field.type).kind) &&
+    !(field.args ?? []).some(isRequiredArgument)
+  );
+}
+
+/**
+ * Leaf fields selected until the user picks others: `id`, `name` and
+ * `display` when present, otherwise the first leaf field
+ *
+ * @param type - Introspection type
+ * @returns Field names
+ */
+export function getDefaultLeafFields(type: IntrospectionType | undefined): string[] {
+  const names = getLeafFields(type).map((field) => field.name);
+  const defaults = DEFAULT_LEAF_FIELDS.filter((name) => names.includes(name));
+  return defaults.length > 0 ? defaults : names.slice(0, 1);
+}
+
+/**
+ * Prints query trees as one query document
+ *
+ * @param trees - Query trees (one top-level field each)
+ * @param schema - Types in the trees and the query type
+ * @param options - Leaf field choice and operation name
+ * @returns Query document, variable placeholders and warnings
+ */
+export function generateQuery(
+  trees: QueryTreeNode[],
+  schema: QuerySchema,
+  options: QueryGeneratorOptions = {}
+): GeneratedQuery {
+  const variables: VariableDefinition[] = [];
+  const warnings: string[] = [];
+
+  // Required arguments of a field become variables named after the field
+  const printArguments = (field: IntrospectionField): string => {
+    const required = (field.args ?? []).filter(isRequiredArgument);
+    if (required.length === 0) return '';
+
+    const printed = required.map((arg) => {
+      let name = `${field.name}_${arg.name}`;
+      for (let suffix = 2; variables.some((variable) => variable.name === name); suffix++) {
+        name = `${field.name}_${arg.name}${suffix}`;
+      }
+      variables.push({ name, type: formatTypeRef(arg.type) });
+      return `${arg.name}: $${name}`;
+    });
+    return `(${printed.join(', ')})`;
+  };
+
+  const printSelection = (node: QueryTreeNode, level: number): string[] => {
+    const type = schema.types.get(node.typename);
+    const pad = INDENT.repeat(level);
+    const lines: string[] = [];
+
+    const leafNames = new Set(getLeafFields(type).map((field) => field.name));
+    const leaves = (options.leafFields?.[node.typename] ?? getDefaultLeafFields(type))
+      .filter((name) => leafNames.has(name));
+    for (const name of leaves) {
+      lines.push(`${pad}${name}`);
+    }
+
+    for (const child of node.children) {
+      const field = type?.fields?.find((candidate) => candidate.name === child.field);
+      if (!field) {
+        warnings.push(`${node.typename} has no field "${child.field}"`);
+        continue;
+      }
+      // Scalar and enum nodes (shown with type kinds) are plain fields
+      if (LEAF_KINDS.has(unwrapType(field.type).kind)) {
+        if (!leaves.includes(field.name)) {
+          lines.push(`${pad}${field.name}${printArguments(field)}`);
+        }
+        continue;
+      }
+      lines.push(`${pad}${field.name}${printArguments(field)} {`);
+      lines.push(...printSelection(child.node, level + 1));
+      lines.push(`${pad}}`);
+    }
+
+    // Every selection set needs at least one field
+    if (lines.length === 0) {
+      lines.push(`${pad}__typename`);
+    }
+    return lines;
+  };
+
+  const body: string[] = [];
+  const queried: QueryTreeNode[] = [];
+  for (const tree of trees) {
+    // Scalar and enum roots have no fields to select
+    const rootKind = tree.kind ?? schema.types.get(tree.typename)?.kind;
+    if (rootKind && LEAF_KINDS.has(rootKind)) {
+      warnings.push(`${tree.typename} is ${rootKind === 'ENUM' ? 'an enum' : 'a scalar'} - select the type with a field of it instead`);
+      continue;
+    }
+    const rootField = findRootField(tree.typename, schema);
+    if (!rootField) {
+      warnings.push(`No query field returns ${tree.typename}`);
+      continue;
+    }
+    body.push(`${INDENT}${rootField.name}${printArguments(rootField)} {`);
+    body.push(...printSelection(tree, 2));
+    body.push(`${INDENT}}`);
+    queried.push(tree);
+  }
+
+  if (body.length === 0) {
+    return { query: '', variables: {}, warnings };
+  }
+
+  const operationName = options.operationName ??
+    `${queried.map((tree) => toPascalCase(tree.typename.replace(/Type$/, ''))).join('')}Query`;
+  const variableList = variables.length > 0
+    ? `(${variables.map((variable) => `$${variable.name}: ${variable.type}`).join(', ')})`
+    : '';
+
+  return {
+    query: `query ${operationName}${variableList} {\n${body.join('\n')}\n}\n`,
+    variables: Object.fromEntries(variables.map((variable) => [variable.name, null])),
+    warnings,
+  };
+}
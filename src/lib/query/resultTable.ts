@@ -0,0 +1,90 @@
+/**
+ * Result Table - Flattens GraphQL response data into tables
+ *
+ * Each top-level field of the response becomes one table. A list becomes one
+ * row per item, a single object one row. Nested objects are flattened into
+ * dotted columns (`location.name`); nested lists of scalars are joined and
+ * nested lists of objects are summarized by their length.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type ResultCell = string | number | boolean | null;
+
+export interface ResultTable {
+  /** Response key of the top-level field */
+  key: string;
+  columns: string[];
+  rows: Array<Record<string, ResultCell>>;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toCell(value: unknown): ResultCell {
+  if (Array.isArray(value)) {
+    return value.some((item) => typeof item === 'object' && item !== null)
+      ? `${value.length} ${value.length === 1 ? 'item' : 'items'}`
+      : value.map((item) => String(item)).join(', ');
+  }
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return value as ResultCell;
+}
+
+function flattenRow(value: unknown, prefix: string, row: Record<string, ResultCell>): void {
+  if (!isPlainObject(value)) {
+    row[prefix || 'value'] = toCell(value);
+    return;
+  }
+  for (const [key, child] of Object.entries(value)) {
+    const column = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(child)) {
+      flattenRow(child, column, row);
+    } else {
+      row[column] = toCell(child);
+    }
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Builds one table per top-level field of the response data
+ *
+ * @param data - The response's `data` object
+ * @returns Tables in response order (empty when there is no data)
+ */
+export function buildResultTables(data: unknown): ResultTable[] {
+  if (!isPlainObject(data)) return [];
+
+  return Object.entries(data).map(([key, value]) => {
+    const items = Array.isArray(value) ? value : value === null ? [] : [value];
+    const rows = items.map((item) => {
+      const row: Record<string, ResultCell> = {};
+      flattenRow(item, '', row);
+      return row;
+    });
+
+    const columns: string[] = [];
+    const seen = new Set<string>();
+    for (const row of rows) {
+      for (const column of Object.keys(row)) {
+        if (!seen.has(column)) {
+          seen.add(column);
+          columns.push(column);
+        }
+      }
+    }
+    return { key, columns, rows };
+  });
+}
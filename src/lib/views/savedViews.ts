@@ -0,0 +1,238 @@
+/**
+ * Saved Views - Named workspaces capturing what the graph shows and how
+ *
+ * A view records the roots, depth, type filters, FK-only mode, graph mode,
+ * layout choice and the pinned positions of its nodes. Views are stored in
+ * localStorage and can be exported to / imported from JSON files so a team
+ * can share e.g. "the IPAM view".
+ */
+
+import { GraphMode } from '../graph/types';
+import { PinnedPositions } from '../layout/pinnedPositions';
+import { LayoutAlgorithm, LayoutOptions } from '../layout/types';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Everything a view restores
+ */
+export interface ViewState {
+  rootTypes: string[];
+  depth: number;
+  /** Types kept during traversal (empty = all) */
+  filterTypes: string[];
+  fkOnly: boolean;
+  graphMode: GraphMode;
+  showTypeKinds: boolean;
+  showFieldNodes: boolean;
+  includeScalars: boolean;
+  layoutAlgorithm: LayoutAlgorithm;
+  layoutOptions: LayoutOptions;
+  /** Pinned positions of the nodes in the view's graph */
+  pinnedPositions: PinnedPositions;
+}
+
+export interface SavedView {
+  /** Stable identifier */
+  id: string;
+  /** Display name shown in the drawer (e.g., "IPAM") */
+  name: string;
+  /** ISO timestamp of the last save */
+  savedAt: string;
+  state: ViewState;
+}
+
+/**
+ * Shape of an exported views file
+ */
+interface SavedViewsFile {
+  format: typeof VIEWS_FILE_FORMAT;
+  version: number;
+  views: SavedView[];
+}
+
+type ViewListener = () => void;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SAVED_VIEWS_STORAGE_KEY = 'modelVisualizer_savedViews';
+
+/** Marker identifying exported views files */
+const VIEWS_FILE_FORMAT = 'model-visualizer/views';
+const VIEWS_FILE_VERSION = 1;
+
+/** File types offered by the import picker */
+export const VIEWS_FILE_ACCEPT = '.json,application/json';
+
+// ============================================================================
+// Module State
+// ============================================================================
+
+const listeners = new Set<ViewListener>();
+
+// ============================================================================
+// Storage Helpers
+// ============================================================================
+
+/**
+ * Reads saved views from localStorage
+ * Malformed storage is ignored rather than breaking the app
+ */
+function readStoredViews(): SavedView[] {
+  try {
+    const raw = localStorage.getItem(SAVED_VIEWS_STORAGE_KEY);
+    if (!raw) {
+      return [];
+    }
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isSavedView) : [];
+  } catch (error) {
+    console.warn('[Saved Views] Failed to read stored views:', error);
+    return [];
+  }
+}
+
+function writeStoredViews(views: SavedView[]): void {
+  localStorage.setItem(SAVED_VIEWS_STORAGE_KEY, JSON.stringify(views));
+}
+
+function notifyListeners(): void {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Checks the fields a view needs to be restored
+ * Older or hand-edited views may lack optional settings; those fall back
+ * to the current values when the view is applied
+ */
+function isSavedView(value: unknown): value is SavedView {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const view = value as Partial<SavedView>;
+  const state = view.state as Partial<ViewState> | undefined;
+  return typeof view.id === 'string'
+    && typeof view.name === 'string'
+    && !!state
+    && Array.isArray(state.rootTypes)
+    && state.rootTypes.every((typename) => typeof typename === 'string')
+    && typeof state.depth === 'number';
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Returns all saved views, sorted by name
+ */
+export function getSavedViews(): SavedView[] {
+  return readStoredViews().sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Creates or updates a view (matched by id)
+ *
+ * @param view - View to save
+ */
+export function saveView(view: SavedView): void {
+  const stored = readStoredViews();
+  const index = stored.findIndex((v) => v.id === view.id);
+
+  if (index >= 0) {
+    stored[index] = view;
+  } else {
+    stored.push(view);
+  }
+
+  writeStoredViews(stored);
+  notifyListeners();
+}
+
+/**
+ * Deletes a saved view
+ *
+ * @param id - View id to delete
+ */
+export function deleteView(id: string): void {
+  writeStoredViews(readStoredViews().filter((v) => v.id !== id));
+  notifyListeners();
+}
+
+/**
+ * Generates an id for a new view
+ */
+export function createViewId(): string {
+  return `view-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * Subscribes to saved view changes
+ *
+ * @param listener - Called after any change
+ * @returns Unsubscribe function
+ */
+export function subscribeToSavedViews(listener: ViewListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Serializes views for sharing as a file
+ *
+ * @param views - Views to export
+ * @returns Pretty-printed JSON
+ */
+export function exportViews(views: SavedView[]): string {
+  const file: SavedViewsFile = {
+    format: VIEWS_FILE_FORMAT,
+    version: VIEWS_FILE_VERSION,
+    views,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Imports views from an exported file
+ * Views already present (same id) are replaced, so re-importing a
+ * teammate's updated file updates their views in place
+ *
+ * @param content - File contents
+ * @returns Number of views imported
+ * @throws Error if the file is not an exported views file
+ */
+export function importViews(content: string): number {
+  let parsed: Partial<SavedViewsFile>;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error('Views file is not valid JSON');
+  }
+
+  if (!parsed || parsed.format !== VIEWS_FILE_FORMAT || !Array.isArray(parsed.views)) {
+    throw new Error('Not a saved views file');
+  }
+  if ((parsed.version ?? 0) > VIEWS_FILE_VERSION) {
+    throw new Error(`Views file version ${parsed.version} is newer than this app supports`);
+  }
+
+  const imported = parsed.views.filter(isSavedView);
+  if (imported.length === 0) {
+    throw new Error('Views file contains no valid views');
+  }
+
+  const importedIds = new Set(imported.map((view) => view.id));
+  writeStoredViews([
+    ...readStoredViews().filter((view) => !importedIds.has(view.id)),
+    ...imported,
+  ]);
+  notifyListeners();
+
+  return imported.length;
+}
@@ -0,0 +1,127 @@
+/**
+ * URL State - Deep links encoding the current view in the query string
+ *
+ * `?roots=DeviceType,RackType&depth=3&filters=VLANType&fk=1&focus=RackType:1`
+ *
+ * Absent parameters keep their defaults. An empty `filters=` means "no type
+ * filter" and is distinct from an absent one (which applies the defaults).
+ */
+
+import { MAX_DEPTH } from '../../constants/defaults';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * View settings carried by a link; absent settings are undefined
+ */
+export interface UrlViewState {
+  rootTypes?: string[];
+  depth?: number;
+  filterTypes?: string[];
+  fkOnly?: boolean;
+  /** Id of the focused node */
+  focus?: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const PARAM_ROOTS = 'roots';
+const PARAM_DEPTH = 'depth';
+const PARAM_FILTERS = 'filters';
+const PARAM_FK_ONLY = 'fk';
+const PARAM_FOCUS = 'focus';
+
+/** Shallowest depth offered by the depth slider */
+const MIN_DEPTH = 1;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function parseList(value: string): string[] {
+  return value.split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Parses view settings from a query string
+ * Malformed values are ignored
+ *
+ * @param search - Query string (e.g., `window.location.search`)
+ * @returns Settings present in the link
+ */
+export function parseUrlState(search: string): UrlViewState {
+  const params = new URLSearchParams(search);
+  const state: UrlViewState = {};
+
+  const roots = params.get(PARAM_ROOTS);
+  if (roots !== null) {
+    state.rootTypes = parseList(roots);
+  }
+
+  const depth = Number.parseInt(params.get(PARAM_DEPTH) ?? '', 10);
+  if (!Number.isNaN(depth)) {
+    state.depth = Math.min(Math.max(depth, MIN_DEPTH), MAX_DEPTH);
+  }
+
+  const filters = params.get(PARAM_FILTERS);
+  if (filters !== null) {
+    state.filterTypes = parseList(filters);
+  }
+
+  const fkOnly = params.get(PARAM_FK_ONLY);
+  if (fkOnly !== null) {
+    state.fkOnly = fkOnly === '1' || fkOnly === 'true';
+  }
+
+  const focus = params.get(PARAM_FOCUS);
+  if (focus) {
+    state.focus = focus;
+  }
+
+  return state;
+}
+
+/**
+ * Serializes view settings to a query string
+ * Commas separating typenames stay readable rather than percent-encoded
+ *
+ * @param state - Settings to encode
+ * @returns Query string including the leading `?`
+ */
+export function buildUrlSearch(state: UrlViewState): string {
+  const params = new URLSearchParams();
+  if (state.rootTypes) {
+    params.set(PARAM_ROOTS, state.rootTypes.join(','));
+  }
+  if (state.depth !== undefined) {
+    params.set(PARAM_DEPTH, String(state.depth));
+  }
+  if (state.filterTypes) {
+    params.set(PARAM_FILTERS, state.filterTypes.join(','));
+  }
+  if (state.fkOnly) {
+    params.set(PARAM_FK_ONLY, '1');
+  }
+  if (state.focus) {
+    params.set(PARAM_FOCUS, state.focus);
+  }
+  return `?${params.toString().replace(/%2C/g, ',')}`;
+}
+
+/**
+ * Typenames referenced by a link
+ *
+ * @param state - Parsed link settings
+ * @returns Root and filter typenames, deduplicated
+ */
+export function getLinkedTypenames(state: UrlViewState): string[] {
+  return [...new Set([...(state.rootTypes ?? []), ...(state.filterTypes ?? [])])];
+}